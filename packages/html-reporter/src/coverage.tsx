@@ -0,0 +1,59 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React from 'react';
+import { LoadedReport } from './loadedReport';
+import * as icons from './icons';
+import { Chip } from './chip';
+import type { CoverageCounts } from '@playwright/isomorphic/coverage';
+import './coverage.css';
+
+export function Coverage({ report }: { report: LoadedReport }) {
+  const [length, setLength] = React.useState(50);
+  const coverage = report.json().coverage;
+  if (!coverage)
+    return <div className='coverage-empty'>No coverage collected.</div>;
+
+  return <Chip
+    header={`Coverage: ${percent(coverage.lines)} lines, ${percent(coverage.functions)} functions`}
+    noInsets={true}
+    footer={
+      length < coverage.files.length
+        ? <button className='link-badge fullwidth-link' style={{ padding: '8px 5px' }} onClick={() => setLength(l => l + 50)}>
+          {icons.downArrow()}
+          Show 50 more
+        </button>
+        : undefined
+    }
+  >
+    {coverage.files.slice(0, length).map(file => <div key={file.path} className='coverage-file hbox' data-testid='file-coverage'>
+      <span className='coverage-path' title={file.path}>{file.path}</span>
+      <CountsView counts={file.lines} label='Lines' />
+      <CountsView counts={file.functions} label='Functions' />
+    </div>)}
+  </Chip>;
+}
+
+function CountsView({ counts, label }: { counts: CoverageCounts, label: string }) {
+  return <span className='coverage-counts' title={`${label}: ${counts.covered} of ${counts.total}`}>
+    <meter className='coverage-meter' min={0} max={1} low={0.5} high={0.8} optimum={1} value={counts.total ? counts.covered / counts.total : 1} />
+    {percent(counts)}
+  </span>;
+}
+
+function percent(counts: CoverageCounts): string {
+  return counts.total ? `${Math.floor(counts.covered / counts.total * 100)}%` : '-';
+}
@@ -45,9 +45,11 @@ export const HeaderView: React.FC<{
 
 export const GlobalFilterView: React.FC<{
   stats: Stats,
+  hasTrends?: boolean,
+  hasCoverage?: boolean,
   filterText: string,
   setFilterText: (filterText: string) => void,
-}> = ({ stats, filterText, setFilterText }) => {
+}> = ({ stats, hasTrends, hasCoverage, filterText, setFilterText }) => {
   const query = useSearchParams().get('q');
   React.useEffect(() => {
     // Add an extra space such that users can easily add to query
@@ -57,7 +59,7 @@ export const GlobalFilterView: React.FC<{
   return (<>
     <div className='pt-3'>
       <div className='header-view-status-container ml-2 pl-2 d-flex'>
-        <StatsNavView stats={stats}></StatsNavView>
+        <StatsNavView stats={stats} hasTrends={hasTrends} hasCoverage={hasCoverage}></StatsNavView>
       </div>
       <form className='subnav-search' onSubmit={
         event => {
@@ -86,9 +88,14 @@ export const GlobalFilterView: React.FC<{
 };
 
 const StatsNavView: React.FC<{
-  stats: Stats
-}> = ({ stats }) => {
-  const isSpeedboard = useSearchParams().has('speedboard');
+  stats: Stats,
+  hasTrends?: boolean,
+  hasCoverage?: boolean,
+}> = ({ stats, hasTrends, hasCoverage }) => {
+  const searchParams = useSearchParams();
+  const isSpeedboard = searchParams.has('speedboard');
+  const isTrends = searchParams.has('trends');
+  const isCoverage = searchParams.has('coverage');
 
   return <nav>
     <Link className='subnav-item' href='#?'>
@@ -102,6 +109,12 @@ const StatsNavView: React.FC<{
     <Link className='subnav-item' href='#?speedboard' title='Speedboard' aria-selected={isSpeedboard}>
       {icons.clock()}
     </Link>
+    {hasTrends && <Link className='subnav-item' href='#?trends' title='Trends' aria-selected={isTrends}>
+      {icons.graph()}
+    </Link>}
+    {hasCoverage && <Link className='subnav-item' href='#?coverage' title='Coverage' aria-selected={isCoverage}>
+      {icons.shield()}
+    </Link>}
     <SettingsButton />
   </nav>;
 };
@@ -112,6 +125,8 @@ const NavLink: React.FC<{
 }> = ({ token, count }) => {
   const searchParams = new URLSearchParams(useSearchParams());
   searchParams.delete('speedboard');
+  searchParams.delete('trends');
+  searchParams.delete('coverage');
   searchParams.delete('testId');
 
   const queryToken = `s:${token}`;
@@ -28,6 +28,8 @@ import { TestFilesHeader, TestFilesView } from './testFilesView';
 import './theme.css';
 import { useSetting } from '@web/uiUtils';
 import { Speedboard } from './speedboard';
+import { Trends } from './trends';
+import { Coverage } from './coverage';
 
 declare global {
   interface Window {
@@ -36,9 +38,11 @@ declare global {
 }
 
 // These are extracted to preserve the function identity between renders to avoid re-triggering effects.
-const testFilesRoutePredicate = (params: URLSearchParams) => !params.has('testId') && !params.has('speedboard');
+const testFilesRoutePredicate = (params: URLSearchParams) => !params.has('testId') && !params.has('speedboard') && !params.has('trends') && !params.has('coverage');
 const testCaseRoutePredicate = (params: URLSearchParams) => params.has('testId');
 const speedboardRoutePredicate = (params: URLSearchParams) => params.has('speedboard') && !params.has('testId');
+const trendsRoutePredicate = (params: URLSearchParams) => params.has('trends') && !params.has('testId');
+const coverageRoutePredicate = (params: URLSearchParams) => params.has('coverage') && !params.has('testId');
 
 type TestModelSummary = {
   files: TestFileSummary[];
@@ -100,12 +104,16 @@ export const ReportView: React.FC<{
           event.preventDefault();
           params.delete('testId');
           params.delete('speedboard');
+          params.delete('trends');
+          params.delete('coverage');
           navigate(filterWithQuery(params, 's:passed', false));
           break;
         case 'f':
           event.preventDefault();
           params.delete('testId');
           params.delete('speedboard');
+          params.delete('trends');
+          params.delete('coverage');
           navigate(filterWithQuery(params, 's:failed', false));
           break;
         case 'ArrowLeft':
@@ -138,7 +146,7 @@ export const ReportView: React.FC<{
 
   return <div className='htmlreport vbox px-4 pb-4'>
     <main>
-      {report && <GlobalFilterView stats={report.json().stats} filterText={filterText} setFilterText={setFilterText} />}
+      {report && <GlobalFilterView stats={report.json().stats} hasTrends={!!report.json().trends} hasCoverage={!!report.json().coverage} filterText={filterText} setFilterText={setFilterText} />}
       <Route predicate={testFilesRoutePredicate}>
         <TestFilesHeader report={report?.json()} filteredStats={filteredStats} metadataVisible={metadataVisible} toggleMetadataVisible={() => setMetadataVisible(visible => !visible)}/>
         <TestFilesView
@@ -152,6 +160,14 @@ export const ReportView: React.FC<{
         <TestFilesHeader report={report?.json()} filteredStats={filteredStats} metadataVisible={metadataVisible} toggleMetadataVisible={() => setMetadataVisible(visible => !visible)}/>
         {report && <Speedboard report={report} tests={testModel.tests} />}
       </Route>
+      <Route predicate={trendsRoutePredicate}>
+        <TestFilesHeader report={report?.json()} filteredStats={filteredStats} metadataVisible={metadataVisible} toggleMetadataVisible={() => setMetadataVisible(visible => !visible)}/>
+        {report && <Trends report={report} />}
+      </Route>
+      <Route predicate={coverageRoutePredicate}>
+        <TestFilesHeader report={report?.json()} filteredStats={filteredStats} metadataVisible={metadataVisible} toggleMetadataVisible={() => setMetadataVisible(visible => !visible)}/>
+        {report && <Coverage report={report} />}
+      </Route>
       <Route predicate={testCaseRoutePredicate}>
         {report && <TestCaseViewLoader report={report} next={next} prev={prev} testId={testId} testIdToFileIdMap={testIdToFileIdMap} />}
       </Route>
@@ -0,0 +1,100 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React from 'react';
+import { LoadedReport } from './loadedReport';
+import * as icons from './icons';
+import { Chip } from './chip';
+import { Label } from './labels';
+import { Link } from './links';
+import { statusIcon } from './statusIcon';
+import { msToString } from './utils';
+import type { RunHistoryCommit, TestTrend } from '@playwright/isomorphic/runHistory';
+import './trends.css';
+
+export function Trends({ report }: { report: LoadedReport }) {
+  const [length, setLength] = React.useState(50);
+  const trends = report.json().trends;
+  const projectNames = report.json().projectNames;
+  const testIds = React.useMemo(() => new Set(report.json().files.flatMap(file => file.tests.map(test => test.testId))), [report]);
+  if (!trends)
+    return <div className='trends-empty'>No run history recorded.</div>;
+  if (!trends.tests.length)
+    return <div className='trends-empty'>No failing or flaky tests in the last {trends.runs} runs.</div>;
+
+  return <Chip
+    header={`Test Trends, last ${trends.runs} runs`}
+    noInsets={true}
+    footer={
+      length < trends.tests.length
+        ? <button className='link-badge fullwidth-link' style={{ padding: '8px 5px' }} onClick={() => setLength(l => l + 50)}>
+          {icons.downArrow()}
+          Show 50 more
+        </button>
+        : undefined
+    }
+  >
+    {trends.tests.slice(0, length).map(test => <TrendView key={test.id} test={test} projectNames={projectNames} hasTest={testIds.has(test.id)} />)}
+  </Chip>;
+}
+
+function TrendView({ test, projectNames, hasTest }: { test: TestTrend, projectNames: string[], hasTest: boolean }) {
+  const title = <span className='trends-title'>{test.title}</span>;
+  return <div className='trends-test' data-testid='test-trend'>
+    <div className='hbox' style={{ alignItems: 'flex-start' }}>
+      <span className='trends-title-row'>
+        {hasTest ? <Link href={`#?testId=${test.id}`} title={test.title}>{title}</Link> : title}
+        {projectNames.length > 0 && !!test.project && <Label label={test.project} colorIndex={projectNames.indexOf(test.project) % 6} />}
+      </span>
+      <span className='trends-pass-rate' title='Pass rate'>{Math.round(test.passRate * 100)}%</span>
+    </div>
+    <div className='trends-details-row'>
+      <OutcomesView test={test} />
+      <DurationsView test={test} />
+      <span title='Average duration'>{msToString(test.averageDuration)}</span>
+      {test.firstFailingCommit && <span className='trends-commit'>First failed at <CommitView commit={test.firstFailingCommit} /></span>}
+    </div>
+  </div>;
+}
+
+function OutcomesView({ test }: { test: TestTrend }) {
+  return <span className='trends-outcomes' aria-label='Outcomes'>
+    {test.runs.map((run, index) => <span key={index} className='trends-outcome' title={`${new Date(run.startTime).toLocaleString()}: ${run.outcome}${run.retries ? `, ${run.retries} retries` : ''}`}>
+      {statusIcon(run.outcome)}
+    </span>)}
+  </span>;
+}
+
+function DurationsView({ test }: { test: TestTrend }) {
+  const width = 120;
+  const height = 20;
+  const runs = test.runs.filter(run => run.outcome !== 'skipped');
+  if (runs.length < 2)
+    return null;
+  const maxDuration = Math.max(...runs.map(run => run.duration), 1);
+  const points = runs.map((run, index) => `${(index / (runs.length - 1) * width).toFixed(1)},${(height - run.duration / maxDuration * height).toFixed(1)}`);
+  return <svg className='trends-durations' width={width} height={height} viewBox={`0 -1 ${width} ${height + 2}`} role='img' aria-label='Duration trend'>
+    <polyline points={points.join(' ')} fill='none' strokeWidth='1.5' />
+  </svg>;
+}
+
+function CommitView({ commit }: { commit: RunHistoryCommit }) {
+  const hash = commit.shortHash ?? commit.hash.slice(0, 7);
+  return <>
+    {commit.href ? <a className='trends-commit-hash' href={commit.href} target='_blank' rel='noopener noreferrer'>{hash}</a> : <span className='trends-commit-hash'>{hash}</span>}
+    {commit.subject && <span className='trends-commit-subject'>{commit.subject}</span>}
+  </>;
+}
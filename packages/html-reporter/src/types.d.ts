@@ -15,6 +15,8 @@
  */
 
 import type { TestAnnotation, Metadata } from '@playwright/test';
+import type { CoverageSummary } from '@playwright/isomorphic/coverage';
+import type { TestTrend } from '@playwright/isomorphic/runHistory';
 
 export type Stats = {
   total: number;
@@ -57,6 +59,13 @@ export type HTMLReport = {
   }[];
   errors: string[];  // Top-level errors that are not attributed to any test.
   options: HTMLReportOptions;
+  trends?: TestTrends;
+  coverage?: CoverageSummary;
+};
+
+export type TestTrends = {
+  runs: number;
+  tests: TestTrend[];
 };
 
 export type TestFile = {
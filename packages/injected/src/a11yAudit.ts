@@ -0,0 +1,164 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { beginDOMCaches, elementSafeTagName, endDOMCaches, isElementVisible } from './domUtils';
+import { beginAriaCaches, endAriaCaches, getAriaRole, getElementAccessibleName, isElementHiddenForAria, isValidAriaRole } from './roleUtils';
+
+import type { AriaRef } from './ariaSnapshot';
+
+export type A11yIssue = {
+  rule: string;
+  message: string;
+  ref?: string;
+};
+
+const kInteractiveRoles = new Set([
+  'button', 'checkbox', 'combobox', 'link', 'listbox', 'menuitem', 'menuitemcheckbox', 'menuitemradio',
+  'option', 'radio', 'searchbox', 'slider', 'spinbutton', 'switch', 'tab', 'textbox', 'treeitem',
+]);
+
+const kIdRefAttributes = ['aria-activedescendant', 'aria-controls', 'aria-describedby', 'aria-details', 'aria-errormessage', 'aria-flowto', 'aria-labelledby', 'aria-owns'];
+
+const kUnlabeledInputTypes = new Set(['button', 'hidden', 'image', 'reset', 'submit']);
+
+export function auditAccessibility(root: Document): A11yIssue[] {
+  beginAriaCaches();
+  beginDOMCaches();
+  try {
+    const elements = allElements(root);
+    const idCounts = new Map<string, number>();
+    for (const element of elements) {
+      if (element.id)
+        idCounts.set(element.id, (idCounts.get(element.id) || 0) + 1);
+    }
+
+    const issues: A11yIssue[] = [];
+    for (const element of elements) {
+      if (isElementHiddenForAria(element))
+        continue;
+      const report = (rule: string, message: string) => issues.push({ rule, message, ref: elementRef(element) });
+      const tagName = elementSafeTagName(element);
+
+      const explicitRoles = (element.getAttribute('role') || '').split(' ').map(role => role.trim()).filter(Boolean);
+      if (explicitRoles.length && !explicitRoles.some(isValidAriaRole))
+        report('invalid-role', `Role "${element.getAttribute('role')}" is not a valid ARIA role.`);
+
+      for (const attribute of kIdRefAttributes) {
+        for (const id of (element.getAttribute(attribute) || '').split(' ').filter(Boolean)) {
+          if ((idCounts.get(id) || 0) > 1)
+            report('duplicate-id', `Id "${id}" referenced by ${attribute} is used by ${idCounts.get(id)} elements.`);
+        }
+      }
+
+      const role = getAriaRole(element);
+      const name = getElementAccessibleName(element, false);
+      if (tagName === 'IMG' && !element.hasAttribute('alt') && !name) {
+        report('image-alt', 'Image has no alt text.');
+      } else if (role === 'img' && !name) {
+        report('image-alt', 'Image has no accessible name.');
+      } else if (isFormField(element)) {
+        if (!name)
+          report('unlabeled-field', `Form field <${tagName.toLowerCase()}> has no label.`);
+      } else if (role && kInteractiveRoles.has(role) && !name) {
+        report('missing-name', `Interactive ${role} has no accessible name.`);
+      }
+    }
+    return issues;
+  } finally {
+    endAriaCaches();
+    endDOMCaches();
+  }
+}
+
+export type FocusedElement = {
+  id: number;
+  ref?: string;
+  role?: string;
+  name: string;
+  tagName: string;
+  visible: boolean;
+  isFrame: boolean;
+  inModal: boolean;
+};
+
+let lastFocusId = 0;
+const focusIds = new WeakMap<Element, number>();
+
+export function focusedElement(root: Document): FocusedElement | undefined {
+  let element = root.activeElement;
+  while (element?.shadowRoot?.activeElement)
+    element = element.shadowRoot.activeElement;
+  if (!element || element === root.body || element === root.documentElement)
+    return;
+  let focusId = focusIds.get(element);
+  if (focusId === undefined) {
+    focusId = ++lastFocusId;
+    focusIds.set(element, focusId);
+  }
+  const tagName = elementSafeTagName(element);
+  return {
+    id: focusId,
+    ref: elementRef(element),
+    role: getAriaRole(element) || undefined,
+    name: getElementAccessibleName(element, false),
+    tagName: tagName.toLowerCase(),
+    visible: isElementVisible(element),
+    isFrame: tagName === 'IFRAME' || tagName === 'FRAME',
+    inModal: !!element.closest('[aria-modal=true], dialog[open]'),
+  };
+}
+
+export function tabbableElementCount(root: Document): number {
+  return allElements(root).filter(element => (element as HTMLElement).tabIndex >= 0 && isTabbableCandidate(element) && isElementVisible(element)).length;
+}
+
+function isTabbableCandidate(element: Element): boolean {
+  if ((element as HTMLInputElement).disabled)
+    return false;
+  if (element.hasAttribute('tabindex'))
+    return true;
+  const tagName = elementSafeTagName(element);
+  if (tagName === 'A' || tagName === 'AREA')
+    return element.hasAttribute('href');
+  if (tagName === 'INPUT')
+    return (element as HTMLInputElement).type !== 'hidden';
+  return ['BUTTON', 'SELECT', 'TEXTAREA', 'SUMMARY', 'IFRAME'].includes(tagName) || (element as HTMLElement).isContentEditable;
+}
+
+function isFormField(element: Element): boolean {
+  const tagName = elementSafeTagName(element);
+  if (tagName === 'INPUT')
+    return !kUnlabeledInputTypes.has((element as HTMLInputElement).type);
+  return tagName === 'SELECT' || tagName === 'TEXTAREA';
+}
+
+function elementRef(element: Element): string | undefined {
+  return ((element as any)._ariaRef as AriaRef | undefined)?.ref;
+}
+
+function allElements(root: Document | ShadowRoot): Element[] {
+  const result: Element[] = [];
+  const visit = (parent: Document | ShadowRoot | Element) => {
+    for (const child of parent.children) {
+      result.push(child);
+      if (child.shadowRoot)
+        visit(child.shadowRoot);
+      visit(child);
+    }
+  };
+  visit(root);
+  return result;
+}
@@ -28,7 +28,7 @@ export type AriaSnapshot = {
   iframeRefs: string[];
 };
 
-type AriaRef = {
+export type AriaRef = {
   role: string;
   name: string;
   ref: string;
@@ -40,6 +40,38 @@ export type AriaTreeOptions = {
   mode: 'ai' | 'expect' | 'codegen' | 'autoexpect';
   refPrefix?: string;
   doNotRenderActive?: boolean;
+  scope?: AriaTreeScope;
+};
+
+// Narrows down the rendered tree, the omitted nodes are replaced with `[+N more rows, ref=eX]` placeholders.
+export type AriaTreeScope = {
+  // Only render the subtree of the node with this ref.
+  rootRef?: string;
+  // Maximum depth of the rendered tree.
+  depth?: number;
+  // Maximum number of the rendered nodes.
+  maxNodes?: number;
+  // Ref for the placeholders of the top-level nodes, for example the ref of the iframe.
+  parentRef?: string;
+};
+
+// Finds the nodes of the tree instead of rendering all of it, matches are returned as the rendered snapshot lines.
+export type AriaTreeQuery = {
+  role?: string;
+  // Case-insensitive text to search for in the name and text of the node.
+  text?: string;
+  // Regular expression to match against the name and text of the node.
+  regex?: string;
+};
+
+// Either a matching node or an iframe to search in, in the document order.
+export type AriaTreeQueryEntry = {
+  line: string;
+  // Rendered keys of the ancestors, the outermost first.
+  ancestors: string[];
+} | {
+  iframeRef: string;
+  ancestors: string[];
 };
 
 type InternalOptions = {
@@ -563,14 +595,20 @@ function filterSnapshotDiff(nodes: (aria.AriaNode | string)[], statusMap: Map<ar
   return result;
 }
 
-export function renderAriaTree(ariaSnapshot: AriaSnapshot, publicOptions: AriaTreeOptions, previousSnapshot?: AriaSnapshot): string {
+export function renderAriaTree(ariaSnapshot: AriaSnapshot, publicOptions: AriaTreeOptions, previousSnapshot?: AriaSnapshot, iframeScopes?: Map<string, AriaTreeScope>): string {
   const options = toInternalOptions(publicOptions);
+  const scope = publicOptions.scope;
   const lines: string[] = [];
   const includeText = options.renderStringsAsRegex ? textContributesInfo : () => true;
   const renderString = options.renderStringsAsRegex ? convertToBestGuessRegex : (str: string) => str;
+  let budget = scope?.maxNodes ?? Infinity;
 
   // Do not render the root fragment, just its children.
   let nodesToRender = ariaSnapshot.root.role === 'fragment' ? ariaSnapshot.root.children : [ariaSnapshot.root];
+  if (scope?.rootRef) {
+    const rootNode = buildByRefMap(ariaSnapshot.root).get(scope.rootRef);
+    nodesToRender = rootNode ? [rootNode] : [];
+  }
 
   const statusMap = compareSnapshots(ariaSnapshot, previousSnapshot);
   if (previousSnapshot)
@@ -582,48 +620,33 @@ export function renderAriaTree(ariaSnapshot: AriaSnapshot, publicOptions: AriaTr
       lines.push(indent + '- text: ' + escaped);
   };
 
-  const createKey = (ariaNode: aria.AriaNode, renderCursorPointer: boolean): string => {
-    let key = ariaNode.role;
-    // Yaml has a limit of 1024 characters per key, and we leave some space for role and attributes.
-    if (ariaNode.name && ariaNode.name.length <= 900) {
-      const name = renderString(ariaNode.name);
-      if (name) {
-        const stringifiedName = name.startsWith('/') && name.endsWith('/') ? name : JSON.stringify(name);
-        key += ' ' + stringifiedName;
-      }
+  const visitChildren = (children: (aria.AriaNode | string)[], indent: string, level: number, parentRef: string | undefined, visitChild: (child: aria.AriaNode | string) => void) => {
+    if (!children.length)
+      return;
+    if (scope?.depth !== undefined && level > scope.depth) {
+      lines.push(indent + renderPlaceholder(children, parentRef));
+      return;
     }
-    if (ariaNode.checked === 'mixed')
-      key += ` [checked=mixed]`;
-    if (ariaNode.checked === true)
-      key += ` [checked]`;
-    if (ariaNode.disabled)
-      key += ` [disabled]`;
-    if (ariaNode.expanded)
-      key += ` [expanded]`;
-    if (ariaNode.active && options.renderActive)
-      key += ` [active]`;
-    if (ariaNode.level)
-      key += ` [level=${ariaNode.level}]`;
-    if (ariaNode.pressed === 'mixed')
-      key += ` [pressed=mixed]`;
-    if (ariaNode.pressed === true)
-      key += ` [pressed]`;
-    if (ariaNode.selected === true)
-      key += ` [selected]`;
-
-    if (ariaNode.ref) {
-      key += ` [ref=${ariaNode.ref}]`;
-      if (renderCursorPointer && aria.hasPointerCursor(ariaNode))
-        key += ' [cursor=pointer]';
+    for (let i = 0; i < children.length; i++) {
+      if (budget <= 0) {
+        lines.push(indent + renderPlaceholder(children.slice(i), parentRef));
+        return;
+      }
+      --budget;
+      visitChild(children[i]);
     }
-    return key;
   };
 
-  const getSingleInlinedTextChild = (ariaNode: aria.AriaNode | undefined): string | undefined => {
-    return ariaNode?.children.length === 1 && typeof ariaNode.children[0] === 'string' && !Object.keys(ariaNode.props).length ? ariaNode.children[0] : undefined;
-  };
+  const visit = (ariaNode: aria.AriaNode, indent: string, level: number, parentRef: string | undefined, renderCursorPointer: boolean) => {
+    // Frame content is rendered separately, pass the rest of the scope to it.
+    if (scope && ariaNode.role === 'iframe' && ariaNode.ref) {
+      iframeScopes?.set(ariaNode.ref, {
+        depth: scope.depth !== undefined ? scope.depth - level : undefined,
+        maxNodes: budget === Infinity ? undefined : budget,
+        parentRef: ariaNode.ref,
+      });
+    }
 
-  const visit = (ariaNode: aria.AriaNode, indent: string, renderCursorPointer: boolean) => {
     // Replace the whole subtree with a single reference when possible.
     if (statusMap.get(ariaNode) === 'same' && ariaNode.ref) {
       lines.push(indent + `- ref=${ariaNode.ref} [unchanged]`);
@@ -632,7 +655,7 @@ export function renderAriaTree(ariaSnapshot: AriaSnapshot, publicOptions: AriaTr
 
     // When producing a diff, add <changed> marker to all diff roots.
     const isDiffRoot = !!previousSnapshot && !indent;
-    const escapedKey = indent + '- ' + (isDiffRoot ? '<changed> ' : '') + yamlEscapeKeyIfNeeded(createKey(ariaNode, renderCursorPointer));
+    const escapedKey = indent + '- ' + (isDiffRoot ? '<changed> ' : '') + yamlEscapeKeyIfNeeded(renderAriaNodeKey(ariaNode, options, renderCursorPointer));
     const singleInlinedTextChild = getSingleInlinedTextChild(ariaNode);
 
     if (!ariaNode.children.length && !Object.keys(ariaNode.props).length) {
@@ -653,24 +676,115 @@ export function renderAriaTree(ariaSnapshot: AriaSnapshot, publicOptions: AriaTr
 
       const childIndent = indent + '  ';
       const inCursorPointer = !!ariaNode.ref && renderCursorPointer && aria.hasPointerCursor(ariaNode);
-      for (const child of ariaNode.children) {
+      visitChildren(ariaNode.children, childIndent, level + 1, ariaNode.ref ?? parentRef, child => {
         if (typeof child === 'string')
           visitText(includeText(ariaNode, child) ? child : '', childIndent);
         else
-          visit(child, childIndent, renderCursorPointer && !inCursorPointer);
-      }
+          visit(child, childIndent, level + 1, ariaNode.ref ?? parentRef, renderCursorPointer && !inCursorPointer);
+      });
     }
   };
 
-  for (const nodeToRender of nodesToRender) {
+  visitChildren(nodesToRender, '', 1, scope?.parentRef, nodeToRender => {
     if (typeof nodeToRender === 'string')
       visitText(nodeToRender, '');
     else
-      visit(nodeToRender, '', !!options.renderCursorPointer);
-  }
+      visit(nodeToRender, '', 1, scope?.parentRef, !!options.renderCursorPointer);
+  });
   return lines.join('\n');
 }
 
+export function queryAriaTree(ariaSnapshot: AriaSnapshot, publicOptions: AriaTreeOptions, query: AriaTreeQuery): AriaTreeQueryEntry[] {
+  const options = toInternalOptions(publicOptions);
+  const text = query.text?.toLowerCase();
+  const regex = query.regex !== undefined ? new RegExp(query.regex) : undefined;
+  const matchesText = (value: string) => (!text || value.toLowerCase().includes(text)) && (!regex || regex.test(value));
+  const entries: AriaTreeQueryEntry[] = [];
+
+  const visit = (ariaNode: aria.AriaNode, ancestors: string[], renderCursorPointer: boolean) => {
+    const escapedKey = yamlEscapeKeyIfNeeded(renderAriaNodeKey(ariaNode, options, renderCursorPointer));
+    const singleInlinedTextChild = getSingleInlinedTextChild(ariaNode);
+    const nameAndText = [ariaNode.name, singleInlinedTextChild].filter(Boolean).join(' ');
+    if ((!query.role || ariaNode.role === query.role) && matchesText(nameAndText)) {
+      const inlinedText = singleInlinedTextChild !== undefined ? ': ' + yamlEscapeValueIfNeeded(singleInlinedTextChild) : '';
+      entries.push({ line: '- ' + escapedKey + inlinedText, ancestors });
+    }
+
+    const childAncestors = [...ancestors, escapedKey];
+    // Frame content is searched separately.
+    if (ariaNode.role === 'iframe' && ariaNode.ref)
+      entries.push({ iframeRef: ariaNode.ref, ancestors: childAncestors });
+    if (singleInlinedTextChild !== undefined)
+      return;
+
+    const inCursorPointer = !!ariaNode.ref && renderCursorPointer && aria.hasPointerCursor(ariaNode);
+    for (const child of ariaNode.children)
+      visitChild(child, childAncestors, renderCursorPointer && !inCursorPointer);
+  };
+
+  const visitChild = (child: aria.AriaNode | string, ancestors: string[], renderCursorPointer: boolean) => {
+    if (typeof child !== 'string')
+      visit(child, ancestors, renderCursorPointer);
+    else if ((!query.role || query.role === 'text') && matchesText(child))
+      entries.push({ line: '- text: ' + yamlEscapeValueIfNeeded(child), ancestors });
+  };
+
+  // Do not match the root fragment, just its children.
+  const roots = ariaSnapshot.root.role === 'fragment' ? ariaSnapshot.root.children : [ariaSnapshot.root];
+  for (const root of roots)
+    visitChild(root, [], !!options.renderCursorPointer);
+  return entries;
+}
+
+function renderAriaNodeKey(ariaNode: aria.AriaNode, options: InternalOptions, renderCursorPointer: boolean): string {
+  const renderString = options.renderStringsAsRegex ? convertToBestGuessRegex : (str: string) => str;
+  let key = ariaNode.role;
+  // Yaml has a limit of 1024 characters per key, and we leave some space for role and attributes.
+  if (ariaNode.name && ariaNode.name.length <= 900) {
+    const name = renderString(ariaNode.name);
+    if (name) {
+      const stringifiedName = name.startsWith('/') && name.endsWith('/') ? name : JSON.stringify(name);
+      key += ' ' + stringifiedName;
+    }
+  }
+  if (ariaNode.checked === 'mixed')
+    key += ` [checked=mixed]`;
+  if (ariaNode.checked === true)
+    key += ` [checked]`;
+  if (ariaNode.disabled)
+    key += ` [disabled]`;
+  if (ariaNode.expanded)
+    key += ` [expanded]`;
+  if (ariaNode.active && options.renderActive)
+    key += ` [active]`;
+  if (ariaNode.level)
+    key += ` [level=${ariaNode.level}]`;
+  if (ariaNode.pressed === 'mixed')
+    key += ` [pressed=mixed]`;
+  if (ariaNode.pressed === true)
+    key += ` [pressed]`;
+  if (ariaNode.selected === true)
+    key += ` [selected]`;
+
+  if (ariaNode.ref) {
+    key += ` [ref=${ariaNode.ref}]`;
+    if (renderCursorPointer && aria.hasPointerCursor(ariaNode))
+      key += ' [cursor=pointer]';
+  }
+  return key;
+}
+
+function getSingleInlinedTextChild(ariaNode: aria.AriaNode | undefined): string | undefined {
+  return ariaNode?.children.length === 1 && typeof ariaNode.children[0] === 'string' && !Object.keys(ariaNode.props).length ? ariaNode.children[0] : undefined;
+}
+
+function renderPlaceholder(nodes: (aria.AriaNode | string)[], ref: string | undefined): string {
+  const roles = new Set(nodes.map(node => typeof node === 'string' ? 'text' : node.role));
+  const role = roles.size === 1 ? [...roles][0] : undefined;
+  const noun = role ? role + (nodes.length === 1 ? '' : 's') : (nodes.length === 1 ? 'item' : 'items');
+  return `- [+${nodes.length} more ${noun}${ref ? `, ref=${ref}` : ''}]`;
+}
+
 function convertToBestGuessRegex(text: string): string {
   const dynamicContent = [
     // 2mb
@@ -19,7 +19,8 @@ import { asLocator } from '@isomorphic/locatorGenerators';
 import { parseAttributeSelector, parseSelector, stringifySelector, visitAllSelectorParts } from '@isomorphic/selectorParser';
 import { cacheNormalizedWhitespaces, normalizeWhiteSpace, trimStringWithEllipsis } from '@isomorphic/stringUtils';
 
-import { generateAriaTree, getAllElementsMatchingExpectAriaTemplate, matchesExpectAriaTemplate, renderAriaTree, findNewElement } from './ariaSnapshot';
+import { auditAccessibility, focusedElement, tabbableElementCount } from './a11yAudit';
+import { generateAriaTree, getAllElementsMatchingExpectAriaTemplate, matchesExpectAriaTemplate, queryAriaTree, renderAriaTree, findNewElement } from './ariaSnapshot';
 import { beginDOMCaches, enclosingShadowRootOrDocument, endDOMCaches, isElementVisible, isInsideScope, parentElementOrShadowHost, setGlobalOptions } from './domUtils';
 import { Highlight } from './highlight';
 import { kLayoutSelectorNames, layoutSelectorScore } from './layoutSelectorUtils';
@@ -37,7 +38,8 @@ import type { CSSComplexSelectorList } from '@isomorphic/cssParser';
 import type { Language } from '@isomorphic/locatorGenerators';
 import type { NestedSelectorBody, ParsedSelector, ParsedSelectorPart } from '@isomorphic/selectorParser';
 import type * as channels from '@protocol/channels';
-import type { AriaSnapshot, AriaTreeOptions } from './ariaSnapshot';
+import type { A11yIssue, FocusedElement } from './a11yAudit';
+import type { AriaSnapshot, AriaTreeOptions, AriaTreeQuery, AriaTreeQueryEntry, AriaTreeScope } from './ariaSnapshot';
 import type { LayoutSelectorName } from './layoutSelectorUtils';
 import type { SelectorEngine, SelectorRoot } from './selectorEngine';
 import type { GenerateSelectorOptions } from './selectorGenerator';
@@ -306,11 +308,12 @@ export class InjectedScript {
     return this.incrementalAriaSnapshot(node, options).full;
   }
 
-  incrementalAriaSnapshot(node: Node, options: AriaTreeOptions & { track?: string }): { full: string, incremental?: string, iframeRefs: string[] } {
+  incrementalAriaSnapshot(node: Node, options: AriaTreeOptions & { track?: string }): { full: string, incremental?: string, iframeRefs: string[], iframeScopes?: Record<string, AriaTreeScope> } {
     if (node.nodeType !== Node.ELEMENT_NODE)
       throw this.createStacklessError('Can only capture aria snapshot of Element nodes.');
     const ariaSnapshot = generateAriaTree(node as Element, options);
-    const full = renderAriaTree(ariaSnapshot, options);
+    const iframeScopes = new Map<string, AriaTreeScope>();
+    const full = renderAriaTree(ariaSnapshot, options, undefined, iframeScopes);
     let incremental: string | undefined;
     if (options.track) {
       const previousSnapshot = this._lastAriaSnapshotForTrack.get(options.track);
@@ -319,9 +322,34 @@ export class InjectedScript {
       this._lastAriaSnapshotForTrack.set(options.track, ariaSnapshot);
     }
     this._lastAriaSnapshotForQuery = ariaSnapshot;
+    if (options.scope) {
+      // Only the iframes within the scope are rendered.
+      return { full, incremental, iframeRefs: [...iframeScopes.keys()], iframeScopes: Object.fromEntries(iframeScopes) };
+    }
     return { full, incremental, iframeRefs: ariaSnapshot.iframeRefs };
   }
 
+  queryAriaSnapshot(node: Node, options: AriaTreeOptions, query: AriaTreeQuery): AriaTreeQueryEntry[] {
+    if (node.nodeType !== Node.ELEMENT_NODE)
+      throw this.createStacklessError('Can only query aria snapshot of Element nodes.');
+    const ariaSnapshot = generateAriaTree(node as Element, options);
+    // Refs of the matches are resolved against this snapshot.
+    this._lastAriaSnapshotForQuery = ariaSnapshot;
+    return queryAriaTree(ariaSnapshot, options, query);
+  }
+
+  auditAccessibility(): A11yIssue[] {
+    return auditAccessibility(this.document);
+  }
+
+  focusedElement(): FocusedElement | undefined {
+    return focusedElement(this.document);
+  }
+
+  tabbableElementCount(): number {
+    return tabbableElementCount(this.document);
+  }
+
   ariaSnapshotForRecorder(): { ariaSnapshot: string, refs: Map<Element, string> } {
     const tree = generateAriaTree(this.document.body, { mode: 'ai' });
     const ariaSnapshot = renderAriaTree(tree, { mode: 'ai' });
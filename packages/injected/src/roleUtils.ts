@@ -267,6 +267,10 @@ const validRoles: AriaRole[] = ['alert', 'alertdialog', 'application', 'article'
   'spinbutton', 'status', 'strong', 'subscript', 'superscript', 'switch', 'tab', 'table', 'tablist', 'tabpanel', 'term', 'textbox', 'time', 'timer',
   'toolbar', 'tooltip', 'tree', 'treegrid', 'treeitem'];
 
+export function isValidAriaRole(role: string): boolean {
+  return validRoles.includes(role as AriaRole);
+}
+
 function getExplicitAriaRole(element: Element): AriaRole | null {
   // https://www.w3.org/TR/wai-aria-1.2/#document-handling_author-errors_roles
   const roles = (element.getAttribute('role') || '').split(' ').map(role => role.trim());
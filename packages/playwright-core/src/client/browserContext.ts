@@ -375,7 +375,7 @@ export class BrowserContext extends ChannelOwner<channels.BrowserContextChannel>
     await this._updateWebSocketInterceptionPatterns({ title: 'Route WebSockets' });
   }
 
-  async _recordIntoHAR(har: string, page: Page | null, options: { url?: string | RegExp, updateContent?: 'attach' | 'embed' | 'omit', updateMode?: 'minimal' | 'full'} = {}): Promise<void> {
+  async _recordIntoHAR(har: string, page: Page | null, options: { url?: string | RegExp, updateContent?: 'attach' | 'embed' | 'omit', updateMode?: 'minimal' | 'full'} = {}): Promise<string> {
     const { harId } = await this._channel.harStart({
       page: page?._channel,
       options: {
@@ -388,6 +388,29 @@ export class BrowserContext extends ChannelOwner<channels.BrowserContextChannel>
       },
     });
     this._harRecorders.set(harId, { path: har, content: options.updateContent ?? 'attach' });
+    return harId;
+  }
+
+  async _exportHAR(harId: string): Promise<void> {
+    const harParams = this._harRecorders.get(harId);
+    if (!harParams)
+      return;
+    this._harRecorders.delete(harId);
+    const har = await this._channel.harExport({ harId });
+    const artifact = Artifact.from(har.artifact);
+    // Server side will compress artifact if content is attach or if file is .zip.
+    const isCompressed = harParams.content === 'attach' || harParams.path.endsWith('.zip');
+    const needCompressed = harParams.path.endsWith('.zip');
+    if (isCompressed && !needCompressed) {
+      const localUtils = this._connection.localUtils();
+      if (!localUtils)
+        throw new Error('Uncompressed har is not supported in thin clients');
+      await artifact.saveAs(harParams.path + '.tmp');
+      await localUtils.harUnzip({ zipFile: harParams.path + '.tmp', harFile: harParams.path });
+    } else {
+      await artifact.saveAs(harParams.path);
+    }
+    await artifact.delete();
   }
 
   async routeFromHAR(har: string, options: { url?: string | RegExp, notFound?: 'abort' | 'fallback', update?: boolean, updateContent?: 'attach' | 'embed', updateMode?: 'minimal' | 'full' } = {}): Promise<void> {
@@ -514,23 +537,8 @@ export class BrowserContext extends ChannelOwner<channels.BrowserContextChannel>
     await this.request.dispose(options);
     await this._instrumentation.runBeforeCloseBrowserContext(this);
     await this._wrapApiCall(async () => {
-      for (const [harId, harParams] of this._harRecorders) {
-        const har = await this._channel.harExport({ harId });
-        const artifact = Artifact.from(har.artifact);
-        // Server side will compress artifact if content is attach or if file is .zip.
-        const isCompressed = harParams.content === 'attach' || harParams.path.endsWith('.zip');
-        const needCompressed = harParams.path.endsWith('.zip');
-        if (isCompressed && !needCompressed) {
-          const localUtils = this._connection.localUtils();
-          if (!localUtils)
-            throw new Error('Uncompressed har is not supported in thin clients');
-          await artifact.saveAs(harParams.path + '.tmp');
-          await localUtils.harUnzip({ zipFile: harParams.path + '.tmp', harFile: harParams.path });
-        } else {
-          await artifact.saveAs(harParams.path);
-        }
-        await artifact.delete();
-      }
+      for (const harId of [...this._harRecorders.keys()])
+        await this._exportHAR(harId);
     }, { internal: true });
     await this._channel.close(options);
     await this._closedPromise;
@@ -262,6 +262,10 @@ export class Locator implements api.Locator {
     return await this._frame._channel.resolveSelector({ selector: this._selector });
   }
 
+  async _inspectElement(): Promise<{ role?: string, name: string, description: string, selectors: string[] }> {
+    return await this._frame._channel.inspectElement({ selector: this._selector });
+  }
+
   async getAttribute(name: string, options?: TimeoutOptions): Promise<string | null> {
     return await this._frame.getAttribute(this._selector, name, { strict: true, ...options });
   }
@@ -868,8 +868,22 @@ export class Page extends ChannelOwner<channels.PageChannel> implements api.Page
     return pageAgent;
   }
 
-  async _snapshotForAI(options: TimeoutOptions & { track?: string } = {}): Promise<{ full: string, incremental?: string }> {
-    return await this._channel.snapshotForAI({ timeout: this._timeoutSettings.timeout(options), track: options.track });
+  async _snapshotForAI(options: TimeoutOptions & { track?: string, ref?: string, depth?: number, maxNodes?: number } = {}): Promise<{ full: string, incremental?: string }> {
+    return await this._channel.snapshotForAI({ timeout: this._timeoutSettings.timeout(options), track: options.track, ref: options.ref, depth: options.depth, maxNodes: options.maxNodes });
+  }
+
+  async _findForAI(query: { role?: string, text?: string, regex?: string }, options: TimeoutOptions = {}): Promise<{ line: string, ancestors: string[] }[]> {
+    const { matches } = await this._channel.findForAI({ timeout: this._timeoutSettings.timeout(options), ...query });
+    return matches;
+  }
+
+  async _auditAccessibility(options: TimeoutOptions & { focusTraps?: boolean } = {}): Promise<{ rule: string, message: string, ref?: string }[]> {
+    const { issues } = await this._channel.auditAccessibility({ timeout: this._timeoutSettings.timeout(options), focusTraps: options.focusTraps });
+    return issues;
+  }
+
+  async _tabOrderForAI(options: TimeoutOptions & { limit?: number } = {}): Promise<channels.PageTabOrderForAIResult> {
+    return await this._channel.tabOrderForAI({ timeout: this._timeoutSettings.timeout(options), limit: options.limit });
   }
 }
 
@@ -28,6 +28,12 @@ const StreamableHTTPServerTransport: typeof import('@modelcontextprotocol/sdk/se
 const StreamableHTTPClientTransport: typeof import('@modelcontextprotocol/sdk/client/streamableHttp.js').StreamableHTTPClientTransport = bundle.StreamableHTTPClientTransport;
 const CallToolRequestSchema: typeof import('@modelcontextprotocol/sdk/types.js').CallToolRequestSchema = bundle.CallToolRequestSchema;
 const ListRootsRequestSchema: typeof import('@modelcontextprotocol/sdk/types.js').ListRootsRequestSchema = bundle.ListRootsRequestSchema;
+const GetPromptRequestSchema: typeof import('@modelcontextprotocol/sdk/types.js').GetPromptRequestSchema = bundle.GetPromptRequestSchema;
+const ListPromptsRequestSchema: typeof import('@modelcontextprotocol/sdk/types.js').ListPromptsRequestSchema = bundle.ListPromptsRequestSchema;
+const ListResourcesRequestSchema: typeof import('@modelcontextprotocol/sdk/types.js').ListResourcesRequestSchema = bundle.ListResourcesRequestSchema;
+const ReadResourceRequestSchema: typeof import('@modelcontextprotocol/sdk/types.js').ReadResourceRequestSchema = bundle.ReadResourceRequestSchema;
+const SubscribeRequestSchema: typeof import('@modelcontextprotocol/sdk/types.js').SubscribeRequestSchema = bundle.SubscribeRequestSchema;
+const UnsubscribeRequestSchema: typeof import('@modelcontextprotocol/sdk/types.js').UnsubscribeRequestSchema = bundle.UnsubscribeRequestSchema;
 const ProgressNotificationSchema: typeof import('@modelcontextprotocol/sdk/types.js').ProgressNotificationSchema = bundle.ProgressNotificationSchema;
 const ListToolsRequestSchema: typeof import('@modelcontextprotocol/sdk/types.js').ListToolsRequestSchema = bundle.ListToolsRequestSchema;
 const PingRequestSchema: typeof import('@modelcontextprotocol/sdk/types.js').PingRequestSchema = bundle.PingRequestSchema;
@@ -49,6 +55,12 @@ export {
   ListToolsRequestSchema,
   PingRequestSchema,
   ProgressNotificationSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   Loop,
   z,
 };
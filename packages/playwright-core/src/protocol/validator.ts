@@ -1444,12 +1444,53 @@ scheme.PageRequestsResult = tObject({
 });
 scheme.PageSnapshotForAIParams = tObject({
   track: tOptional(tString),
+  ref: tOptional(tString),
+  depth: tOptional(tInt),
+  maxNodes: tOptional(tInt),
   timeout: tFloat,
 });
 scheme.PageSnapshotForAIResult = tObject({
   full: tString,
   incremental: tOptional(tString),
 });
+scheme.PageFindForAIParams = tObject({
+  role: tOptional(tString),
+  text: tOptional(tString),
+  regex: tOptional(tString),
+  timeout: tFloat,
+});
+scheme.PageFindForAIResult = tObject({
+  matches: tArray(tObject({
+    line: tString,
+    ancestors: tArray(tString),
+  })),
+});
+scheme.PageAuditAccessibilityParams = tObject({
+  focusTraps: tOptional(tBoolean),
+  timeout: tFloat,
+});
+scheme.PageAuditAccessibilityResult = tObject({
+  issues: tArray(tObject({
+    rule: tString,
+    message: tString,
+    ref: tOptional(tString),
+  })),
+});
+scheme.PageTabOrderForAIParams = tObject({
+  limit: tOptional(tInt),
+  timeout: tFloat,
+});
+scheme.PageTabOrderForAIResult = tObject({
+  elements: tArray(tObject({
+    ref: tOptional(tString),
+    role: tOptional(tString),
+    name: tString,
+    tagName: tString,
+    visible: tBoolean,
+  })),
+  cycleStart: tOptional(tInt),
+  leftPage: tBoolean,
+});
 scheme.PageStartJSCoverageParams = tObject({
   resetOnNavigation: tOptional(tBoolean),
   reportAnonymousScripts: tOptional(tBoolean),
@@ -1688,6 +1729,15 @@ scheme.FrameResolveSelectorParams = tObject({
 scheme.FrameResolveSelectorResult = tObject({
   resolvedSelector: tString,
 });
+scheme.FrameInspectElementParams = tObject({
+  selector: tString,
+});
+scheme.FrameInspectElementResult = tObject({
+  role: tOptional(tString),
+  name: tString,
+  description: tString,
+  selectors: tArray(tString),
+});
 scheme.FrameHighlightParams = tObject({
   selector: tString,
 });
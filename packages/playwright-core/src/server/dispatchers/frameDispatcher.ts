@@ -182,6 +182,10 @@ export class FrameDispatcher extends Dispatcher<Frame, channels.FrameChannel, Br
     return await this._frame.resolveSelector(progress, params.selector);
   }
 
+  async inspectElement(params: channels.FrameInspectElementParams, progress: Progress): Promise<channels.FrameInspectElementResult> {
+    return await this._frame.inspectElement(progress, params.selector);
+  }
+
   async getAttribute(params: channels.FrameGetAttributeParams, progress: Progress): Promise<channels.FrameGetAttributeResult> {
     const value = await this._frame.getAttribute(progress, params.selector, params.name, params);
     return { value: value === null ? undefined : value };
@@ -333,6 +333,20 @@ export class PageDispatcher extends Dispatcher<Page, channels.PageChannel, Brows
     return await this._page.snapshotForAI(progress, params);
   }
 
+  async findForAI(params: channels.PageFindForAIParams, progress: Progress): Promise<channels.PageFindForAIResult> {
+    return { matches: await this._page.findForAI(progress, { role: params.role, text: params.text, regex: params.regex }) };
+  }
+
+  async auditAccessibility(params: channels.PageAuditAccessibilityParams, progress: Progress): Promise<channels.PageAuditAccessibilityResult> {
+    return await this._page.auditAccessibility(progress, { focusTraps: params.focusTraps });
+  }
+
+  async tabOrderForAI(params: channels.PageTabOrderForAIParams, progress: Progress): Promise<channels.PageTabOrderForAIResult> {
+    const { visited, cycleStart, leftPage } = await this._page.tabOrderForAI(progress, { limit: params.limit });
+    const elements = visited.map(({ ref, role, name, tagName, visible }) => ({ ref, role, name, tagName, visible }));
+    return { elements, cycleStart, leftPage };
+  }
+
   async bringToFront(params: channels.PageBringToFrontParams, progress: Progress): Promise<void> {
     await progress.race(this._page.bringToFront());
   }
@@ -1225,8 +1225,35 @@ export class Frame extends SdkObject<FrameEventMap> {
     if (!generated)
       throw new Error(`Unable to generate locator for ${selector}`);
 
+    const frameSelector = await this._frameChainSelector(progress, element, selector);
+    return { resolvedSelector: frameSelector + generated };
+  }
+
+  async inspectElement(progress: Progress, selector: string): Promise<{ role?: string, name: string, description: string, selectors: string[] }> {
+    const element = await progress.race(this.selectors.query(selector));
+    if (!element)
+      throw new Error(`No element matching ${selector}`);
+
+    const testIdAttributeName = this._page.browserContext.selectors().testIdAttributeName();
+    const result = await progress.race(element.evaluateInUtility(async ([injected, node, testIdAttributeName]) => {
+      const element = node as unknown as Element;
+      return {
+        role: injected.utils.getAriaRole(element) || undefined,
+        name: injected.utils.getElementAccessibleName(element, false),
+        description: injected.utils.getElementAccessibleDescription(element, false),
+        selectors: injected.generateSelector(element, { testIdAttributeName, multiple: true }).selectors,
+      };
+    }, testIdAttributeName));
+    if (result === 'error:notconnected')
+      throw new Error(`Element matching ${selector} is not attached to the DOM`);
+
+    const frameSelector = await this._frameChainSelector(progress, element, selector);
+    return { ...result, selectors: result.selectors.map(generated => frameSelector + generated) };
+  }
+
+  private async _frameChainSelector(progress: Progress, element: dom.ElementHandle, selector: string): Promise<string> {
     let frame: Frame | null = element._frame;
-    const result = [generated];
+    const result: string[] = [];
     while (frame?.parentFrame()) {
       const frameElement = await progress.race(frame.frameElement());
       if (frameElement) {
@@ -1240,8 +1267,7 @@ export class Frame extends SdkObject<FrameEventMap> {
       }
       frame = frame.parentFrame();
     }
-    const resolvedSelector = result.reverse().join(' >> internal:control=enter-frame >> ');
-    return { resolvedSelector };
+    return result.reverse().map(generated => generated + ' >> internal:control=enter-frame >> ').join('');
   }
 
   async textContent(progress: Progress, selector: string, options: types.QueryOnSelectorOptions, scope?: dom.ElementHandle): Promise<string | null> {
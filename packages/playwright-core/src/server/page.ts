@@ -46,6 +46,8 @@ import type { ScreenshotOptions } from './screenshotter';
 import type * as types from './types';
 import type { ImageComparatorOptions } from './utils/comparators';
 import type * as channels from '@protocol/channels';
+import type { A11yIssue, FocusedElement } from '@injected/a11yAudit';
+import type { AriaTreeQuery, AriaTreeScope } from '@injected/ariaSnapshot';
 import type { BindingPayload } from '@injected/bindingsController';
 
 export interface PageDelegate {
@@ -863,10 +865,55 @@ export class Page extends SdkObject<PageEventMap> {
     await Promise.all(this.frames().map(frame => frame.hideHighlight().catch(() => {})));
   }
 
-  async snapshotForAI(progress: Progress, options: { track?: string, doNotRenderActive?: boolean } = {}): Promise<{ full: string, incremental?: string }> {
-    const snapshot = await snapshotFrameForAI(progress, this.mainFrame(), options);
+  async snapshotForAI(progress: Progress, options: { track?: string, doNotRenderActive?: boolean, ref?: string, depth?: number, maxNodes?: number } = {}): Promise<{ full: string, incremental?: string }> {
+    let frame: frames.Frame | undefined = this.mainFrame();
+    let scope: AriaTreeScope | undefined;
+    if (options.ref !== undefined || options.depth !== undefined || options.maxNodes !== undefined) {
+      scope = { rootRef: options.ref, depth: options.depth, maxNodes: options.maxNodes };
+      // Refs of the elements inside iframes are prefixed with the frame sequence number.
+      const frameSeq = options.ref?.match(/^f(\d+)e\d+$/)?.[1];
+      if (frameSeq)
+        frame = this.frames().find(frame => frame.seq === +frameSeq);
+    }
+    if (!frame)
+      return { full: '' };
+    const snapshot = await snapshotFrameForAI(progress, frame, { track: options.track, doNotRenderActive: options.doNotRenderActive }, scope);
     return { full: snapshot.full.join('\n'), incremental: snapshot.incremental?.join('\n') };
   }
+
+  async findForAI(progress: Progress, query: AriaTreeQuery): Promise<{ line: string, ancestors: string[] }[]> {
+    return await findInFrameForAI(progress, this.mainFrame(), query);
+  }
+
+  async auditAccessibility(progress: Progress, options: { focusTraps?: boolean } = {}): Promise<{ issues: A11yIssue[] }> {
+    const issues: A11yIssue[] = [];
+    for (const frame of this.frames()) {
+      if (frame.isDetached())
+        continue;
+      const context = await progress.race(frame._utilityContext());
+      const injectedScript = await progress.race(context.injectedScript());
+      issues.push(...await progress.race(injectedScript.evaluate(injected => injected.auditAccessibility())));
+    }
+
+    if (!options.focusTraps)
+      return { issues };
+    const { visited, cycleStart, tabbableCount } = await walkFocusForAI(progress, this);
+    if (cycleStart !== undefined) {
+      const cycle = visited.slice(cycleStart);
+      if (cycle.length < tabbableCount && !cycle.every(element => element.inModal)) {
+        const elements = cycle.map(element => {
+          const description = element.role ? (element.name ? `${element.role} "${element.name}"` : element.role) : `<${element.tagName}>`;
+          return element.ref ? `${description} [ref=${element.ref}]` : description;
+        });
+        issues.push({ rule: 'focus-trap', message: `Keyboard focus is trapped in a cycle of ${cycle.length} out of ${tabbableCount} focusable elements: ${elements.join(', ')}.`, ref: cycle[0].ref });
+      }
+    }
+    return { issues };
+  }
+
+  async tabOrderForAI(progress: Progress, options: { limit?: number } = {}): Promise<FocusWalk> {
+    return await walkFocusForAI(progress, this, options.limit);
+  }
 }
 
 export const WorkerEvent = {
@@ -986,7 +1033,58 @@ export class InitScript {
 }
 
 
-async function snapshotFrameForAI(progress: Progress, frame: frames.Frame, options: { track?: string, doNotRenderActive?: boolean } = {}): Promise<{ full: string[], incremental?: string[] }> {
+type FocusWalk = {
+  visited: FocusedElement[];
+  // Index of the visited element that the focus has cycled back to.
+  cycleStart?: number;
+  leftPage: boolean;
+  tabbableCount: number;
+};
+
+// Presses Tab from the start of the main frame and records the focused elements until
+// focus leaves the page, returns to an element that was already visited or the limit of Tab presses is reached.
+// The element that was focused before the walk gets the focus back afterwards.
+async function walkFocusForAI(progress: Progress, page: Page, limit?: number): Promise<FocusWalk> {
+  const context = await progress.race(page.mainFrame()._utilityContext());
+  const injectedScript = await progress.race(context.injectedScript());
+  const previousFocus = await progress.race(injectedScript.evaluateHandle(injected => injected.document.activeElement));
+  try {
+    const tabbableCount = await progress.race(injectedScript.evaluate(injected => {
+      (injected.document.activeElement as HTMLElement | null)?.blur?.();
+      return injected.tabbableElementCount();
+    }));
+
+    const visited: FocusedElement[] = [];
+    let cycleStart: number | undefined;
+    let leftPage = false;
+    // Focus moving through iframes does not change the focused element of the main frame, allow for extra steps.
+    for (let step = 0; step < (limit ?? tabbableCount * 2 + 1); step++) {
+      await page.keyboard.press(progress, 'Tab');
+      const focused = await progress.race(injectedScript.evaluate(injected => injected.focusedElement()));
+      if (!focused) {
+        leftPage = true;
+        break;
+      }
+      if (focused.isFrame && visited[visited.length - 1]?.id === focused.id)
+        continue;
+      const index = visited.findIndex(element => element.id === focused.id);
+      if (index !== -1) {
+        cycleStart = index;
+        break;
+      }
+      visited.push(focused);
+    }
+    return { visited, cycleStart, leftPage, tabbableCount };
+  } finally {
+    await injectedScript.evaluate((injected, element) => {
+      (injected.document.activeElement as HTMLElement | null)?.blur?.();
+      (element as HTMLElement | null)?.focus?.({ preventScroll: true });
+    }, previousFocus).catch(() => {});
+    previousFocus.dispose();
+  }
+}
+
+async function snapshotFrameForAI(progress: Progress, frame: frames.Frame, options: { track?: string, doNotRenderActive?: boolean } = {}, scope?: AriaTreeScope): Promise<{ full: string[], incremental?: string[] }> {
   // Only await the topmost navigations, inner frames will be empty when racing.
   const snapshot = await frame.retryWithProgressAndTimeouts(progress, [1000, 2000, 4000, 8000], async continuePolling => {
     try {
@@ -997,7 +1095,7 @@ async function snapshotFrameForAI(progress: Progress, frame: frames.Frame, optio
         if (!node)
           return true;
         return injected.incrementalAriaSnapshot(node, { mode: 'ai', ...options });
-      }, { refPrefix: frame.seq ? 'f' + frame.seq : '', track: options.track, doNotRenderActive: options.doNotRenderActive }));
+      }, { refPrefix: frame.seq ? 'f' + frame.seq : '', track: options.track, doNotRenderActive: options.doNotRenderActive, scope }));
       if (snapshotOrRetry === true)
         return continuePolling;
       return snapshotOrRetry;
@@ -1008,7 +1106,7 @@ async function snapshotFrameForAI(progress: Progress, frame: frames.Frame, optio
     }
   });
 
-  const childSnapshotPromises = snapshot.iframeRefs.map(ref => snapshotFrameRefForAI(progress, frame, ref, options));
+  const childSnapshotPromises = snapshot.iframeRefs.map(ref => snapshotFrameRefForAI(progress, frame, ref, options, snapshot.iframeScopes?.[ref]));
   const childSnapshots = await Promise.all(childSnapshotPromises);
 
   const full = [];
@@ -1042,19 +1140,56 @@ async function snapshotFrameForAI(progress: Progress, frame: frames.Frame, optio
   return { full, incremental };
 }
 
-async function snapshotFrameRefForAI(progress: Progress, parentFrame: frames.Frame, frameRef: string, options: { track?: string, mode?: 'full' | 'incremental' }): Promise<{ full: string[], incremental?: string[] }> {
+async function snapshotFrameRefForAI(progress: Progress, parentFrame: frames.Frame, frameRef: string, options: { track?: string, mode?: 'full' | 'incremental' }, scope: AriaTreeScope | undefined): Promise<{ full: string[], incremental?: string[] }> {
   const frameSelector = `aria-ref=${frameRef} >> internal:control=enter-frame`;
   const frameBodySelector = `${frameSelector} >> body`;
   const child = await progress.race(parentFrame.selectors.resolveFrameForSelector(frameBodySelector, { strict: true }));
   if (!child)
     return { full: [] };
   try {
-    return await snapshotFrameForAI(progress, child.frame, options);
+    return await snapshotFrameForAI(progress, child.frame, options, scope);
   } catch {
     return { full: [] };
   }
 }
 
+async function findInFrameForAI(progress: Progress, frame: frames.Frame, query: AriaTreeQuery): Promise<{ line: string, ancestors: string[] }[]> {
+  const entries = await frame.retryWithProgressAndTimeouts(progress, [1000, 2000, 4000, 8000], async continuePolling => {
+    try {
+      const context = await progress.race(frame._utilityContext());
+      const injectedScript = await progress.race(context.injectedScript());
+      const entriesOrRetry = await progress.race(injectedScript.evaluate((injected, { refPrefix, query }) => {
+        const node = injected.document.body;
+        if (!node)
+          return true;
+        return injected.queryAriaSnapshot(node, { mode: 'ai', refPrefix }, query);
+      }, { refPrefix: frame.seq ? 'f' + frame.seq : '', query }));
+      if (entriesOrRetry === true)
+        return continuePolling;
+      return entriesOrRetry;
+    } catch (e) {
+      if (frame.isNonRetriableError(e))
+        throw e;
+      return continuePolling;
+    }
+  });
+
+  const matches: { line: string, ancestors: string[] }[] = [];
+  for (const entry of entries) {
+    if ('line' in entry) {
+      matches.push(entry);
+      continue;
+    }
+    const frameBodySelector = `aria-ref=${entry.iframeRef} >> internal:control=enter-frame >> body`;
+    const child = await progress.race(frame.selectors.resolveFrameForSelector(frameBodySelector, { strict: true }));
+    if (!child)
+      continue;
+    const childMatches = await findInFrameForAI(progress, child.frame, query).catch(() => []);
+    matches.push(...childMatches.map(match => ({ line: match.line, ancestors: [...entry.ancestors, ...match.ancestors] })));
+  }
+  return matches;
+}
+
 function ensureArrayLimit<T>(array: T[], limit: number): T[] {
   if (array.length > limit)
     return array.splice(0, limit / 10);
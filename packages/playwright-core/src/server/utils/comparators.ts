@@ -54,10 +54,36 @@ export function compareBuffersOrStrings(actualBuffer: Buffer | string, expectedB
 function compareImages(mimeType: string, actualBuffer: Buffer | string, expectedBuffer: Buffer, options: ImageComparatorOptions = {}): ComparatorResult {
   if (!actualBuffer || !(actualBuffer instanceof Buffer))
     return { errorMessage: 'Actual result should be a Buffer.' };
+  const { diffPixels, totalPixels, sizesMismatchError, diffImage } = diffImages(mimeType, actualBuffer, expectedBuffer, options);
+
+  const maxDiffPixels1 = options.maxDiffPixels;
+  const maxDiffPixels2 = options.maxDiffPixelRatio !== undefined ? totalPixels * options.maxDiffPixelRatio : undefined;
+  let maxDiffPixels;
+  if (maxDiffPixels1 !== undefined && maxDiffPixels2 !== undefined)
+    maxDiffPixels = Math.min(maxDiffPixels1, maxDiffPixels2);
+  else
+    maxDiffPixels = maxDiffPixels1 ?? maxDiffPixels2 ?? 0;
+  const ratio = Math.ceil(diffPixels / totalPixels * 100) / 100;
+  const pixelsMismatchError = diffPixels > maxDiffPixels ? `${diffPixels} pixels (ratio ${ratio.toFixed(2)} of all image pixels) are different.` : '';
+  if (pixelsMismatchError || sizesMismatchError)
+    return { errorMessage: sizesMismatchError + pixelsMismatchError, diff: diffImage() };
+  return null;
+}
+
+export type ImageDiff = {
+  diffPixels: number;
+  // Number of pixels in the expected image.
+  totalPixels: number;
+  sizesMismatchError: string;
+  diffImage: () => Buffer;
+};
+
+export function diffImages(mimeType: string, actualBuffer: Buffer, expectedBuffer: Buffer, options: Pick<ImageComparatorOptions, 'threshold' | 'comparator'> = {}): ImageDiff {
   validateBuffer(expectedBuffer, mimeType);
 
   let actual: ImageData = mimeType === 'image/png' ? PNG.sync.read(actualBuffer) : jpegjs.decode(actualBuffer, { maxMemoryUsageInMB: JPEG_JS_MAX_BUFFER_SIZE_IN_MB });
   let expected: ImageData = mimeType === 'image/png' ? PNG.sync.read(expectedBuffer) : jpegjs.decode(expectedBuffer, { maxMemoryUsageInMB: JPEG_JS_MAX_BUFFER_SIZE_IN_MB });
+  const totalPixels = expected.width * expected.height;
   const size = { width: Math.max(expected.width, actual.width), height: Math.max(expected.height, actual.height) };
   let sizesMismatchError = '';
   if (expected.width !== actual.width || expected.height !== actual.height) {
@@ -66,33 +92,21 @@ function compareImages(mimeType: string, actualBuffer: Buffer | string, expected
     expected = padImageToSize(expected, size);
   }
   const diff = new PNG({ width: size.width, height: size.height });
-  let count;
+  let diffPixels;
   if (options.comparator === 'ssim-cie94') {
-    count = compare(expected.data, actual.data, diff.data, size.width, size.height, {
+    diffPixels = compare(expected.data, actual.data, diff.data, size.width, size.height, {
       // All ΔE* formulae are originally designed to have the difference of 1.0 stand for a "just noticeable difference" (JND).
       // See https://en.wikipedia.org/wiki/Color_difference#CIELAB_%CE%94E*
       maxColorDeltaE94: 1.0,
     });
   } else if ((options.comparator ?? 'pixelmatch') === 'pixelmatch') {
-    count = pixelmatch(expected.data, actual.data, diff.data, size.width, size.height, {
+    diffPixels = pixelmatch(expected.data, actual.data, diff.data, size.width, size.height, {
       threshold: options.threshold ?? 0.2,
     });
   } else {
     throw new Error(`Configuration specifies unknown comparator "${options.comparator}"`);
   }
-
-  const maxDiffPixels1 = options.maxDiffPixels;
-  const maxDiffPixels2 = options.maxDiffPixelRatio !== undefined ? expected.width * expected.height * options.maxDiffPixelRatio : undefined;
-  let maxDiffPixels;
-  if (maxDiffPixels1 !== undefined && maxDiffPixels2 !== undefined)
-    maxDiffPixels = Math.min(maxDiffPixels1, maxDiffPixels2);
-  else
-    maxDiffPixels = maxDiffPixels1 ?? maxDiffPixels2 ?? 0;
-  const ratio = Math.ceil(count / (expected.width * expected.height) * 100) / 100;
-  const pixelsMismatchError = count > maxDiffPixels ? `${count} pixels (ratio ${ratio.toFixed(2)} of all image pixels) are different.` : '';
-  if (pixelsMismatchError || sizesMismatchError)
-    return { errorMessage: sizesMismatchError + pixelsMismatchError, diff: PNG.sync.write(diff) };
-  return null;
+  return { diffPixels, totalPixels, sizesMismatchError, diffImage: () => PNG.sync.write(diff) };
 }
 
 function validateBuffer(buffer: Buffer, mimeType: string): void {
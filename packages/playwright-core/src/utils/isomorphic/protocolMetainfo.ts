@@ -135,6 +135,9 @@ export const methodMetainfo = new Map<string, { internal?: boolean, title?: stri
   ['Page.pdf', { title: 'PDF', }],
   ['Page.requests', { title: 'Get network requests', group: 'getter', }],
   ['Page.snapshotForAI', { internal: true, }],
+  ['Page.findForAI', { internal: true, }],
+  ['Page.auditAccessibility', { internal: true, }],
+  ['Page.tabOrderForAI', { internal: true, }],
   ['Page.startJSCoverage', { title: 'Start JS coverage', group: 'configuration', }],
   ['Page.stopJSCoverage', { title: 'Stop JS coverage', group: 'configuration', }],
   ['Page.startCSSCoverage', { title: 'Start CSS coverage', group: 'configuration', }],
@@ -162,6 +165,7 @@ export const methodMetainfo = new Map<string, { internal?: boolean, title?: stri
   ['Frame.focus', { title: 'Focus', slowMo: true, snapshot: true, pausesBeforeAction: true, }],
   ['Frame.frameElement', { title: 'Get frame element', group: 'getter', }],
   ['Frame.resolveSelector', { internal: true, }],
+  ['Frame.inspectElement', { internal: true, }],
   ['Frame.highlight', { title: 'Highlight element', group: 'configuration', }],
   ['Frame.getAttribute', { title: 'Get attribute "{name}"', snapshot: true, pausesBeforeAction: true, group: 'getter', }],
   ['Frame.goto', { title: 'Navigate to "{url}"', slowMo: true, snapshot: true, pausesBeforeAction: true, }],
@@ -51,14 +51,14 @@ export function formatObject(value: any, indent = '  ', mode: 'multiline' | 'one
   if (typeof value === 'string')
     return escapeWithQuotes(value, '\'');
   if (Array.isArray(value))
-    return `[${value.map(o => formatObject(o)).join(', ')}]`;
+    return `[${value.map(o => formatObject(o, undefined, mode)).join(', ')}]`;
   if (typeof value === 'object') {
     const keys = Object.keys(value).filter(key => value[key] !== undefined).sort();
     if (!keys.length)
       return '{}';
     const tokens: string[] = [];
     for (const key of keys)
-      tokens.push(`${key}: ${formatObject(value[key])}`);
+      tokens.push(`${/^[a-zA-Z_$][\w$]*$/.test(key) ? key : escapeWithQuotes(key, '\'')}: ${formatObject(value[key], undefined, mode)}`);
     if (mode === 'multiline')
       return `{\n${tokens.join(`,\n${indent}`)}\n}`;
     return `{ ${tokens.join(', ')} }`;
@@ -20,6 +20,9 @@ export const json5 = json5Library;
 import sourceMapSupportLibrary from 'source-map-support';
 export const sourceMapSupport = sourceMapSupportLibrary;
 
+import sourceMapLibrary from 'source-map';
+export const sourceMap = sourceMapLibrary;
+
 import stoppableLibrary from 'stoppable';
 export const stoppable = stoppableLibrary;
 
@@ -18,6 +18,7 @@ import fs from 'fs';
 import os from 'os';
 import path from 'path';
 
+import { loadQuarantineFile } from './quarantine';
 import { getPackageJsonPath, mergeObjects } from '../util';
 
 import type { Config, Fixtures, Metadata, Project, ReporterDescription } from '../../types/test';
@@ -49,6 +50,11 @@ export class FullConfigInternal {
   readonly singleTSConfigPath?: string;
   readonly captureGitInfo: Config['captureGitInfo'];
   readonly failOnFlakyTests: boolean;
+  readonly runHistory: boolean;
+  readonly shardingStrategy: 'count' | 'duration';
+  readonly quarantine: { file: string, entries: Set<string>, autoQuarantine?: NonNullable<Config['quarantine']>['autoQuarantine'] } | undefined;
+  readonly testImpact: { file: string } | undefined;
+  readonly coverage: { outputDir: string, css: boolean, exclude: NonNullable<Config['coverage']>['exclude'] } | undefined;
   cliArgs: string[] = [];
   cliGrep: string | undefined;
   cliGrepInvert: string | undefined;
@@ -61,6 +67,7 @@ export class FullConfigInternal {
   cliTestListInvert?: string;
   preOnlyTestFilters: TestCaseFilter[] = [];
   postShardTestFilters: TestCaseFilter[] = [];
+  testDurations = new Map<string, number>();
   defineConfigWasUsed = false;
 
   globalSetups: string[] = [];
@@ -81,6 +88,21 @@ export class FullConfigInternal {
     this.singleTSConfigPath = pathResolve(configDir, userConfig.tsconfig);
     this.captureGitInfo = userConfig.captureGitInfo;
     this.failOnFlakyTests = takeFirst(configCLIOverrides.failOnFlakyTests, userConfig.failOnFlakyTests, false);
+    this.runHistory = takeFirst(userConfig.runHistory, false);
+    this.shardingStrategy = takeFirst(userConfig.shardingStrategy, 'count');
+    if (userConfig.quarantine) {
+      const file = path.resolve(configDir, userConfig.quarantine.file);
+      this.quarantine = { file, entries: loadQuarantineFile(file), autoQuarantine: userConfig.quarantine.autoQuarantine };
+    }
+    if (userConfig.testImpact)
+      this.testImpact = { file: path.resolve(configDir, userConfig.testImpact.file) };
+    if (userConfig.coverage) {
+      this.coverage = {
+        outputDir: path.resolve(configDir, userConfig.coverage.outputDir ?? 'coverage'),
+        css: userConfig.coverage.css ?? true,
+        exclude: userConfig.coverage.exclude,
+      };
+    }
 
     this.globalSetups = (Array.isArray(userConfig.globalSetup) ? userConfig.globalSetup : [userConfig.globalSetup]).map(s => resolveScript(s, configDir)).filter(script => script !== undefined);
     this.globalTeardowns = (Array.isArray(userConfig.globalTeardown) ? userConfig.globalTeardown : [userConfig.globalTeardown]).map(s => resolveScript(s, configDir)).filter(script => script !== undefined);
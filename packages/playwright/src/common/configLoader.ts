@@ -144,6 +144,15 @@ function validateConfig(file: string, config: Config) {
 
   validateProject(file, config, 'config');
 
+  if ('coverage' in config && config.coverage !== undefined) {
+    if (typeof config.coverage !== 'object' || !config.coverage)
+      throw errorWithFile(file, `config.coverage must be an object`);
+    if (config.coverage.outputDir !== undefined && typeof config.coverage.outputDir !== 'string')
+      throw errorWithFile(file, `config.coverage.outputDir must be a string`);
+    if (config.coverage.css !== undefined && typeof config.coverage.css !== 'boolean')
+      throw errorWithFile(file, `config.coverage.css must be a boolean`);
+  }
+
   if ('forbidOnly' in config && config.forbidOnly !== undefined) {
     if (typeof config.forbidOnly !== 'boolean')
       throw errorWithFile(file, `config.forbidOnly must be a boolean`);
@@ -250,6 +259,39 @@ function validateConfig(file: string, config: Config) {
       throw errorWithFile(file, `config.shard.current must be a positive number, not greater than config.shard.total`);
   }
 
+  if ('quarantine' in config && config.quarantine !== undefined) {
+    if (typeof config.quarantine !== 'object' || !config.quarantine)
+      throw errorWithFile(file, `config.quarantine must be an object`);
+    if (typeof config.quarantine.file !== 'string')
+      throw errorWithFile(file, `config.quarantine.file must be a string`);
+    const autoQuarantine = config.quarantine.autoQuarantine;
+    if (autoQuarantine !== undefined) {
+      if (typeof autoQuarantine !== 'object' || !autoQuarantine)
+        throw errorWithFile(file, `config.quarantine.autoQuarantine must be an object`);
+      if (typeof autoQuarantine.flakyRuns !== 'number' || autoQuarantine.flakyRuns < 1)
+        throw errorWithFile(file, `config.quarantine.autoQuarantine.flakyRuns must be a positive number`);
+      if (typeof autoQuarantine.runs !== 'number' || autoQuarantine.runs < autoQuarantine.flakyRuns)
+        throw errorWithFile(file, `config.quarantine.autoQuarantine.runs must be a positive number, not less than config.quarantine.autoQuarantine.flakyRuns`);
+    }
+  }
+
+  if ('runHistory' in config && config.runHistory !== undefined) {
+    if (typeof config.runHistory !== 'boolean')
+      throw errorWithFile(file, `config.runHistory must be a boolean`);
+  }
+
+  if ('shardingStrategy' in config && config.shardingStrategy !== undefined) {
+    if (typeof config.shardingStrategy !== 'string' || !['count', 'duration'].includes(config.shardingStrategy))
+      throw errorWithFile(file, `config.shardingStrategy must be one of "count" or "duration"`);
+  }
+
+  if ('testImpact' in config && config.testImpact !== undefined) {
+    if (typeof config.testImpact !== 'object' || !config.testImpact)
+      throw errorWithFile(file, `config.testImpact must be an object`);
+    if (typeof config.testImpact.file !== 'string')
+      throw errorWithFile(file, `config.testImpact.file must be a string`);
+  }
+
   if ('updateSnapshots' in config && config.updateSnapshots !== undefined) {
     if (typeof config.updateSnapshots !== 'string' || !['all', 'changed', 'missing', 'none'].includes(config.updateSnapshots))
       throw errorWithFile(file, `config.updateSnapshots must be one of "all", "changed", "missing" or "none"`);
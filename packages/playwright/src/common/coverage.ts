@@ -0,0 +1,45 @@
+/**
+ * Copyright Microsoft Corporation. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Workers attach the coverage of each test under this name, so that it gets into the blob reports.
+ */
+export const kCoverageAttachment = '_coverage';
+
+export type FileCoverage = {
+  // Hit counts of the lines with code, by the line number.
+  lines: Record<string, number>;
+  // Hit counts of the functions, by the "line:column" of their start.
+  functions: Record<string, { name: string, line: number, column: number, count: number }>;
+};
+
+// Coverage of the source files, by their posix path relative to the config dir.
+export type TestCoverage = Record<string, FileCoverage>;
+
+export function mergeTestCoverage(target: TestCoverage, source: TestCoverage) {
+  for (const [file, fileCoverage] of Object.entries(source)) {
+    const targetFile = target[file] ?? (target[file] = { lines: {}, functions: {} });
+    for (const [line, count] of Object.entries(fileCoverage.lines))
+      targetFile.lines[line] = (targetFile.lines[line] ?? 0) + count;
+    for (const [key, fn] of Object.entries(fileCoverage.functions)) {
+      const targetFn = targetFile.functions[key];
+      if (targetFn)
+        targetFn.count += fn.count;
+      else
+        targetFile.functions[key] = { ...fn };
+    }
+  }
+}
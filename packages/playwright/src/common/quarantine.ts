@@ -0,0 +1,62 @@
+/**
+ * Copyright Microsoft Corporation. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import type { TestAnnotation } from '../../types/test';
+
+export const kQuarantineAnnotation = 'quarantine';
+
+export type QuarantineReport = {
+  // Tests that were added to the quarantine file in this run.
+  quarantined: string[];
+  // Quarantined tests that passed in each of the recent runs.
+  stable: string[];
+};
+
+/**
+ * Quarantine file is a JSON array of test ids and test titles in the "file › describe › test" form.
+ */
+export function loadQuarantineFile(file: string): Set<string> {
+  if (!fs.existsSync(file))
+    return new Set();
+  let entries: unknown;
+  try {
+    entries = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (e) {
+    throw new Error(`Failed to parse quarantine file ${file}: ${(e as Error).message}`);
+  }
+  if (!Array.isArray(entries) || entries.some(entry => typeof entry !== 'string'))
+    throw new Error(`Quarantine file ${file} must contain an array of test ids or titles`);
+  return new Set(entries);
+}
+
+export async function saveQuarantineFile(file: string, entries: Iterable<string>) {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  await fs.promises.writeFile(file, JSON.stringify([...entries].sort(), undefined, 2) + '\n');
+}
+
+/**
+ * Quarantine key of the test, built from the posix test file path relative to the project test dir and the test titles.
+ */
+export function quarantineKey(file: string, titles: string[]): string {
+  return [file, ...titles].join(' › ');
+}
+
+export function isQuarantined(test: { annotations: TestAnnotation[] }): boolean {
+  return test.annotations.some(annotation => annotation.type === kQuarantineAnnotation);
+}
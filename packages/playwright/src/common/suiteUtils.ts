@@ -18,6 +18,7 @@ import path from 'path';
 
 import { calculateSha1, toPosixPath } from 'playwright-core/lib/utils';
 
+import { kQuarantineAnnotation, quarantineKey } from './quarantine';
 import { createFileMatcher } from '../util';
 
 import type { FullProjectInternal } from './config';
@@ -75,6 +76,10 @@ export function bindFileSuiteToProject(project: FullProjectInternal, suite: Suit
     test.retries = inheritedRetries ?? project.project.retries;
     test.timeout = inheritedTimeout ?? project.project.timeout;
 
+    const quarantine = project.fullConfig.quarantine;
+    if (quarantine && (quarantine.entries.has(testId) || quarantine.entries.has(quarantineKey(toPosixPath(file), titles))))
+      test.annotations.push({ type: kQuarantineAnnotation });
+
     // Skip annotations imply skipped expectedStatus.
     if (test.annotations.some(a => a.type === 'skip' || a.type === 'fixme'))
       test.expectedStatus = 'skipped';
@@ -0,0 +1,74 @@
+/**
+ * Copyright Microsoft Corporation. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Test impact index maps posix source file paths, relative to the config dir, to the ids of the tests that executed them.
+ */
+export type TestImpactIndex = Map<string, Set<string>>;
+
+/**
+ * Workers store the source files covered by each test here, for the runner to update the index at the end of the run.
+ */
+export function testImpactCoverageFile(outputDir: string, testId: string): string {
+  return path.join(outputDir, '.test-impact', testId + '.json');
+}
+
+export async function loadTestImpactIndex(file: string): Promise<TestImpactIndex> {
+  const index: TestImpactIndex = new Map();
+  let content: string;
+  try {
+    content = await fs.promises.readFile(file, 'utf8');
+  } catch {
+    return index;
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (e) {
+    throw new Error(`Failed to parse test impact file ${file}: ${(e as Error).message}`);
+  }
+  if (!json || typeof json !== 'object' || Array.isArray(json))
+    throw new Error(`Test impact file ${file} must contain an object that maps source files to test ids`);
+  for (const [source, testIds] of Object.entries(json)) {
+    if (Array.isArray(testIds))
+      index.set(source, new Set(testIds));
+  }
+  return index;
+}
+
+export async function saveTestImpactIndex(file: string, index: TestImpactIndex) {
+  const json: Record<string, string[]> = {};
+  for (const source of [...index.keys()].sort()) {
+    const testIds = index.get(source)!;
+    if (testIds.size)
+      json[source] = [...testIds].sort();
+  }
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  await fs.promises.writeFile(file, JSON.stringify(json, undefined, 2) + '\n');
+}
+
+export function impactedTestIds(index: TestImpactIndex, changedFiles: string[], configDir: string): Set<string> {
+  const result = new Set<string>();
+  for (const file of changedFiles) {
+    const source = path.relative(configDir, file).replaceAll(path.sep, '/');
+    for (const testId of index.get(source) ?? [])
+      result.add(testId);
+  }
+  return result;
+}
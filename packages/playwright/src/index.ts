@@ -23,6 +23,7 @@ import { setBoxedStackPrefixes, createGuid, currentZone, debugMode, jsonStringif
 import { currentTestInfo } from './common/globals';
 import { rootTestType } from './common/testType';
 import { createCustomMessageHandler } from './mcp/test/browserBackend';
+import { CoverageRecorder } from './worker/coverage';
 
 import type { Fixtures, PlaywrightTestArgs, PlaywrightTestOptions, PlaywrightWorkerArgs, PlaywrightWorkerOptions, ScreenshotMode, TestInfo, TestType, VideoMode } from '../types/test';
 import type { ContextReuseMode } from './common/config';
@@ -57,6 +58,7 @@ type TestFixtures = PlaywrightTestArgs & PlaywrightTestOptions & {
   _combinedContextOptions: BrowserContextOptions,
   _setupContextOptions: void;
   _setupArtifacts: void;
+  _setupCoverage: void;
   _contextFactory: (options?: BrowserContextOptions) => Promise<{ context: BrowserContext, close: () => Promise<void> }>;
 };
 
@@ -343,6 +345,31 @@ const playwrightFixtures: Fixtures<TestFixtures, WorkerFixtures> = ({
     await artifactsRecorder.didFinishTest();
   }, { auto: 'all-hooks-included',  title: 'trace recording', box: true, timeout: 0 } as any],
 
+  _setupCoverage: [async ({ playwright }, use, testInfo) => {
+    const config = (testInfo as TestInfoImpl)._configInternal;
+    if (!config.testImpact && !config.coverage) {
+      await use();
+      return;
+    }
+
+    const coverageRecorder = new CoverageRecorder(playwright, { css: !!config.coverage?.css });
+    await coverageRecorder.willStartTest();
+    const csiListener: ClientInstrumentationListener = {
+      runAfterCreateBrowserContext: async (context: BrowserContextImpl) => {
+        await coverageRecorder.didCreateBrowserContext(context);
+      },
+      runBeforeCloseBrowserContext: async (context: BrowserContextImpl) => {
+        await coverageRecorder.willCloseBrowserContext(context);
+      },
+    };
+    playwright._instrumentation.addListener(csiListener);
+
+    await use();
+
+    playwright._instrumentation.removeListener(csiListener);
+    await coverageRecorder.didFinishTest(testInfo as TestInfoImpl);
+  }, { auto: 'all-hooks-included',  title: 'coverage collection', box: true } as any],
+
   _contextFactory: [async ({ browser, video, _reuseContext, _combinedContextOptions /** mitigate dep-via-auto lack of traceability */ }, use, testInfo) => {
     const testInfoImpl = testInfo as TestInfoImpl;
     const videoMode = normalizeVideoMode(video);
@@ -0,0 +1,106 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export type RunHistoryOutcome = 'skipped' | 'expected' | 'unexpected' | 'flaky';
+
+export type RunHistoryCommit = {
+  hash: string;
+  shortHash?: string;
+  subject?: string;
+  href?: string;
+};
+
+export type RunHistoryTest = {
+  id: string;
+  // Test file path relative to the root dir, followed by the test titles, joined with " › ".
+  title: string;
+  project: string;
+  outcome: RunHistoryOutcome;
+  duration: number;
+  retries: number;
+  // Hash of the first error of the last result, to tell apart different failures of the same test.
+  errorHash?: string;
+};
+
+export type RunHistoryRun = {
+  startTime: number;
+  duration: number;
+  status: 'passed' | 'failed' | 'timedout' | 'interrupted';
+  commit?: RunHistoryCommit;
+  tests: RunHistoryTest[];
+};
+
+export type TestTrendRun = {
+  startTime: number;
+  commit?: RunHistoryCommit;
+  outcome: RunHistoryOutcome;
+  duration: number;
+  retries: number;
+  errorHash?: string;
+};
+
+export type TestTrend = {
+  id: string;
+  title: string;
+  project: string;
+  // Runs of the test, oldest first.
+  runs: TestTrendRun[];
+  // Share of the runs that were not skipped and eventually passed, between 0 and 1.
+  passRate: number;
+  averageDuration: number;
+  // Commit of the run that started the current streak of failures.
+  firstFailingCommit?: RunHistoryCommit;
+};
+
+export function isFailingOrFlakyTrend(trend: TestTrend): boolean {
+  return trend.passRate < 1 || trend.runs.some(run => run.outcome === 'flaky');
+}
+
+export function computeTestTrends(runs: RunHistoryRun[]): TestTrend[] {
+  const trends = new Map<string, TestTrend>();
+  for (const run of [...runs].sort((a, b) => a.startTime - b.startTime)) {
+    for (const test of run.tests) {
+      let trend = trends.get(test.id);
+      if (!trend) {
+        trend = { id: test.id, title: test.title, project: test.project, runs: [], passRate: 0, averageDuration: 0 };
+        trends.set(test.id, trend);
+      }
+      trend.runs.push({
+        startTime: run.startTime,
+        commit: run.commit,
+        outcome: test.outcome,
+        duration: test.duration,
+        retries: test.retries,
+        errorHash: test.errorHash,
+      });
+    }
+  }
+
+  const result: TestTrend[] = [];
+  for (const trend of trends.values()) {
+    const executed = trend.runs.filter(run => run.outcome !== 'skipped');
+    if (!executed.length)
+      continue;
+    trend.passRate = executed.filter(run => run.outcome === 'expected' || run.outcome === 'flaky').length / executed.length;
+    trend.averageDuration = executed.reduce((total, run) => total + run.duration, 0) / executed.length;
+    let firstFailing: TestTrendRun | undefined;
+    for (let i = executed.length - 1; i >= 0 && executed[i].outcome === 'unexpected'; --i)
+      firstFailing = executed[i];
+    trend.firstFailingCommit = firstFailing?.commit;
+    result.push(trend);
+  }
+  return result.sort((a, b) => a.passRate - b.passRate || a.title.localeCompare(b.title) || a.project.localeCompare(b.project));
+}
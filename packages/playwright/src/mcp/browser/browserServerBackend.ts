@@ -17,12 +17,16 @@
 import { FullConfig } from './config';
 import { Context } from './context';
 import { logUnhandledError } from '../log';
-import { Response, serializeResponse, serializeStructuredResponse } from './response';
+import { responseOutputSchema } from './outputSchema';
+import { PermissionPolicy } from './permissions';
+import { listFiles, listResources, pageResourceUris, readResource } from './resources';
+import { Response, redactSecrets, serializeResponse, serializeStructuredResponse } from './response';
 import { SessionLog } from './sessionLog';
 import { browserTools, filteredTools } from './tools';
 import { toMcpTool } from '../sdk/tool';
 
 import type { Tool } from './tools/tool';
+import type { Section } from './response';
 import type { BrowserContextFactory } from './browserContextFactory';
 import type * as mcpServer from '../sdk/server';
 import type { ServerBackend } from '../sdk/server';
@@ -34,14 +38,19 @@ export class BrowserServerBackend implements ServerBackend {
   private _config: FullConfig;
   private _browserContextFactory: BrowserContextFactory;
   private _isStructuredOutput: boolean;
+  private _outputFiles: string[] = [];
+  private _permissionPolicy: PermissionPolicy;
 
   onBrowserContextClosed: (() => void) | undefined;
+  onResourcesChanged: ((changes: mcpServer.ResourceChanges) => void) | undefined;
+  elicitInput: mcpServer.ElicitCallback | undefined;
 
   constructor(config: FullConfig, factory: BrowserContextFactory, options: { allTools?: boolean, structuredOutput?: boolean } = {}) {
     this._config = config;
     this._browserContextFactory = factory;
     this._tools = options.allTools ? browserTools : filteredTools(config);
     this._isStructuredOutput = options.structuredOutput ?? false;
+    this._permissionPolicy = new PermissionPolicy(config);
   }
 
   async initialize(clientInfo: mcpServer.ClientInfo): Promise<void> {
@@ -56,42 +65,84 @@ export class BrowserServerBackend implements ServerBackend {
   }
 
   async listTools(): Promise<mcpServer.Tool[]> {
-    return this._tools.map(tool => toMcpTool(tool.schema));
+    return this._tools.map(tool => toMcpTool({ outputSchema: responseOutputSchema, ...tool.schema }));
   }
 
   async callTool(name: string, rawArguments: mcpServer.CallToolRequest['params']['arguments']) {
     const tool = this._tools.find(tool => tool.schema.name === name)!;
-    if (!tool) {
-      return {
-        content: [{ type: 'text' as const, text: `### Error\nTool "${name}" not found` }],
-        isError: true,
-      };
-    }
+    if (!tool)
+      return errorResult(`Tool "${name}" not found`);
     const parsedArguments = tool.schema.inputSchema.parse(rawArguments || {}) as any;
+    const permissionError = await this._permissionPolicy.checkToolCall(tool.schema, parsedArguments, this.elicitInput);
+    if (permissionError)
+      return errorResult(`Error: ${permissionError}`);
     const context = this._context!;
     const response = Response.create(context, name, parsedArguments);
+    const startTime = Date.now();
+    const startUrl = context.currentTab()?.page.url();
+    const logToolCall = (entry: { sections?: Section[], error?: string }) => this._sessionLog?.logToolCall({
+      name,
+      args: parsedArguments,
+      startTime,
+      duration: Date.now() - startTime,
+      url: context.currentTab()?.page.url(),
+      ...entry,
+    });
     context.setRunningTool(name);
     let responseObject: mcpServer.CallToolResult;
     try {
       await tool.handle(context, parsedArguments, response);
       const sections = await response.build();
+      logToolCall({ sections });
+      if (!sections.some(section => section.isError))
+        context.logCode({ toolName: name, url: startUrl, code: response.code() });
       if (this._isStructuredOutput)
-        responseObject = await serializeStructuredResponse(sections);
+        responseObject = await serializeStructuredResponse(sections, response.structuredContent());
       else
-        responseObject = await serializeResponse(context, sections, context.firstRootPath());
+        responseObject = await serializeResponse(context, sections, response.structuredContent(), context.firstRootPath());
       this._sessionLog?.logResponse(name, parsedArguments, responseObject);
     } catch (error: any) {
-      return {
-        content: [{ type: 'text' as const, text: `### Error\n${String(error)}` }],
-        isError: true,
-      };
+      logToolCall({ error: String(error) });
+      return errorResult(redactSecrets(String(error), context.config.secrets));
     } finally {
       context.setRunningTool(undefined);
+      await this._notifyResourcesChanged();
     }
     return responseObject;
   }
 
+  async listResources(): Promise<mcpServer.Resource[]> {
+    return await listResources(this._context!);
+  }
+
+  async readResource(uri: string): Promise<mcpServer.ReadResourceResult> {
+    return await readResource(this._context!, uri);
+  }
+
+  private async _notifyResourcesChanged() {
+    // The server only listens to the changes while the client has resource subscriptions.
+    if (!this.onResourcesChanged)
+      return;
+    let listChanged = false;
+    // Only list the output directory after the tools that have saved files there.
+    if (this._context!.takeOutputFilesChanged()) {
+      const outputFiles = await listFiles(this._context!.outputDir());
+      listChanged = outputFiles.join('\n') !== this._outputFiles.join('\n');
+      this._outputFiles = outputFiles;
+    }
+    // Any tool call might have changed the page, report page resources as updated.
+    this.onResourcesChanged({ updated: pageResourceUris, listChanged });
+  }
+
   serverClosed() {
     void this._context?.dispose().catch(logUnhandledError);
   }
 }
+
+function errorResult(error: string): mcpServer.CallToolResult {
+  return {
+    content: [{ type: 'text' as const, text: `### Error\n${error}` }],
+    structuredContent: { error },
+    isError: true,
+  };
+}
@@ -62,6 +62,7 @@ export type CLIOptions = {
   port?: number;
   proxyBypass?: string;
   proxyServer?: string;
+  saveHar?: boolean;
   saveSession?: boolean;
   saveTrace?: boolean;
   saveVideo?: ViewportSize;
@@ -195,6 +196,8 @@ async function validateConfig(config: FullConfig): Promise<void> {
         throw new Error(`Init page file does not exist: ${page}`);
     }
   }
+  if (config.browser.har && !await fileExistsAsync(config.browser.har.path))
+    throw new Error(`HAR file does not exist: ${config.browser.har.path}`);
   if (config.sharedBrowserContext && config.saveVideo)
     throw new Error('saveVideo is not supported when sharedBrowserContext is true');
 }
@@ -293,6 +296,7 @@ export function configFromCLIOptions(cliOptions: CLIOptions): Config {
     },
     allowUnrestrictedFileAccess: cliOptions.allowUnrestrictedFileAccess,
     codegen: cliOptions.codegen,
+    saveHar: cliOptions.saveHar ? {} : undefined,
     saveSession: cliOptions.saveSession,
     saveTrace: cliOptions.saveTrace,
     saveVideo: cliOptions.saveVideo,
@@ -346,6 +350,7 @@ function configFromEnv(): Config {
   options.port = numberParser(process.env.PLAYWRIGHT_MCP_PORT);
   options.proxyBypass = envToString(process.env.PLAYWRIGHT_MCP_PROXY_BYPASS);
   options.proxyServer = envToString(process.env.PLAYWRIGHT_MCP_PROXY_SERVER);
+  options.saveHar = envToBoolean(process.env.PLAYWRIGHT_MCP_SAVE_HAR);
   options.saveTrace = envToBoolean(process.env.PLAYWRIGHT_MCP_SAVE_TRACE);
   options.saveVideo = resolutionParser('--save-video', process.env.PLAYWRIGHT_MCP_SAVE_VIDEO);
   options.secrets = dotenvFileLoader(process.env.PLAYWRIGHT_MCP_SECRETS_FILE);
@@ -22,17 +22,58 @@ import os from 'os';
 
 import { logUnhandledError } from '../log';
 import { Tab } from './tab';
-import { outputFile  } from './config';
+import { outputDir, outputFile  } from './config';
+import { isUrlAllowed } from './permissions';
+import { dateAsFileName } from './tools/utils';
 
 import type * as playwright from '../../../types/test';
 import type { FullConfig } from './config';
 import type { BrowserContextFactory, BrowserContextFactoryResult } from './browserContextFactory';
 import type { SessionLog } from './sessionLog';
 import type { Tracing } from '../../../../playwright-core/src/client/tracing';
+import type { BrowserContext } from '../../../../playwright-core/src/client/browserContext';
 import type { ClientInfo } from '../sdk/server';
 
 const testDebug = debug('pw:mcp:test');
 
+export type RouteRule = {
+  url: string;
+  status?: number;
+  body?: string;
+  contentType?: string;
+  headers?: Record<string, string>;
+  abort?: string;
+};
+
+type RouteEntry = {
+  rule: RouteRule;
+  handler: (route: playwright.Route) => Promise<void>;
+};
+
+export type HarRoute = {
+  path: string;
+  urlFilter?: string;
+  notFound?: 'abort' | 'fallback';
+};
+
+export type HarOptions = {
+  content?: 'embed' | 'attach' | 'omit';
+  mode?: 'full' | 'minimal';
+  urlFilter?: string;
+};
+
+type NamedContext = {
+  name: string;
+  browserContext: playwright.BrowserContext;
+  options: playwright.BrowserContextOptions;
+};
+
+export type CodeLogEntry = {
+  toolName: string;
+  url: string | undefined;
+  code: string[];
+};
+
 type ContextOptions = {
   config: FullConfig;
   browserContextFactory: BrowserContextFactory;
@@ -49,11 +90,24 @@ export class Context {
   private _tabs: Tab[] = [];
   private _currentTab: Tab | undefined;
   private _clientInfo: ClientInfo;
+  private _routes: RouteEntry[] = [];
+  private _harRoutes: HarRoute[] = [];
+  private _harRecording: { harId: string, file: string } | undefined;
+  private _codeLog: CodeLogEntry[] = [];
+  private _namedContexts: NamedContext[] = [];
+  private _emulatedContextName: string | undefined;
+  private _outputFilesChanged = false;
 
   private static _allContexts: Set<Context> = new Set();
   private _closeBrowserContextPromise: Promise<void> | undefined;
   private _runningToolName: string | undefined;
   private _abortController = new AbortController();
+  private _allowedUrlsHandler = async (route: playwright.Route) => {
+    if (route.request().isNavigationRequest() && !isUrlAllowed(this.config, route.request().url()))
+      await route.abort('blockedbyclient');
+    else
+      await route.fallback();
+  };
 
   onBrowserContextClosed: (() => void) | undefined;
 
@@ -86,7 +140,7 @@ export class Context {
   }
 
   async newTab(): Promise<Tab> {
-    const { browserContext } = await this._ensureBrowserContext();
+    const browserContext = await this.currentBrowserContext();
     const page = await browserContext.newPage();
     this._currentTab = this._tabs.find(t => t.page === page)!;
     return this._currentTab;
@@ -117,12 +171,231 @@ export class Context {
     return url;
   }
 
+  browserContexts(): { name: string, current: boolean, tabs: Tab[] }[] {
+    const current = this.currentContextName();
+    return ['default', ...this._namedContexts.map(context => context.name)].map(name => ({
+      name,
+      current: name === current,
+      tabs: this._tabs.filter(tab => tab.contextName === name),
+    }));
+  }
+
+  currentContextName(): string {
+    return this._currentTab?.contextName ?? 'default';
+  }
+
+  async currentBrowserContext(): Promise<playwright.BrowserContext> {
+    if (this._currentTab)
+      return this._currentTab.page.context();
+    return await this.ensureBrowserContext();
+  }
+
+  async newBrowserContext(name: string, options: playwright.BrowserContextOptions): Promise<Tab> {
+    if (name === 'default' || this._namedContexts.some(context => context.name === name))
+      throw new Error(`Browser context "${name}" already exists.`);
+    return await this._openBrowserContext(name, options);
+  }
+
+  private async _openBrowserContext(name: string, options: playwright.BrowserContextOptions): Promise<Tab> {
+    const browser = (await this.ensureBrowserContext()).browser();
+    if (!browser)
+      throw new Error('Creating browser contexts is not supported by this browser.');
+    const browserContext = await browser.newContext({ ...this.config.browser.contextOptions, storageState: undefined, ...options });
+    const namedContext = { name, browserContext, options };
+    this._namedContexts.push(namedContext);
+    try {
+      await this._initializeBrowserContext(browserContext, name);
+      const page = await browserContext.newPage();
+      this._currentTab = this._tabs.find(t => t.page === page)!;
+      return this._currentTab;
+    } catch (error) {
+      this._namedContexts.splice(this._namedContexts.indexOf(namedContext), 1);
+      await browserContext.close().catch(logUnhandledError);
+      throw error;
+    }
+  }
+
+  async emulateBrowserContext(options: playwright.BrowserContextOptions): Promise<Tab> {
+    // Options like the user agent or locale are fixed for the lifetime of a browser context,
+    // reopen the current page in a new context that carries over the cookies and storage.
+    const tab = this._currentTab ?? await this.newTab();
+    const source = this._namedContexts.find(context => context.name === tab.contextName);
+    const storageState = await tab.page.context().storageState();
+    const url = tab.page.url();
+    const previous = this._namedContexts.find(context => context.name === this._emulatedContextName);
+    // Never take over a browser context that the user has created with the same name.
+    const name = previous?.name ?? this._unusedContextName('emulated');
+    const newTab = await this._openBrowserContext(name, { ...source?.options, ...options, storageState });
+    // Replace the previous emulated context only after the new one is open, so that a failure keeps it usable.
+    if (previous) {
+      this._namedContexts.splice(this._namedContexts.indexOf(previous), 1);
+      await previous.browserContext.close();
+    }
+    this._emulatedContextName = name;
+    if (url !== 'about:blank')
+      await newTab.navigate(url);
+    return newTab;
+  }
+
+  private _unusedContextName(prefix: string): string {
+    const names = new Set(this.browserContexts().map(context => context.name));
+    let name = prefix;
+    for (let i = 2; names.has(name); i++)
+      name = `${prefix}-${i}`;
+    return name;
+  }
+
+  async selectBrowserContext(name: string): Promise<Tab> {
+    if (!this.browserContexts().some(context => context.name === name))
+      throw new Error(`Browser context "${name}" not found.`);
+    let tab = this._tabs.find(tab => tab.contextName === name);
+    if (!tab) {
+      const namedContext = this._namedContexts.find(context => context.name === name);
+      const browserContext = namedContext ? namedContext.browserContext : await this.ensureBrowserContext();
+      const page = await browserContext.newPage();
+      tab = this._tabs.find(t => t.page === page)!;
+    }
+    await tab.page.bringToFront();
+    this._currentTab = tab;
+    return tab;
+  }
+
+  async closeNamedBrowserContext(name: string) {
+    const namedContext = this._namedContexts.find(context => context.name === name);
+    if (!namedContext)
+      throw new Error(`Browser context "${name}" not found.`);
+    this._namedContexts.splice(this._namedContexts.indexOf(namedContext), 1);
+    await namedContext.browserContext.close();
+  }
+
+  routes(): RouteRule[] {
+    return this._routes.map(entry => entry.rule);
+  }
+
+  async addRoute(rule: RouteRule) {
+    await this.ensureBrowserContext();
+    await this._removeMocks(rule.url);
+    this._routes.push({ rule, handler: route => handleRoute(route, rule) });
+    for (const browserContext of await this._allBrowserContexts())
+      await this._registerRoutes(browserContext, []);
+  }
+
+  harRoutes(): HarRoute[] {
+    return [...(this.config.browser.har ? [this.config.browser.har] : []), ...this._harRoutes];
+  }
+
+  async addHarRoute(harRoute: HarRoute) {
+    await this.ensureBrowserContext();
+    const duplicates = this._harRoutes.filter(existing => existing.path === harRoute.path && existing.urlFilter === harRoute.urlFilter);
+    this._harRoutes = this._harRoutes.filter(existing => !duplicates.includes(existing));
+    this._harRoutes.push(harRoute);
+    if (duplicates.length) {
+      await this._resetRoutes();
+      return;
+    }
+    for (const browserContext of await this._allBrowserContexts())
+      await this._registerRoutes(browserContext, [harRoute]);
+  }
+
+  async removeRoutes(url?: string): Promise<number> {
+    const removedMocks = await this._removeMocks(url);
+    const removedHarRoutes = this._harRoutes.filter(harRoute => url === undefined || harRoute.urlFilter === url);
+    if (removedHarRoutes.length) {
+      this._harRoutes = this._harRoutes.filter(harRoute => !removedHarRoutes.includes(harRoute));
+      await this._resetRoutes();
+    }
+    return removedMocks + removedHarRoutes.length;
+  }
+
+  private async _removeMocks(url?: string): Promise<number> {
+    const removed = this._routes.filter(entry => url === undefined || entry.rule.url === url);
+    this._routes = this._routes.filter(entry => !removed.includes(entry));
+    for (const browserContext of await this._allBrowserContexts()) {
+      for (const entry of removed)
+        await browserContext.unroute(entry.rule.url, entry.handler);
+    }
+    return removed.length;
+  }
+
+  // HAR routes can not be unrouted one by one, set up all the remaining routes from scratch instead.
+  private async _resetRoutes() {
+    for (const browserContext of await this._allBrowserContexts()) {
+      await browserContext.unrouteAll({ behavior: 'ignoreErrors' });
+      await this._setupRequestInterception(browserContext);
+    }
+  }
+
+  private async _allBrowserContexts(): Promise<playwright.BrowserContext[]> {
+    const browserContext = this._browserContextPromise ? (await this._browserContextPromise).browserContext : undefined;
+    return [...(browserContext ? [browserContext] : []), ...this._namedContexts.map(context => context.browserContext)];
+  }
+
+  harFile(): string | undefined {
+    return this._harRecording?.file;
+  }
+
+  async startHarRecording(file: string, options: HarOptions) {
+    if (this._harRecording)
+      throw new Error(`HAR recording is already in progress, saving to ${this._harRecording.file}.`);
+    const browserContext = await this.ensureBrowserContext() as BrowserContext;
+    await this._startHarRecording(browserContext, file, options);
+  }
+
+  private async _startHarRecording(browserContext: BrowserContext, file: string, options: HarOptions) {
+    const harId = await browserContext._recordIntoHAR(file, null, {
+      url: options.urlFilter,
+      updateContent: options.content ?? 'embed',
+      updateMode: options.mode ?? 'full',
+    });
+    const harRecording = { harId, file };
+    this._harRecording = harRecording;
+    browserContext.once('close', () => {
+      if (this._harRecording === harRecording)
+        this._harRecording = undefined;
+    });
+  }
+
+  async stopHarRecording(): Promise<string | undefined> {
+    if (!this._browserContextPromise)
+      return undefined;
+    const { browserContext } = await this._browserContextPromise;
+    return await this._stopHarRecording(browserContext as BrowserContext);
+  }
+
+  private async _stopHarRecording(browserContext: BrowserContext): Promise<string | undefined> {
+    if (!this._harRecording)
+      return undefined;
+    const { harId, file } = this._harRecording;
+    this._harRecording = undefined;
+    await browserContext._exportHAR(harId);
+    this._outputFilesChanged = true;
+    return file;
+  }
+
+  codeLog(): CodeLogEntry[] {
+    return this._codeLog;
+  }
+
+  logCode(entry: CodeLogEntry) {
+    this._codeLog.push(entry);
+  }
+
   async outputFile(fileName: string, options: { origin: 'code' | 'llm' | 'web', title: string }): Promise<string> {
+    this._outputFilesChanged = true;
     return outputFile(this.config, this._clientInfo, fileName, options);
   }
 
-  private _onPageCreated(page: playwright.Page) {
-    const tab = new Tab(this, page, tab => this._onPageClosed(tab));
+  /**
+   * Returns whether the output files might have changed since the last call.
+   */
+  takeOutputFilesChanged(): boolean {
+    const changed = this._outputFilesChanged;
+    this._outputFilesChanged = false;
+    return changed;
+  }
+
+  private _onPageCreated(page: playwright.Page, contextName: string) {
+    const tab = new Tab(this, page, contextName, tab => this._onPageClosed(tab));
     this._tabs.push(tab);
     if (!this._currentTab)
       this._currentTab = tab;
@@ -164,10 +437,18 @@ export class Context {
     const promise = this._browserContextPromise;
     this._browserContextPromise = undefined;
 
+    // Named contexts live in the same browser, close them first.
+    for (const { browserContext } of this._namedContexts.splice(0))
+      await browserContext.close().catch(logUnhandledError);
+
     await promise.then(async ({ browserContext, close }) => {
       if (this.config.saveTrace)
         await browserContext.tracing.stop();
+      await this._stopHarRecording(browserContext as BrowserContext);
       await close();
+    }).finally(() => {
+      // Do not carry a failed recording over to the next browser context.
+      this._harRecording = undefined;
     });
   }
 
@@ -189,6 +470,26 @@ export class Context {
       for (const origin of this.config.network.blockedOrigins)
         await context.route(originOrHostGlob(origin), route => route.abort('blockedbyclient'));
     }
+
+    // Routes survive browser context restarts, re-register them on top of the origin filters.
+    await this._registerRoutes(context, this.harRoutes());
+  }
+
+  // Routes registered last run first. Mocks are re-registered after the new HAR routes,
+  // so that they take precedence over the HAR replay regardless of the order they were added in.
+  // The allowed urls guard is re-registered last, so that it runs before all the other routes.
+  private async _registerRoutes(context: playwright.BrowserContext, harRoutes: HarRoute[]) {
+    const guardNavigations = !!this.config.permissions?.allowedUrls?.length;
+    if (guardNavigations)
+      await context.unroute('**', this._allowedUrlsHandler);
+    for (const entry of this._routes)
+      await context.unroute(entry.rule.url, entry.handler);
+    for (const harRoute of harRoutes)
+      await routeFromHAR(context, harRoute);
+    for (const entry of this._routes)
+      await context.route(entry.rule.url, entry.handler);
+    if (guardNavigations)
+      await context.route('**', this._allowedUrlsHandler);
   }
 
   async ensureBrowserContext(): Promise<playwright.BrowserContext> {
@@ -216,15 +517,12 @@ export class Context {
       selectors.setTestIdAttribute(this.config.testIdAttribute);
     const result = await this._browserContextFactory.createContext(this._clientInfo, this._abortController.signal, { toolName: this._runningToolName });
     const { browserContext } = result;
-    if (!this.config.allowUnrestrictedFileAccess) {
-      (browserContext as any)._setAllowedProtocols(['http:', 'https:', 'about:', 'data:']);
-      (browserContext as any)._setAllowedDirectories(allRootPaths(this._clientInfo));
-    }
-    await this._setupRequestInterception(browserContext);
-    for (const page of browserContext.pages())
-      this._onPageCreated(page);
-    browserContext.on('page', page => this._onPageCreated(page));
+    await this._initializeBrowserContext(browserContext, 'default');
     browserContext.on('close', () => this.onBrowserContextClosed?.());
+    if (this.config.saveHar) {
+      const harFile = await this.outputFile(dateAsFileName('har', 'har'), { origin: 'code', title: 'Saving HAR' });
+      await this._startHarRecording(browserContext as BrowserContext, harFile, this.config.saveHar);
+    }
     if (this.config.saveTrace) {
       await (browserContext.tracing as Tracing).start({
         name: 'trace-' + Date.now(),
@@ -236,13 +534,49 @@ export class Context {
     return result;
   }
 
-  lookupSecret(secretName: string): { value: string, code: string } {
-    if (!this.config.secrets?.[secretName])
-      return { value: secretName, code: escapeWithQuotes(secretName, '\'') };
-    return {
-      value: this.config.secrets[secretName]!,
-      code: `process.env['${secretName}']`,
-    };
+  private async _initializeBrowserContext(browserContext: playwright.BrowserContext, contextName: string) {
+    if (!this.config.allowUnrestrictedFileAccess) {
+      (browserContext as any)._setAllowedProtocols(['http:', 'https:', 'about:', 'data:']);
+      (browserContext as any)._setAllowedDirectories(allRootPaths(this._clientInfo));
+    }
+    await this._setupRequestInterception(browserContext);
+    for (const page of browserContext.pages())
+      this._onPageCreated(page, contextName);
+    browserContext.on('page', page => this._onPageCreated(page, contextName));
+  }
+
+  lookupSecret(text: string): { value: string, code: string } {
+    if (this.config.secrets?.[text])
+      return { value: this.config.secrets[text], code: `process.env['${text}']` };
+
+    // Resolve the <secret>NAME</secret> placeholders that redacted outputs contain.
+    const values: string[] = [];
+    const codes: string[] = [];
+    let literal = '';
+    const parts = text.split(/<secret>(.*?)<\/secret>/);
+    for (let i = 0; i < parts.length; i++) {
+      const secretValue = i % 2 ? this.config.secrets?.[parts[i]] : undefined;
+      if (secretValue === undefined) {
+        literal += i % 2 ? `<secret>${parts[i]}</secret>` : parts[i];
+        continue;
+      }
+      if (literal) {
+        values.push(literal);
+        codes.push(escapeWithQuotes(literal, '\''));
+        literal = '';
+      }
+      values.push(secretValue);
+      codes.push(`process.env['${parts[i]}']`);
+    }
+    if (literal || !codes.length) {
+      values.push(literal);
+      codes.push(escapeWithQuotes(literal, '\''));
+    }
+    return { value: values.join(''), code: codes.join(' + ') };
+  }
+
+  outputDir(): string {
+    return outputDir(this.config, this._clientInfo);
   }
 
   firstRootPath(): string | undefined {
@@ -272,6 +606,27 @@ function allRootPaths(clientInfo: ClientInfo): string[] {
 }
 
 
+async function routeFromHAR(browserContext: playwright.BrowserContext, harRoute: HarRoute) {
+  await browserContext.routeFromHAR(harRoute.path, { url: harRoute.urlFilter, notFound: harRoute.notFound ?? 'abort' });
+}
+
+async function handleRoute(route: playwright.Route, rule: RouteRule) {
+  if (rule.abort) {
+    await route.abort(rule.abort);
+    return;
+  }
+  if (rule.status === undefined && rule.body === undefined && rule.contentType === undefined) {
+    await route.fallback({ headers: { ...route.request().headers(), ...rule.headers } });
+    return;
+  }
+  await route.fulfill({
+    status: rule.status ?? 200,
+    body: rule.body ?? '',
+    contentType: rule.contentType,
+    headers: rule.headers,
+  });
+}
+
 function originOrHostGlob(originOrHost: string) {
   try {
     const url = new URL(originOrHost);
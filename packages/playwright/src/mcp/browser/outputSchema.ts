@@ -0,0 +1,87 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'playwright-core/lib/mcpBundle';
+
+import type { z as zod } from 'zod';
+
+export const tabOutputSchema = z.object({
+  index: z.number(),
+  url: z.string(),
+  title: z.string(),
+  current: z.boolean(),
+  context: z.string(),
+});
+
+export const consoleMessageOutputSchema = z.object({
+  type: z.string(),
+  text: z.string(),
+});
+
+export const networkRequestOutputSchema = z.object({
+  index: z.number(),
+  method: z.string(),
+  url: z.string(),
+  resourceType: z.string(),
+  status: z.number().optional(),
+  statusText: z.string().optional(),
+});
+
+export const downloadOutputSchema = z.object({
+  index: z.number(),
+  filename: z.string(),
+  url: z.string(),
+  status: z.enum(['in progress', 'finished', 'failed']),
+  size: z.number().optional(),
+  path: z.string().optional(),
+  failure: z.string().optional(),
+});
+
+export const modalStateOutputSchema = z.object({
+  type: z.enum(['dialog', 'fileChooser']),
+  description: z.string(),
+  clearedBy: z.string(),
+});
+
+/**
+ * JSON counterpart of the markdown sections, returned as the structured content of every tool call.
+ * Failed calls only report the error, so all the fields are optional.
+ */
+export const responseOutputSchema = z.object({
+  error: z.string().optional().describe('Error message, present when the tool call failed'),
+  result: z.string().optional().describe('Textual result of the tool call'),
+  code: z.array(z.string()).optional().describe('Playwright code that was run'),
+  tabs: z.array(tabOutputSchema).optional().describe('Open tabs'),
+  page: z.object({ url: z.string(), title: z.string() }).optional().describe('Current page'),
+  modalStates: z.array(modalStateOutputSchema).optional().describe('Dialogs and file choosers that need to be handled'),
+  snapshot: z.string().optional().describe('Accessibility snapshot of the page in YAML'),
+});
+
+export const consoleOutputSchema = responseOutputSchema.extend({
+  consoleMessages: z.array(consoleMessageOutputSchema).optional().describe('Console messages'),
+});
+
+export const networkOutputSchema = responseOutputSchema.extend({
+  networkRequests: z.array(networkRequestOutputSchema).optional().describe('Network requests'),
+});
+
+export const downloadsOutputSchema = responseOutputSchema.extend({
+  downloads: z.array(downloadOutputSchema).optional().describe('Downloads'),
+});
+
+export type StructuredOutput = zod.output<typeof consoleOutputSchema> & zod.output<typeof networkOutputSchema> & zod.output<typeof downloadsOutputSchema>;
+export type NetworkRequestOutput = zod.output<typeof networkRequestOutputSchema>;
+export type DownloadOutput = zod.output<typeof downloadOutputSchema>;
@@ -0,0 +1,70 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { urlMatches } from 'playwright-core/lib/utils';
+
+import type { FullConfig } from './config';
+import type { ToolSchema } from '../sdk/tool';
+import type { ElicitCallback } from '../sdk/server';
+
+type Permissions = NonNullable<FullConfig['permissions']>;
+
+export class PermissionPolicy {
+  private _permissions: Permissions;
+  private _actionCount = 0;
+
+  constructor(config: FullConfig) {
+    this._permissions = config.permissions ?? {};
+  }
+
+  /**
+   * Returns the error message when the tool call is not permitted.
+   */
+  async checkToolCall(schema: ToolSchema<any>, args: Record<string, any>, elicitInput: ElicitCallback | undefined): Promise<string | undefined> {
+    const { allowedTools, deniedTools, maxActions, confirmTools } = this._permissions;
+    if (matchesTool(deniedTools, schema) || (allowedTools && !matchesTool(allowedTools, schema)))
+      return `Tool "${schema.name}" is not allowed by the permissions policy.`;
+
+    const isAction = schema.type === 'action' || schema.type === 'input';
+    if (isAction && maxActions !== undefined && this._actionCount >= maxActions)
+      return `Tool "${schema.name}" is not allowed, the session has reached the limit of ${maxActions} actions.`;
+
+    if (matchesTool(confirmTools, schema)) {
+      const confirmed = await elicitInput?.({
+        message: `Allow "${schema.title}" (${schema.name}) to run with ${JSON.stringify(args)}?`,
+        requestedSchema: { type: 'object', properties: {} },
+      }).catch(() => undefined);
+      if (!confirmed)
+        return `Tool "${schema.name}" requires confirmation, but the client does not support elicitation requests.`;
+      if (confirmed.action !== 'accept')
+        return `Tool "${schema.name}" was not confirmed by the user.`;
+    }
+
+    if (isAction)
+      ++this._actionCount;
+  }
+}
+
+export function isUrlAllowed(config: FullConfig, url: string): boolean {
+  const allowedUrls = config.permissions?.allowedUrls;
+  if (!allowedUrls?.length)
+    return true;
+  return allowedUrls.some(pattern => urlMatches(undefined, url, pattern));
+}
+
+function matchesTool(patterns: string[] | undefined, schema: ToolSchema<any>): boolean {
+  return !!patterns?.some(pattern => pattern === schema.name || pattern === schema.type);
+}
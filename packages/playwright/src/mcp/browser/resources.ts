@@ -0,0 +1,142 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+import { redactSecrets } from './response';
+import { renderRequest } from './tools/network';
+
+import type { Context } from './context';
+import type { Tab } from './tab';
+import type * as mcpServer from '../sdk/server';
+
+type PageResource = mcpServer.Resource & {
+  render: (tab: Tab) => Promise<string>;
+};
+
+const pageResources: PageResource[] = [
+  {
+    uri: 'playwright://page/snapshot',
+    name: 'snapshot',
+    title: 'Page snapshot',
+    description: 'Accessibility snapshot of the current page',
+    mimeType: 'text/yaml',
+    render: tab => tab.ariaSnapshot(),
+  },
+  {
+    uri: 'playwright://page/console',
+    name: 'console',
+    title: 'Console messages',
+    description: 'Console messages of the current page',
+    mimeType: 'text/plain',
+    render: async tab => (await tab.consoleMessages('debug')).map(message => message.toString()).join('\n'),
+  },
+  {
+    uri: 'playwright://page/network',
+    name: 'network',
+    title: 'Network requests',
+    description: 'Network requests of the current page since it was loaded',
+    mimeType: 'text/plain',
+    render: async tab => {
+      const lines: string[] = [];
+      for (const request of await tab.requests()) {
+        const rendered = await renderRequest(tab.requestId(request), request, true);
+        if (rendered)
+          lines.push(rendered);
+      }
+      return lines.join('\n');
+    },
+  },
+];
+
+export const pageResourceUris = pageResources.map(resource => resource.uri);
+
+const mimeTypes: Record<string, string> = {
+  '.har': 'application/json',
+  '.jpeg': 'image/jpeg',
+  '.jpg': 'image/jpeg',
+  '.json': 'application/json',
+  '.jsonl': 'application/jsonl',
+  '.log': 'text/plain',
+  '.md': 'text/markdown',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.ts': 'text/x-typescript',
+  '.txt': 'text/plain',
+  '.webm': 'video/webm',
+  '.yml': 'text/yaml',
+  '.zip': 'application/zip',
+};
+
+export async function listResources(context: Context): Promise<mcpServer.Resource[]> {
+  const resources: mcpServer.Resource[] = pageResources.map(({ render, ...resource }) => resource);
+  const outputDir = context.outputDir();
+  for (const file of await listFiles(outputDir)) {
+    resources.push({
+      uri: pathToFileURL(file).href,
+      name: path.relative(outputDir, file),
+      mimeType: mimeType(file),
+    });
+  }
+  return resources;
+}
+
+export async function readResource(context: Context, uri: string): Promise<mcpServer.ReadResourceResult> {
+  const pageResource = pageResources.find(resource => resource.uri === uri);
+  if (pageResource) {
+    const tab = context.currentTab();
+    const text = tab ? await pageResource.render(tab) : 'No open tabs. Navigate to a URL to create one.';
+    return { contents: [{ uri, mimeType: pageResource.mimeType, text: redactSecrets(text, context.config.secrets) }] };
+  }
+
+  // Only serve the files from the output directory, the uri comes from the client.
+  const file = uri.startsWith('file:') ? fileURLToPath(uri) : undefined;
+  if (!file || !isInside(context.outputDir(), file) || !(await fs.promises.stat(file).then(stat => stat.isFile(), () => false)))
+    throw new Error(`Resource ${uri} not found.`);
+  const type = mimeType(file);
+  const data = await fs.promises.readFile(file);
+  if (type.startsWith('text/') || type.startsWith('application/json'))
+    return { contents: [{ uri, mimeType: type, text: redactSecrets(data.toString('utf-8'), context.config.secrets) }] };
+  return { contents: [{ uri, mimeType: type, blob: data.toString('base64') }] };
+}
+
+// Output directories of long sessions can grow large, only the first files are listed.
+const maxListedFiles = 500;
+
+export async function listFiles(dir: string, files: string[] = []): Promise<string[]> {
+  const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+  for (const entry of entries) {
+    if (files.length >= maxListedFiles)
+      break;
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory())
+      await listFiles(entryPath, files);
+    else if (entry.isFile())
+      files.push(entryPath);
+  }
+  return files;
+}
+
+function isInside(dir: string, file: string): boolean {
+  const relativePath = path.relative(dir, file);
+  return !!relativePath && !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+}
+
+function mimeType(file: string): string {
+  return mimeTypes[path.extname(file).toLowerCase()] ?? 'application/octet-stream';
+}
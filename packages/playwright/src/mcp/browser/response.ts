@@ -17,14 +17,16 @@
 import fs from 'fs';
 import path from 'path';
 
-import { debug } from 'playwright-core/lib/utilsBundle';
+import { debug, mime } from 'playwright-core/lib/utilsBundle';
+import { isTextualMimeType } from 'playwright-core/lib/utils';
 import { renderModalStates, shouldIncludeMessage } from './tab';
 import { dateAsFileName } from './tools/utils';
 import { scaleImageToFitMessage } from './tools/screenshot';
 
-import type { TabHeader } from './tab';
+import type { SnapshotScope, TabHeader } from './tab';
+import type { StructuredOutput } from './outputSchema';
 import type { CallToolResult, ImageContent, TextContent } from '@modelcontextprotocol/sdk/types.js';
-import type { Context } from './context';
+import type { Context, HarRoute, RouteRule } from './context';
 
 export const requestDebug = debug('pw:mcp:request');
 
@@ -54,6 +56,8 @@ export class Response {
   private _context: Context;
   private _includeSnapshot: 'none' | 'full' | 'incremental' = 'none';
   private _includeSnapshotFileName: string | undefined;
+  private _snapshotScope: SnapshotScope | undefined;
+  private _structuredContent: StructuredOutput = {};
 
   readonly toolName: string;
   readonly toolArgs: Record<string, any>;
@@ -87,17 +91,33 @@ export class Response {
     this._errors.push(error);
   }
 
+  /**
+   * Adds typed data to the structured content, in addition to the markdown results.
+   */
+  addStructuredContent(content: StructuredOutput) {
+    Object.assign(this._structuredContent, content);
+  }
+
   addCode(code: string) {
     this._code.push(code);
   }
 
+  code(): string[] {
+    return this._code.map(code => redactSecrets(code, this._context.config.secrets));
+  }
+
   setIncludeSnapshot() {
     this._includeSnapshot = this._context.config.snapshot.mode;
   }
 
-  setIncludeFullSnapshot(includeSnapshotFileName?: string) {
+  structuredContent(): StructuredOutput {
+    return this._structuredContent;
+  }
+
+  setIncludeFullSnapshot(includeSnapshotFileName?: string, snapshotScope?: SnapshotScope) {
     this._includeSnapshot = 'full';
     this._includeSnapshotFileName = includeSnapshotFileName;
+    this._snapshotScope = snapshotScope;
   }
 
   async build(): Promise<Section[]> {
@@ -109,14 +129,20 @@ export class Response {
       return section.content;
     };
 
+    const structured: StructuredOutput = {};
+
     if (this._errors.length) {
       const content = addSection('Error');
       content.push({ text: this._errors.join('\n'), title: 'error' });
+      structured.error = this._errors.join('\n');
     }
 
     if (this._results.length) {
       const content = addSection('Result');
       content.push(...this._results);
+      const texts = this._results.filter(result => result.text !== undefined).map(result => result.text!);
+      if (texts.length)
+        structured.result = texts.join('\n');
     }
 
 
@@ -125,11 +151,16 @@ export class Response {
       const content = addSection('Ran Playwright code');
       for (const code of this._code)
         content.push({ text: code, title: 'code' });
+      structured.code = [...this._code];
     }
 
     // Render tab titles upon changes or when more than one tab.
-    const tabSnapshot = this._context.currentTab() ? await this._context.currentTabOrDie().captureSnapshot() : undefined;
+    const tabSnapshot = this._context.currentTab() ? await this._context.currentTabOrDie().captureSnapshot(this._snapshotScope) : undefined;
     const tabHeaders = await Promise.all(this._context.tabs().map(tab => tab.headerSnapshot()));
+    structured.tabs = tabHeaders.map((header, index) => ({ index, url: header.url, title: header.title, current: header.current, context: header.context }));
+    const currentTabHeader = tabHeaders.find(header => header.current);
+    if (currentTabHeader)
+      structured.page = { url: currentTabHeader.url, title: currentTabHeader.title };
     if (this._includeSnapshot !== 'none' || tabHeaders.some(header => header.changed)) {
       if (tabHeaders.length !== 1) {
         const content = addSection('Open tabs');
@@ -144,6 +175,15 @@ export class Response {
     if (tabSnapshot?.modalStates.length) {
       const content = addSection('Modal state');
       content.push({ text: renderModalStates(this._context.config, tabSnapshot.modalStates).join('\n'), title: 'Modal state' });
+      structured.modalStates = tabSnapshot.modalStates.map(state => ({ type: state.type, description: state.description, clearedBy: this._context.config.skillMode ? state.clearedBy.skill : state.clearedBy.tool }));
+    }
+
+    // Keep the model aware of the mocked traffic.
+    const routes = this._context.routes();
+    const harRoutes = this._context.harRoutes();
+    if (routes.length || harRoutes.length) {
+      const content = addSection('Network routes');
+      content.push({ text: renderRoutesMarkdown(routes, harRoutes).join('\n'), title: 'Network routes' });
     }
 
     // Handle tab snapshot
@@ -151,6 +191,7 @@ export class Response {
       const content = addSection('Snapshot');
       const snapshot = this._includeSnapshot === 'full' ? tabSnapshot.ariaSnapshot : tabSnapshot.ariaSnapshotDiff ?? tabSnapshot.ariaSnapshot;
       content.push({ text: snapshot, title: 'snapshot', file: { prefix: 'page', ext: 'yml', suggestedFilename: this._includeSnapshotFileName } });
+      structured.snapshot = snapshot;
     }
 
     // Handle tab log
@@ -169,10 +210,41 @@ export class Response {
       }
       content.push({ text: text.join('\n'), title: 'events' });
     }
+
+    // Data added by the tool takes precedence over the data collected from the page.
+    this._structuredContent = redactSecretsInValue({ ...structured, ...this._structuredContent }, this._context.config.secrets);
+
+    // Never let the secret values reach the model, the files or the session log.
+    for (const section of sections) {
+      for (const result of section.content) {
+        if (result.text !== undefined)
+          result.text = redactSecrets(result.text, this._context.config.secrets);
+        if (result.data && result.file && isTextualMimeType(mime.getType(result.file.ext) ?? ''))
+          result.data = Buffer.from(redactSecrets(result.data.toString('utf-8'), this._context.config.secrets), 'utf-8');
+      }
+    }
     return sections;
   }
 }
 
+export function redactSecrets(text: string, secrets: Record<string, string> | undefined): string {
+  // Replace longer values first so that a secret containing another one is not partially revealed.
+  const entries = Object.entries(secrets ?? {}).filter(([, value]) => !!value).sort(([, a], [, b]) => b.length - a.length);
+  for (const [secretName, secretValue] of entries)
+    text = text.replaceAll(secretValue, `<secret>${secretName}</secret>`);
+  return text;
+}
+
+function redactSecretsInValue<T>(value: T, secrets: Record<string, string> | undefined): T {
+  if (typeof value === 'string')
+    return redactSecrets(value, secrets) as T;
+  if (Array.isArray(value))
+    return value.map(item => redactSecretsInValue(item, secrets)) as T;
+  if (value && typeof value === 'object')
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactSecretsInValue(item, secrets)])) as T;
+  return value;
+}
+
 export function renderTabMarkdown(tab: TabHeader): string[] {
   const lines = [`- Page URL: ${tab.url}`];
   if (tab.title)
@@ -184,11 +256,32 @@ export function renderTabsMarkdown(tabs: TabHeader[]): string[] {
   if (!tabs.length)
     return ['No open tabs. Navigate to a URL to create one.'];
 
+  // Only mention the browser contexts when there is more than the default one.
+  const showContexts = tabs.some(tab => tab.context !== 'default');
   const lines: string[] = [];
   for (let i = 0; i < tabs.length; i++) {
     const tab = tabs[i];
     const current = tab.current ? ' (current)' : '';
-    lines.push(`- ${i}:${current} [${tab.title}](${tab.url})`);
+    const context = showContexts ? ` (context: ${tab.context})` : '';
+    lines.push(`- ${i}:${current} [${tab.title}](${tab.url})${context}`);
+  }
+  return lines;
+}
+
+export function renderRoutesMarkdown(routes: RouteRule[], harRoutes: HarRoute[]): string[] {
+  if (!routes.length && !harRoutes.length)
+    return ['No active routes.'];
+
+  const lines: string[] = [];
+  for (const harRoute of harRoutes)
+    lines.push(`- ${harRoute.urlFilter ?? '**'} => HAR ${harRoute.path}, not found: ${harRoute.notFound ?? 'abort'}`);
+  for (const route of routes) {
+    if (route.abort)
+      lines.push(`- ${route.url} => abort "${route.abort}"`);
+    else if (route.status === undefined && route.body === undefined && route.contentType === undefined)
+      lines.push(`- ${route.url} => add headers ${Object.keys(route.headers ?? {}).join(', ')}`);
+    else
+      lines.push(`- ${route.url} => [${route.status ?? 200}]${route.contentType ? ' ' + route.contentType : ''}`);
   }
   return lines;
 }
@@ -216,13 +309,7 @@ function parseSections(text: string): Map<string, string> {
   return sections;
 }
 
-export async function serializeResponse(context: Context, sections: Section[], rootPath?: string): Promise<CallToolResult> {
-  const redactText = (text: string): string => {
-    for (const [secretName, secretValue] of Object.entries(context.config.secrets ?? {}))
-      text = text.replaceAll(secretValue, `<secret>${secretName}</secret>`);
-    return text;
-  };
-
+export async function serializeResponse(context: Context, sections: Section[], structuredContent: StructuredOutput, rootPath?: string): Promise<CallToolResult> {
   const text: string[] = [];
   for (const section of sections) {
     text.push(`### ${section.title}`);
@@ -252,7 +339,7 @@ export async function serializeResponse(context: Context, sections: Section[], r
   const content: (TextContent | ImageContent)[] = [
     {
       type: 'text',
-      text: redactText(text.join('\n')),
+      text: text.join('\n'),
     }
   ];
 
@@ -266,11 +353,12 @@ export async function serializeResponse(context: Context, sections: Section[], r
 
   return {
     content,
+    structuredContent,
     ...(sections.some(section => section.isError) ? { isError: true } : {}),
   };
 }
 
-export async function serializeStructuredResponse(sections: Section[]): Promise<CallToolResult> {
+export async function serializeStructuredResponse(sections: Section[], structuredContent: StructuredOutput): Promise<CallToolResult> {
   for (const section of sections) {
     for (const result of section.content) {
       if (!result.data)
@@ -282,6 +370,7 @@ export async function serializeStructuredResponse(sections: Section[]): Promise<
   }
   return {
     content: [{ type: 'text' as const, text: '', _meta: { sections } }],
+    structuredContent,
     isError: sections.some(section => section.isError),
   };
 }
@@ -300,6 +389,7 @@ export function parseResponse(response: CallToolResult) {
   const snapshot = sections.get('Snapshot');
   const events = sections.get('Events');
   const modalState = sections.get('Modal state');
+  const routes = sections.get('Network routes');
   const codeNoFrame = code?.replace(/^```js\n/, '').replace(/\n```$/, '');
   const isError = response.isError;
   const attachments = response.content.length > 1 ? response.content.slice(1) : undefined;
@@ -313,6 +403,7 @@ export function parseResponse(response: CallToolResult) {
     snapshot,
     events,
     modalState,
+    routes,
     isError,
     attachments,
     text,
@@ -18,19 +18,34 @@ import fs from 'fs';
 import path from 'path';
 
 import { outputFile  } from './config';
-import { parseResponse } from './response';
+import { parseResponse, redactSecrets } from './response';
 
 import type { FullConfig } from './config';
+import type { Section } from './response';
 import type * as mcpServer from '../sdk/server';
 
+export type ToolCallLogEntry = {
+  name: string;
+  args: Record<string, any>;
+  startTime: number;
+  duration: number;
+  url?: string;
+  sections?: Section[];
+  error?: string;
+};
+
 export class SessionLog {
   private _folder: string;
   private _file: string;
+  private _jsonlFile: string;
+  private _secrets: Record<string, string> | undefined;
   private _sessionFileQueue = Promise.resolve();
 
-  constructor(sessionFolder: string) {
+  constructor(sessionFolder: string, secrets?: Record<string, string>) {
     this._folder = sessionFolder;
     this._file = path.join(this._folder, 'session.md');
+    this._jsonlFile = path.join(this._folder, 'session.jsonl');
+    this._secrets = secrets;
   }
 
   static async create(config: FullConfig, clientInfo: mcpServer.ClientInfo): Promise<SessionLog> {
@@ -38,7 +53,7 @@ export class SessionLog {
     await fs.promises.mkdir(sessionFolder, { recursive: true });
     // eslint-disable-next-line no-console
     console.error(`Session: ${sessionFolder}`);
-    return new SessionLog(sessionFolder);
+    return new SessionLog(sessionFolder, config.secrets);
   }
 
   logResponse(toolName: string, toolArgs: Record<string, any>, responseObject: any) {
@@ -62,6 +77,14 @@ export class SessionLog {
     }
 
     lines.push('');
-    this._sessionFileQueue = this._sessionFileQueue.then(() => fs.promises.appendFile(this._file, lines.join('\n')));
+    const text = redactSecrets(lines.join('\n'), this._secrets);
+    this._sessionFileQueue = this._sessionFileQueue.then(() => fs.promises.appendFile(this._file, text));
+  }
+
+  logToolCall(entry: ToolCallLogEntry) {
+    // Binary attachments are not needed to replay the session, keep the log compact.
+    const sections = entry.sections?.map(section => ({ ...section, content: section.content.map(({ data, ...result }) => result) }));
+    const line = redactSecrets(JSON.stringify({ ...entry, sections }), this._secrets) + '\n';
+    this._sessionFileQueue = this._sessionFileQueue.then(() => fs.promises.appendFile(this._jsonlFile, line));
   }
 }
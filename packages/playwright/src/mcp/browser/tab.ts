@@ -24,6 +24,7 @@ import { ModalState } from './tools/tool';
 import { handleDialog } from './tools/dialogs';
 import { uploadFile } from './tools/files';
 import { requireOrImport } from '../../transform/transform';
+import { isUrlAllowed } from './permissions';
 
 import type { Context } from './context';
 import type { Page } from '../../../../playwright-core/src/client/page';
@@ -38,10 +39,23 @@ export type TabEventsInterface = {
   [TabEvents.modalState]: [modalState: ModalState];
 };
 
-type Download = {
+/**
+ * Narrows down the captured snapshot to the subtree of a ref, the given depth and number of nodes.
+ * The aria snapshot renderer replaces the omitted nodes with `[+N more rows, ref=eX]` placeholders.
+ */
+export type SnapshotScope = {
+  ref?: string;
+  depth?: number;
+  maxNodes?: number;
+};
+
+export type Download = {
   download: playwright.Download;
   finished: boolean;
+  failure?: string;
   outputFile: string;
+  // Resolves when the download is saved or has failed.
+  saved: ManualPromise<void>;
 };
 
 type ConsoleLogEntry = {
@@ -75,6 +89,7 @@ export type TabHeader = {
   title: string;
   url: string;
   current: boolean;
+  context: string;
 };
 
 export type TabSnapshot = {
@@ -87,10 +102,13 @@ export type TabSnapshot = {
 export class Tab extends EventEmitter<TabEventsInterface> {
   readonly context: Context;
   readonly page: Page;
-  private _lastHeader: TabHeader = { title: 'about:blank', url: 'about:blank', current: false };
+  readonly contextName: string;
+  private _lastHeader: TabHeader;
   private _consoleMessages: ConsoleMessage[] = [];
   private _downloads: Download[] = [];
   private _requests: Set<playwright.Request> = new Set();
+  private _requestIds = new Map<playwright.Request, number>();
+  private _lastRequestId = 0;
   private _onPageClose: (tab: Tab) => void;
   private _modalStates: ModalState[] = [];
   private _initializedPromise: Promise<void>;
@@ -98,10 +116,12 @@ export class Tab extends EventEmitter<TabEventsInterface> {
   private _eventEntries: EventEntry[] = [];
   private _recentEventEntries: EventEntry[] = [];
 
-  constructor(context: Context, page: playwright.Page, onPageClose: (tab: Tab) => void) {
+  constructor(context: Context, page: playwright.Page, contextName: string, onPageClose: (tab: Tab) => void) {
     super();
     this.context = context;
     this.page = page as Page;
+    this.contextName = contextName;
+    this._lastHeader = { title: 'about:blank', url: 'about:blank', current: false, context: contextName };
     this._onPageClose = onPageClose;
     page.on('console', event => this._handleConsoleMessage(messageToConsoleMessage(event)));
     page.on('pageerror', error => this._handleConsoleMessage(pageErrorToConsoleMessage(error)));
@@ -145,7 +165,7 @@ export class Tab extends EventEmitter<TabEventsInterface> {
       this._handleConsoleMessage(message);
     const requests = await this.page.requests().catch(() => []);
     for (const request of requests)
-      this._requests.add(request);
+      this._addRequest(request);
     for (const initPage of this.context.config.browser.initPage || []) {
       try {
         const { default: func } = await requireOrImport(initPage);
@@ -179,28 +199,44 @@ export class Tab extends EventEmitter<TabEventsInterface> {
   }
 
   private async _downloadStarted(download: playwright.Download) {
-    const entry = {
+    const entry: Download = {
       download,
       finished: false,
-      outputFile: await this.context.outputFile(download.suggestedFilename(), { origin: 'web', title: 'Saving download' })
+      outputFile: await this.context.outputFile(download.suggestedFilename(), { origin: 'web', title: 'Saving download' }),
+      saved: new ManualPromise(),
     };
     this._downloads.push(entry);
     this._addLogEntry({ type: 'download-start', wallTime: Date.now(), download: entry });
-    await download.saveAs(entry.outputFile);
-    entry.finished = true;
-    this._addLogEntry({ type: 'download-finish', wallTime: Date.now(), download: entry });
+    try {
+      await download.saveAs(entry.outputFile);
+      entry.finished = true;
+      this._addLogEntry({ type: 'download-finish', wallTime: Date.now(), download: entry });
+    } catch (error) {
+      entry.failure = await download.failure().catch(() => null) ?? String(error);
+    } finally {
+      entry.saved.resolve();
+    }
   }
 
   private _clearCollectedArtifacts() {
     this._consoleMessages.length = 0;
     this._downloads.length = 0;
     this._requests.clear();
+    this._requestIds.clear();
     this._eventEntries.length = 0;
     this._recentEventEntries.length = 0;
   }
 
-  private _handleRequest(request: playwright.Request) {
+  private _addRequest(request: playwright.Request) {
+    if (this._requests.has(request))
+      return;
     this._requests.add(request);
+    // Ids are never reused within the tab, so that they can be referenced across tool calls.
+    this._requestIds.set(request, ++this._lastRequestId);
+  }
+
+  private _handleRequest(request: playwright.Request) {
+    this._addRequest(request);
     this._addLogEntry({ type: 'request', wallTime: Date.now(), request });
   }
 
@@ -225,7 +261,7 @@ export class Tab extends EventEmitter<TabEventsInterface> {
       title = await callOnPageNoTrace(this.page, page => page.title());
     });
     if (this._lastHeader.title !== title || this._lastHeader.url !== this.page.url() || this._lastHeader.current !== this.isCurrentTab()) {
-      this._lastHeader = { title: title ?? '', url: this.page.url(), current: this.isCurrentTab() };
+      this._lastHeader = { title: title ?? '', url: this.page.url(), current: this.isCurrentTab(), context: this.contextName };
       return { ...this._lastHeader, changed: true };
     }
     return { ...this._lastHeader, changed: false };
@@ -243,6 +279,8 @@ export class Tab extends EventEmitter<TabEventsInterface> {
 
   async navigate(url: string) {
     await this._initializedPromise;
+    if (!isUrlAllowed(this.context.config, url))
+      throw new Error(`Navigation to "${url}" is not allowed by the permissions policy.`);
     this._clearCollectedArtifacts();
 
     const { promise: downloadEvent, abort: abortDownloadEvent } = eventWaiter<playwright.Download>(this.page, 'download', 3000);
@@ -279,6 +317,11 @@ export class Tab extends EventEmitter<TabEventsInterface> {
     this._consoleMessages.length = 0;
   }
 
+  async downloads(): Promise<Download[]> {
+    await this._initializedPromise;
+    return this._downloads;
+  }
+
   async requests(): Promise<Set<playwright.Request>> {
     await this._initializedPromise;
     return this._requests;
@@ -287,13 +330,23 @@ export class Tab extends EventEmitter<TabEventsInterface> {
   async clearRequests() {
     await this._initializedPromise;
     this._requests.clear();
+    this._requestIds.clear();
   }
 
-  async captureSnapshot(): Promise<TabSnapshot> {
+  requestId(request: playwright.Request): number {
+    return this._requestIds.get(request)!;
+  }
+
+  async requestById(id: number): Promise<playwright.Request | undefined> {
+    await this._initializedPromise;
+    return [...this._requestIds].find(([, requestId]) => requestId === id)?.[0];
+  }
+
+  async captureSnapshot(scope?: SnapshotScope): Promise<TabSnapshot> {
     await this._initializedPromise;
     let tabSnapshot: TabSnapshot | undefined;
     const modalStates = await this._raceAgainstModalStates(async () => {
-      const snapshot = await this.page._snapshotForAI({ track: 'response' });
+      const snapshot = await this.page._snapshotForAI({ track: 'response', ...scope });
       tabSnapshot = {
         ariaSnapshot: snapshot.full,
         ariaSnapshotDiff: this._needsFullSnapshot ? undefined : snapshot.incremental,
@@ -317,6 +370,25 @@ export class Tab extends EventEmitter<TabEventsInterface> {
     };
   }
 
+  async ariaSnapshot(): Promise<string> {
+    await this._initializedPromise;
+    // Does not track the snapshot, so that the next tool response still reports the changes since the previous one.
+    let ariaSnapshot = '';
+    await this._raceAgainstModalStates(async () => {
+      ariaSnapshot = (await this.page._snapshotForAI()).full;
+    });
+    return ariaSnapshot;
+  }
+
+  async findElements(query: { role?: string, text?: string, regex?: string }): Promise<{ line: string, ancestors: string[] }[]> {
+    await this._initializedPromise;
+    let matches: { line: string, ancestors: string[] }[] = [];
+    await this._raceAgainstModalStates(async () => {
+      matches = await this.page._findForAI(query);
+    });
+    return matches;
+  }
+
   private _javaScriptBlocked(): boolean {
     return this._modalStates.some(state => state.type === 'dialog');
   }
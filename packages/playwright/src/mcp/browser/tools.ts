@@ -14,20 +14,30 @@
  * limitations under the License.
  */
 
+import a11y from './tools/a11y';
 import common from './tools/common';
 import console from './tools/console';
+import contexts from './tools/contexts';
 import dialogs from './tools/dialogs';
+import downloads from './tools/downloads';
+import emulate from './tools/emulate';
 import evaluate from './tools/evaluate';
+import exportTest from './tools/exportTest';
 import files from './tools/files';
+import find from './tools/find';
 import form from './tools/form';
+import har from './tools/har';
+import inspect from './tools/inspect';
 import install from './tools/install';
 import keyboard from './tools/keyboard';
 import mouse from './tools/mouse';
 import navigate from './tools/navigate';
 import network from './tools/network';
 import pdf from './tools/pdf';
+import route from './tools/route';
 import runCode from './tools/runCode';
 import snapshot from './tools/snapshot';
+import storage from './tools/storage';
 import screenshot from './tools/screenshot';
 import tabs from './tools/tabs';
 import tracing from './tools/tracing';
@@ -38,21 +48,31 @@ import type { Tool } from './tools/tool';
 import type { FullConfig } from './config';
 
 export const browserTools: Tool<any>[] = [
+  ...a11y,
   ...common,
   ...console,
+  ...contexts,
   ...dialogs,
+  ...downloads,
+  ...emulate,
   ...evaluate,
+  ...exportTest,
   ...files,
+  ...find,
   ...form,
+  ...har,
+  ...inspect,
   ...install,
   ...keyboard,
   ...mouse,
   ...navigate,
   ...network,
   ...pdf,
+  ...route,
   ...runCode,
   ...screenshot,
   ...snapshot,
+  ...storage,
   ...tabs,
   ...tracing,
   ...wait,
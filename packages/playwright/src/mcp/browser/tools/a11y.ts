@@ -0,0 +1,51 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'playwright-core/lib/mcpBundle';
+import { defineTabTool } from './tool';
+
+const audit = defineTabTool({
+  capability: 'a11y',
+  schema: {
+    name: 'browser_a11y_audit',
+    title: 'Audit accessibility',
+    description: 'Audit the current page for accessibility issues: interactive controls without accessible names, images without alt text, duplicated ids referenced by aria attributes, invalid aria roles, unlabeled form fields and, optionally, keyboard focus traps.',
+    inputSchema: z.object({
+      focusTraps: z.boolean().optional().describe('Also detect keyboard focus traps by pressing Tab through the page. The focus is restored afterwards.'),
+    }),
+    type: 'input',
+  },
+
+  handle: async (tab, params, response) => {
+    // Capture the snapshot first so that the audited elements have refs.
+    await tab.ariaSnapshot();
+    const issues = await tab.page._auditAccessibility({ focusTraps: params.focusTraps });
+    response.setIncludeSnapshot();
+
+    if (!issues.length) {
+      response.addTextResult('No accessibility issues found.');
+      return;
+    }
+    const lines = [`Found ${issues.length} accessibility issue${issues.length === 1 ? '' : 's'}:`];
+    for (const issue of issues)
+      lines.push(`- [${issue.rule}] ${issue.message}${issue.ref ? ` [ref=${issue.ref}]` : ''}`);
+    response.addTextResult(lines.join('\n'));
+  },
+});
+
+export default [
+  audit,
+];
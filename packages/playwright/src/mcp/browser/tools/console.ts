@@ -16,6 +16,7 @@
 
 import { z } from 'playwright-core/lib/mcpBundle';
 import { defineTabTool } from './tool';
+import { consoleOutputSchema } from '../outputSchema';
 
 const console = defineTabTool({
   capability: 'core',
@@ -27,12 +28,14 @@ const console = defineTabTool({
       level: z.enum(['error', 'warning', 'info', 'debug']).default('info').describe('Level of the console messages to return. Each level includes the messages of more severe levels. Defaults to "info".'),
       filename: z.string().optional().describe('Filename to save the console messages to. If not provided, messages are returned as text.'),
     }),
+    outputSchema: consoleOutputSchema,
     type: 'readOnly',
   },
   handle: async (tab, params, response) => {
     const messages = await tab.consoleMessages(params.level);
     const text = messages.map(message => message.toString()).join('\n');
     await response.addResult('Console', text, { prefix: 'console', ext: 'log', suggestedFilename: params.filename });
+    response.addStructuredContent({ consoleMessages: messages.map(message => ({ type: message.type, text: message.text })) });
   },
 });
 
@@ -0,0 +1,146 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import path from 'path';
+
+import { devices } from 'playwright-core';
+import { z } from 'playwright-core/lib/mcpBundle';
+import { defineTool } from './tool';
+import { fileExistsAsync } from '../../../util';
+
+import type * as playwright from 'playwright-core';
+import type { Context } from '../context';
+import type { Response } from '../response';
+import type { BrowserContext } from '../../../../../playwright-core/src/client/browserContext';
+
+const contextNew = defineTool({
+  capability: 'contexts',
+
+  schema: {
+    name: 'browser_context_new',
+    title: 'Create browser context',
+    description: 'Create a new isolated browser context with its own cookies and storage, open a tab in it and make it current. Use it to act as several users at once.',
+    inputSchema: z.object({
+      name: z.string().describe('Name of the browser context, for example "admin" or "customer".'),
+      device: z.string().optional().describe('Device to emulate, for example "iPhone 15" or "Pixel 7".'),
+      viewport: z.object({
+        width: z.number().describe('Width of the viewport'),
+        height: z.number().describe('Height of the viewport'),
+      }).optional().describe('Viewport size of the browser context.'),
+      storageState: z.string().optional().describe('Path to a storage state file to start the browser context with, for example one saved with browser_storage_state_save. Relative paths are resolved against the output directory.'),
+    }),
+    type: 'action',
+  },
+
+  handle: async (context, params, response) => {
+    const options: playwright.BrowserContextOptions = {};
+    if (params.device) {
+      if (!devices[params.device]) {
+        response.addError(`Error: Unknown device "${params.device}".`);
+        return;
+      }
+      Object.assign(options, devices[params.device]);
+    }
+    if (params.viewport)
+      options.viewport = params.viewport;
+    if (params.storageState) {
+      let stateFile = params.storageState;
+      if (path.isAbsolute(stateFile))
+        (await context.ensureBrowserContext() as BrowserContext)._checkFileAccess(stateFile);
+      else
+        stateFile = await context.outputFile(stateFile, { origin: 'llm', title: 'Reading storage state' });
+      if (!await fileExistsAsync(stateFile)) {
+        response.addError(`Error: Storage state file ${params.storageState} does not exist.`);
+        return;
+      }
+      options.storageState = stateFile;
+    }
+    await context.newBrowserContext(params.name, options);
+    renderContexts(context, response);
+  },
+});
+
+const contextList = defineTool({
+  capability: 'contexts',
+
+  schema: {
+    name: 'browser_context_list',
+    title: 'List browser contexts',
+    description: 'List browser contexts and the number of tabs in each of them',
+    inputSchema: z.object({}),
+    type: 'readOnly',
+  },
+
+  handle: async (context, params, response) => {
+    renderContexts(context, response);
+  },
+});
+
+const contextSelect = defineTool({
+  capability: 'contexts',
+
+  schema: {
+    name: 'browser_context_select',
+    title: 'Select browser context',
+    description: 'Make a browser context current by selecting its first tab, new tabs are opened in the current browser context',
+    inputSchema: z.object({
+      name: z.string().describe('Name of the browser context, "default" for the initial one.'),
+    }),
+    type: 'action',
+  },
+
+  handle: async (context, params, response) => {
+    await context.selectBrowserContext(params.name);
+    renderContexts(context, response);
+  },
+});
+
+const contextClose = defineTool({
+  capability: 'contexts',
+
+  schema: {
+    name: 'browser_context_close',
+    title: 'Close browser context',
+    description: 'Close a browser context created with browser_context_new and all its tabs',
+    inputSchema: z.object({
+      name: z.string().describe('Name of the browser context to close.'),
+    }),
+    type: 'action',
+  },
+
+  handle: async (context, params, response) => {
+    if (params.name === 'default') {
+      response.addError('Error: The default browser context cannot be closed, use browser_close instead.');
+      return;
+    }
+    await context.closeNamedBrowserContext(params.name);
+    renderContexts(context, response);
+  },
+});
+
+function renderContexts(context: Context, response: Response) {
+  const lines = context.browserContexts().map(({ name, current, tabs }) => {
+    return `- ${name}${current ? ' (current)' : ''}: ${tabs.length} tab${tabs.length === 1 ? '' : 's'}`;
+  });
+  response.addTextResult(lines.join('\n'));
+}
+
+export default [
+  contextNew,
+  contextList,
+  contextSelect,
+  contextClose,
+];
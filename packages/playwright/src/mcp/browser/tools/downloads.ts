@@ -0,0 +1,229 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import { z } from 'playwright-core/lib/mcpBundle';
+import { isTextualMimeType, monotonicTime, raceAgainstDeadline } from 'playwright-core/lib/utils';
+import { mime } from 'playwright-core/lib/utilsBundle';
+import { defineTabTool } from './tool';
+import { downloadsOutputSchema } from '../outputSchema';
+
+import type { Tab, Download } from '../tab';
+import type { DownloadOutput } from '../outputSchema';
+
+const defaultMaxLength = 2000;
+const csvPreviewRows = 10;
+
+const downloads = defineTabTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_downloads',
+    title: 'List downloads',
+    description: 'Returns the files downloaded by the page since it was loaded, with their status, size and the path they were saved to',
+    inputSchema: z.object({}),
+    outputSchema: downloadsOutputSchema,
+    type: 'readOnly',
+  },
+
+  handle: async (tab, params, response) => {
+    const entries: DownloadOutput[] = [];
+    for (const [index, download] of (await tab.downloads()).entries())
+      entries.push(await downloadOutput(tab, index + 1, download));
+    response.addTextResult(entries.length ? entries.map(renderDownloadOutput).join('\n') : 'No downloads.');
+    response.addStructuredContent({ downloads: entries });
+  },
+});
+
+const downloadRead = defineTabTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_download_read',
+    title: 'Read downloaded file',
+    description: 'Returns the content of a downloaded file. Text files are returned as text with a preview of CSV and JSON data, binary files are described by their size and SHA-256 hash',
+    inputSchema: z.object({
+      index: z.number().describe('Index of the download as listed by browser_downloads'),
+      maxLength: z.number().int().min(1).optional().describe(`Maximum number of characters of text content to return, defaults to ${defaultMaxLength}.`),
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (tab, params, response) => {
+    const download = (await tab.downloads())[params.index - 1];
+    if (!download) {
+      response.addError(`Error: Download ${params.index} not found. Use browser_downloads to list available downloads.`);
+      return;
+    }
+
+    // The file is usually still being saved right after the click that started the download.
+    if (!download.finished && !download.failure)
+      await raceAgainstDeadline(() => download.saved, monotonicTime() + tab.context.config.timeouts.action);
+    if (download.failure) {
+      response.addError(`Error: Download ${params.index} failed: ${download.failure}`);
+      return;
+    }
+    if (!download.finished) {
+      response.addError(`Error: Download ${params.index} is still in progress.`);
+      return;
+    }
+
+    const data = await fs.promises.readFile(download.outputFile);
+    const filename = download.download.suggestedFilename();
+    const contentType = mime.getType(filename) ?? '';
+    const isText = isTextualMimeType(contentType) || (!contentType && !data.includes(0));
+
+    const lines: string[] = [];
+    lines.push(`- File: ${filename}`);
+    lines.push(`- Saved to: ${relativePath(tab, download.outputFile)}`);
+    lines.push(`- Size: ${data.length} bytes`);
+    lines.push(`- SHA-256: ${crypto.createHash('sha256').update(data).digest('hex')}`);
+    if (!isText) {
+      lines.push(`- Content: binary${contentType ? `, ${contentType}` : ''}`);
+      response.addTextResult(lines.join('\n'));
+      return;
+    }
+
+    const text = data.toString('utf-8');
+    const maxLength = params.maxLength ?? defaultMaxLength;
+    const extension = path.extname(filename).toLowerCase();
+    if (extension === '.csv' || contentType === 'text/csv')
+      lines.push('', '#### CSV preview', ...renderCsvPreview(text));
+    else if (extension === '.json' || contentType === 'application/json')
+      lines.push('', '#### JSON preview', ...renderJsonPreview(text));
+    lines.push('', '#### Content', trimText(text, maxLength));
+    response.addTextResult(lines.join('\n'));
+  },
+});
+
+async function downloadOutput(tab: Tab, index: number, download: Download): Promise<DownloadOutput> {
+  const status = download.failure ? 'failed' : download.finished ? 'finished' : 'in progress';
+  const size = download.finished ? (await fs.promises.stat(download.outputFile).catch(() => undefined))?.size : undefined;
+  return {
+    index,
+    filename: download.download.suggestedFilename(),
+    url: download.download.url(),
+    status,
+    ...(size !== undefined ? { size } : {}),
+    ...(download.finished ? { path: relativePath(tab, download.outputFile) } : {}),
+    ...(download.failure ? { failure: download.failure } : {}),
+  };
+}
+
+function renderDownloadOutput(entry: DownloadOutput): string {
+  const result = [`${entry.index}. [${entry.status}] ${entry.filename} from ${entry.url}`];
+  if (entry.size !== undefined)
+    result.push(`(${entry.size} bytes)`);
+  if (entry.path)
+    result.push(`=> "${entry.path}"`);
+  if (entry.failure)
+    result.push(`(${entry.failure})`);
+  return result.join(' ');
+}
+
+function relativePath(tab: Tab, file: string): string {
+  const rootPath = tab.context.firstRootPath();
+  return rootPath ? path.relative(rootPath, file) : file;
+}
+
+function renderCsvPreview(text: string): string[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header)
+    return ['- Empty file'];
+  const lines = [
+    `- Columns: ${header.join(', ')}`,
+    `- Rows: ${rows.length}`,
+    '',
+    `| ${header.map(escapeCell).join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+  ];
+  for (const row of rows.slice(0, csvPreviewRows))
+    lines.push(`| ${header.map((_, i) => escapeCell(row[i] ?? '')).join(' | ')} |`);
+  if (rows.length > csvPreviewRows)
+    lines.push(`... ${rows.length - csvPreviewRows} more rows`);
+  return lines;
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inQuotes) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        ++i;
+      } else if (c === '"') {
+        inQuotes = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n')
+        ++i;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function renderJsonPreview(text: string): string[] {
+  let value: any;
+  try {
+    value = JSON.parse(text);
+  } catch (e) {
+    return [`- Invalid JSON: ${(e as Error).message}`];
+  }
+  if (Array.isArray(value))
+    return [`- Array of ${value.length} item${value.length === 1 ? '' : 's'}`];
+  if (value && typeof value === 'object')
+    return [`- Object with keys: ${Object.keys(value).join(', ')}`];
+  return [`- ${value === null ? 'null' : typeof value}`];
+}
+
+function trimText(text: string, maxLength: number): string {
+  if (text.length <= maxLength)
+    return text;
+  return text.slice(0, maxLength) + `\n... (${text.length - maxLength} more characters)`;
+}
+
+export default [
+  downloads,
+  downloadRead,
+];
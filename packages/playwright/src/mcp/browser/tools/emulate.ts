@@ -0,0 +1,125 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { devices } from 'playwright-core';
+import { z } from 'playwright-core/lib/mcpBundle';
+import { escapeWithQuotes, formatObject } from 'playwright-core/lib/utils';
+import { defineTool } from './tool';
+
+import type * as playwright from 'playwright-core';
+
+const emulate = defineTool({
+  capability: 'emulation',
+
+  schema: {
+    name: 'browser_emulate',
+    title: 'Emulate device and environment',
+    description: 'Emulate a device, viewport, locale, timezone, color scheme, geolocation, offline mode or permissions for the current page. Device, locale and timezone can only be set on a new browser context, so the page is reopened in a new "emulated" browser context with the same cookies and storage.',
+    inputSchema: z.object({
+      device: z.string().optional().describe('Device to emulate, for example "iPhone 15", "Pixel 7" or "Desktop Chrome".'),
+      viewport: z.object({
+        width: z.number().describe('Width of the viewport'),
+        height: z.number().describe('Height of the viewport'),
+      }).optional().describe('Viewport size, overrides the viewport of the device.'),
+      locale: z.string().optional().describe('Locale, for example "de-DE".'),
+      timezoneId: z.string().optional().describe('Timezone, for example "Europe/Berlin".'),
+      colorScheme: z.enum(['light', 'dark', 'no-preference']).optional().describe('Preferred color scheme.'),
+      geolocation: z.object({
+        latitude: z.number().describe('Latitude between -90 and 90'),
+        longitude: z.number().describe('Longitude between -180 and 180'),
+        accuracy: z.number().optional().describe('Accuracy in meters, defaults to 0'),
+      }).optional().describe('Geolocation, the "geolocation" permission is granted automatically.'),
+      offline: z.boolean().optional().describe('Whether to emulate the network being offline.'),
+      permissions: z.array(z.string()).optional().describe('Permissions to grant, for example ["notifications", "clipboard-read"]. Pass an empty array to revoke all permissions.'),
+    }),
+    type: 'action',
+  },
+
+  handle: async (context, params, response) => {
+    if (Object.values(params).every(value => value === undefined)) {
+      response.addError('Error: Nothing to emulate, provide at least one option.');
+      return;
+    }
+    if (params.device && !devices[params.device]) {
+      response.addError(`Error: Unknown device "${params.device}".`);
+      return;
+    }
+
+    const lines: string[] = [];
+    let tab = context.currentTab();
+    if (params.device || params.locale || params.timezoneId) {
+      const options: playwright.BrowserContextOptions = params.device ? { ...devices[params.device] } : {};
+      if (params.locale)
+        options.locale = params.locale;
+      if (params.timezoneId)
+        options.timezoneId = params.timezoneId;
+      tab = await context.emulateBrowserContext(options);
+      const optionsCode = [
+        ...(params.device ? [`...devices[${escapeWithQuotes(params.device, '\'')}]`] : []),
+        ...(params.locale ? [`locale: ${escapeWithQuotes(params.locale, '\'')}`] : []),
+        ...(params.timezoneId ? [`timezoneId: ${escapeWithQuotes(params.timezoneId, '\'')}`] : []),
+      ];
+      // Options of the browser context are fixed before the test starts, tests set them with test.use().
+      response.addCode(`// Emulate with test.use({ ${optionsCode.join(', ')} }) in the test file`);
+      lines.push(`Reopened the page in the "${tab.contextName}" browser context.`);
+      if (params.device)
+        lines.push(`- Device: ${params.device}`);
+      if (params.locale)
+        lines.push(`- Locale: ${params.locale}`);
+      if (params.timezoneId)
+        lines.push(`- Timezone: ${params.timezoneId}`);
+    }
+    tab ??= await context.ensureTab();
+    const browserContext = tab.page.context();
+
+    if (params.viewport) {
+      await tab.page.setViewportSize(params.viewport);
+      response.addCode(`await page.setViewportSize(${formatObject(params.viewport, ' ', 'oneline')});`);
+      lines.push(`- Viewport: ${params.viewport.width}x${params.viewport.height}`);
+    }
+    if (params.colorScheme) {
+      await tab.page.emulateMedia({ colorScheme: params.colorScheme });
+      response.addCode(`await page.emulateMedia({ colorScheme: ${escapeWithQuotes(params.colorScheme, '\'')} });`);
+      lines.push(`- Color scheme: ${params.colorScheme}`);
+    }
+    if (params.permissions) {
+      await browserContext.clearPermissions();
+      response.addCode(`await page.context().clearPermissions();`);
+      if (params.permissions.length) {
+        await browserContext.grantPermissions(params.permissions);
+        response.addCode(`await page.context().grantPermissions([${params.permissions.map(permission => escapeWithQuotes(permission, '\'')).join(', ')}]);`);
+      }
+      lines.push(`- Permissions: ${params.permissions.length ? params.permissions.join(', ') : 'none'}`);
+    }
+    if (params.geolocation) {
+      await browserContext.grantPermissions(['geolocation']);
+      await browserContext.setGeolocation(params.geolocation);
+      response.addCode(`await page.context().grantPermissions(['geolocation']);`);
+      response.addCode(`await page.context().setGeolocation(${formatObject(params.geolocation, ' ', 'oneline')});`);
+      lines.push(`- Geolocation: ${params.geolocation.latitude}, ${params.geolocation.longitude}`);
+    }
+    if (params.offline !== undefined) {
+      await browserContext.setOffline(params.offline);
+      response.addCode(`await page.context().setOffline(${params.offline});`);
+      lines.push(`- Offline: ${params.offline}`);
+    }
+    response.addTextResult(lines.join('\n'));
+  },
+});
+
+export default [
+  emulate,
+];
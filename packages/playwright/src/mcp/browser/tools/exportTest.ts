@@ -0,0 +1,86 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'playwright-core/lib/mcpBundle';
+import { escapeWithQuotes } from 'playwright-core/lib/utils';
+
+import { defineTool } from './tool';
+import { dateAsFileName } from './utils';
+
+import type { CodeLogEntry } from '../context';
+
+const exportTest = defineTool({
+  capability: 'testing',
+
+  schema: {
+    name: 'browser_export_test',
+    title: 'Export test',
+    description: 'Export the actions and assertions performed in this session as a Playwright test file',
+    inputSchema: z.object({
+      title: z.string().optional().describe('Title of the test. Defaults to "recorded session".'),
+      filename: z.string().optional().describe('File name to save the test to. Defaults to `test-{timestamp}.spec.ts` if not specified.'),
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (context, params, response) => {
+    const codeLog = context.codeLog();
+    if (!codeLog.some(entry => entry.code.length)) {
+      response.addError('Error: No actions were performed in this session, there is nothing to export.');
+      return;
+    }
+    const suggestedFilename = params.filename ?? dateAsFileName('test', 'spec.ts');
+    await response.addResult('Test', generateTest(params.title ?? 'recorded session', codeLog), { prefix: 'test', ext: 'spec.ts', suggestedFilename });
+  },
+});
+
+function generateTest(title: string, codeLog: CodeLogEntry[]): string {
+  const body: string[] = [];
+  const firstEntry = codeLog.find(entry => entry.code.length)!;
+  // The session could have started on a page opened by the previous sessions, start the test there.
+  if (!firstEntry.code[0].startsWith('await page.goto(') && firstEntry.url && firstEntry.url !== 'about:blank')
+    body.push(`await page.goto(${escapeWithQuotes(firstEntry.url, '\'')});`);
+  for (const entry of codeLog)
+    body.push(...entry.code.map(secretsToEnv));
+
+  return [
+    `import { test, expect } from '@playwright/test';`,
+    ``,
+    `test(${escapeWithQuotes(title, '\'')}, async ({ page }) => {`,
+    ...body.join('\n').split('\n').map(line => line ? '  ' + line : line),
+    `});`,
+    ``,
+  ].join('\n');
+}
+
+// Turns the <secret>NAME</secret> placeholders inside the string literals into process.env lookups.
+function secretsToEnv(code: string): string {
+  return code.replace(/(['"`])((?:\\.|(?!\1)[^\\])*)\1/g, (literal, quote: string, content: string) => {
+    if (!content.includes('<secret>'))
+      return literal;
+    const parts = content.split(/<secret>(.*?)<\/secret>/);
+    if (quote === '`')
+      return '`' + parts.map((part, i) => i % 2 ? `\${process.env['${part}']}` : part).join('') + '`';
+    return parts
+        .map((part, i) => i % 2 ? `process.env['${part}']` : part ? quote + part + quote : '')
+        .filter(Boolean)
+        .join(' + ');
+  });
+}
+
+export default [
+  exportTest,
+];
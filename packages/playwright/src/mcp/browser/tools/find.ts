@@ -0,0 +1,70 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'playwright-core/lib/mcpBundle';
+import { defineTabTool } from './tool';
+
+const find = defineTabTool({
+  capability: 'core',
+  schema: {
+    name: 'browser_find',
+    title: 'Find elements',
+    description: 'Find elements in the accessibility snapshot of the current page, including iframes, and return only the matching elements with their refs. Use it instead of browser_snapshot when looking for a specific element.',
+    inputSchema: z.object({
+      text: z.string().optional().describe('Case-insensitive text to search for in the element name and text.'),
+      role: z.string().optional().describe('ARIA role of the element, for example "button" or "link".'),
+      regex: z.string().optional().describe('Regular expression to match against the element name and text, for example "^Add .* to cart$".'),
+      offset: z.number().int().min(0).default(0).describe('Number of matches to skip, for paging through many matches. Defaults to 0.'),
+      limit: z.number().int().min(1).default(20).describe('Maximum number of matches to return. Defaults to 20.'),
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (tab, params, response) => {
+    if (!params.text && !params.role && !params.regex) {
+      response.addError('Error: Provide at least one of text, role or regex to search for.');
+      return;
+    }
+    try {
+      if (params.regex)
+        new RegExp(params.regex);
+    } catch {
+      response.addError(`Error: Invalid regular expression: ${params.regex}.`);
+      return;
+    }
+
+    const matches = await tab.findElements({ role: params.role, text: params.text, regex: params.regex });
+    if (!matches.length) {
+      response.addTextResult('No matching elements found.');
+      return;
+    }
+
+    const page = matches.slice(params.offset, params.offset + params.limit);
+    const lines = [`Found ${matches.length} matching element${matches.length === 1 ? '' : 's'}${page.length < matches.length ? `, showing ${params.offset + 1}-${params.offset + page.length}` : ''}:`];
+    for (const { line, ancestors } of page) {
+      lines.push(line);
+      if (ancestors.length)
+        lines.push(`  in: ${ancestors.join(' > ')}`);
+    }
+    if (params.offset + page.length < matches.length)
+      lines.push(`Use offset=${params.offset + page.length} to see more matches.`);
+    response.addTextResult(lines.join('\n'));
+  },
+});
+
+export default [
+  find,
+];
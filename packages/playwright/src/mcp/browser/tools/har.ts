@@ -0,0 +1,69 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'playwright-core/lib/mcpBundle';
+import { dateAsFileName } from './utils';
+import { defineTool } from './tool';
+
+const harStart = defineTool({
+  capability: 'network',
+
+  schema: {
+    name: 'browser_har_start',
+    title: 'Start HAR recording',
+    description: 'Start recording network traffic into a HAR file in the output directory',
+    inputSchema: z.object({
+      filename: z.string().optional().describe('File name to save the HAR to. Defaults to `har-{timestamp}.har`. Use `.zip` extension to save a zip archive with the attached resources.'),
+      content: z.enum(['embed', 'attach', 'omit']).default('embed').describe('Whether to embed response bodies into the HAR file, save them as separate files next to it, or omit them. Defaults to "embed".'),
+      urlFilter: z.string().optional().describe('Glob pattern to filter the recorded requests by URL, for example "**/api/**". Defaults to recording all requests.'),
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (context, params, response) => {
+    const harFile = params.filename
+      ? await context.outputFile(params.filename, { origin: 'llm', title: 'Saving HAR' })
+      : await context.outputFile(dateAsFileName('har', 'har'), { origin: 'code', title: 'Saving HAR' });
+    await context.startHarRecording(harFile, { content: params.content, urlFilter: params.urlFilter });
+    response.addTextResult(`HAR recording started, saving to ${harFile}.`);
+  },
+});
+
+const harStop = defineTool({
+  capability: 'network',
+
+  schema: {
+    name: 'browser_har_stop',
+    title: 'Stop HAR recording',
+    description: 'Stop recording network traffic and save the HAR file',
+    inputSchema: z.object({}),
+    type: 'readOnly',
+  },
+
+  handle: async (context, params, response) => {
+    const harFile = await context.stopHarRecording();
+    if (!harFile) {
+      response.addError('Error: HAR recording is not in progress. Use browser_har_start to start recording.');
+      return;
+    }
+    response.addTextResult(`HAR recording stopped, saved to ${harFile}.`);
+  },
+});
+
+export default [
+  harStart,
+  harStop,
+];
@@ -0,0 +1,110 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'playwright-core/lib/mcpBundle';
+import { asLocator } from 'playwright-core/lib/utils';
+
+import { defineTabTool } from './tool';
+import { elementSchema } from './snapshot';
+
+const defaultStyleProperties = [
+  'display',
+  'visibility',
+  'opacity',
+  'position',
+  'z-index',
+  'pointer-events',
+  'overflow',
+  'width',
+  'height',
+  'color',
+  'background-color',
+  'font-size',
+  'cursor',
+];
+
+const inspect = defineTabTool({
+  capability: 'core',
+  schema: {
+    name: 'browser_inspect',
+    title: 'Inspect element',
+    description: 'Inspect an element: returns its attributes, bounding box, state, accessible role and name, computed styles and candidate locators. Use it to diagnose why an element looks wrong or a locator does not match.',
+    inputSchema: elementSchema.extend({
+      styles: z.array(z.string()).optional().describe(`Computed CSS properties to return, defaults to ${defaultStyleProperties.join(', ')}.`),
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (tab, params, response) => {
+    const { locator } = await tab.refLocator(params);
+    const styleProperties = params.styles?.length ? params.styles : defaultStyleProperties;
+
+    const details = await locator.evaluate((element, styleProperties) => {
+      const style = window.getComputedStyle(element);
+      return {
+        tagName: element.tagName.toLowerCase(),
+        attributes: [...element.attributes].map(attribute => ({ name: attribute.name, value: attribute.value })),
+        styles: styleProperties.map(name => ({ name, value: style.getPropertyValue(name) })),
+        focused: element.ownerDocument.activeElement === element,
+      };
+    }, styleProperties);
+    const { role, name, description, selectors } = await locator._inspectElement();
+    const box = await locator.boundingBox();
+    const visible = await locator.isVisible();
+    const enabled = await locator.isEnabled();
+    // isEditable throws for elements that can't be edited at all.
+    const editable = await locator.isEditable().catch(() => false);
+
+    const lines = [
+      `- Element: <${details.tagName}>`,
+      `- Role: ${role ?? 'none'}`,
+      `- Accessible name: ${JSON.stringify(name)}`,
+    ];
+    if (description)
+      lines.push(`- Accessible description: ${JSON.stringify(description)}`);
+    lines.push(`- Bounding box: ${box ? `x=${round(box.x)}, y=${round(box.y)}, width=${round(box.width)}, height=${round(box.height)}` : 'none'}`);
+    lines.push(`- State: ${[
+      visible ? 'visible' : 'hidden',
+      enabled ? 'enabled' : 'disabled',
+      editable ? 'editable' : 'not editable',
+      ...(details.focused ? ['focused'] : []),
+    ].join(', ')}`);
+
+    lines.push('', 'Attributes:');
+    if (!details.attributes.length)
+      lines.push('- none');
+    for (const attribute of details.attributes)
+      lines.push(`- ${attribute.name}=${JSON.stringify(attribute.value)}`);
+
+    lines.push('', 'Computed styles:');
+    for (const style of details.styles)
+      lines.push(`- ${style.name}: ${style.value}`);
+
+    lines.push('', 'Locators:');
+    for (const selector of selectors)
+      lines.push(`- ${asLocator('javascript', selector)}`);
+
+    response.addTextResult(lines.join('\n'));
+  },
+});
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export default [
+  inspect,
+];
@@ -153,10 +153,59 @@ const keyup = defineTabTool({
   },
 });
 
+const tabOrder = defineTabTool({
+  capability: 'core-input',
+
+  schema: {
+    name: 'browser_tab_order',
+    title: 'Walk keyboard focus order',
+    description: 'Press Tab repeatedly from the start of the page and return the ordered list of focused elements, stopping when focus leaves the page or cycles. Flags focusable elements that are not visible and sequences that trap focus. The focus is restored afterwards.',
+    inputSchema: z.object({
+      limit: z.number().int().min(1).max(500).default(50).describe('Maximum number of Tab presses. Defaults to 50.'),
+    }),
+    type: 'input',
+  },
+
+  handle: async (tab, params, response) => {
+    // Capture the snapshot first so that the focused elements have refs.
+    await tab.ariaSnapshot();
+    const { elements: visited, cycleStart, leftPage } = await tab.page._tabOrderForAI({ limit: params.limit });
+
+    let outcome = `Stopped after reaching the limit of ${params.limit} Tab presses.`;
+    if (leftPage) {
+      outcome = 'Focus left the page.';
+    } else if (cycleStart !== undefined) {
+      outcome = cycleStart === 0
+        ? 'Focus cycled back to element 1.'
+        : `Focus cycled back to element ${cycleStart + 1}, elements ${cycleStart + 1}-${visited.length} trap focus.`;
+    }
+
+    if (!visited.length) {
+      response.addTextResult(`No focusable elements found. ${outcome}`);
+      return;
+    }
+    const lines = [`Focus order (${visited.length} element${visited.length === 1 ? '' : 's'}):`];
+    visited.forEach((element, index) => {
+      let line = `${index + 1}. ${element.role ?? `<${element.tagName}>`}`;
+      if (element.name)
+        line += ` ${JSON.stringify(element.name)}`;
+      if (element.ref)
+        line += ` [ref=${element.ref}]`;
+      if (!element.visible)
+        line += ' - focusable but not visible';
+      lines.push(line);
+    });
+    lines.push(outcome);
+    response.addTextResult(lines.join('\n'));
+    response.setIncludeSnapshot();
+  },
+});
+
 export default [
   press,
   type,
   pressSequentially,
   keydown,
   keyup,
+  tabOrder,
 ];
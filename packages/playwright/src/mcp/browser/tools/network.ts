@@ -15,9 +15,13 @@
  */
 
 import { z } from 'playwright-core/lib/mcpBundle';
+import { isTextualMimeType } from 'playwright-core/lib/utils';
+import { mime } from 'playwright-core/lib/utilsBundle';
 import { defineTabTool } from './tool';
+import { networkOutputSchema } from '../outputSchema';
 
 import type * as playwright from 'playwright-core';
+import type { NetworkRequestOutput } from '../outputSchema';
 import type { Request } from '../../../../../playwright-core/src/client/network';
 
 const requests = defineTabTool({
@@ -31,18 +35,77 @@ const requests = defineTabTool({
       includeStatic: z.boolean().default(false).describe('Whether to include successful static resources like images, fonts, scripts, etc. Defaults to false.'),
       filename: z.string().optional().describe('Filename to save the network requests to. If not provided, requests are returned as text.'),
     }),
+    outputSchema: networkOutputSchema,
     type: 'readOnly',
   },
 
   handle: async (tab, params, response) => {
     const requests = await tab.requests();
-    const text: string[] = [];
+    const entries: NetworkRequestOutput[] = [];
     for (const request of requests) {
-      const rendered = await renderRequest(request, params.includeStatic);
-      if (rendered)
-        text.push(rendered);
+      const entry = await requestOutput(tab.requestId(request), request, params.includeStatic);
+      if (entry)
+        entries.push(entry);
     }
-    await response.addResult('Network', text.join('\n'), { prefix: 'network', ext: 'log', suggestedFilename: params.filename });
+    await response.addResult('Network', entries.map(renderRequestOutput).join('\n'), { prefix: 'network', ext: 'log', suggestedFilename: params.filename });
+    response.addStructuredContent({ networkRequests: entries });
+  },
+});
+
+const networkRequest = defineTabTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_network_request',
+    title: 'Get network request details',
+    description: 'Returns request and response headers, post data, response body, timing and failure details of a network request',
+    inputSchema: z.object({
+      index: z.number().describe('Index of the request as listed by browser_network_requests'),
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (tab, params, response) => {
+    const request = await tab.requestById(params.index);
+    if (!request) {
+      response.addError(`Error: Request ${params.index} not found. Use browser_network_requests to list available requests.`);
+      return;
+    }
+
+    const requestResponse = (request as Request)._hasResponse ? await request.response() : null;
+    const lines: string[] = [];
+    lines.push(`- ${request.method().toUpperCase()} ${request.url()}`);
+    lines.push(`- Resource type: ${request.resourceType()}`);
+    if (requestResponse)
+      lines.push(`- Status: ${requestResponse.status()} ${requestResponse.statusText()}`);
+    const failure = request.failure();
+    if (failure)
+      lines.push(`- Failure: ${failure.errorText}`);
+
+    lines.push('', '#### Request headers', ...renderHeaders(await request.allHeaders()));
+    const postData = request.postData();
+    if (postData)
+      lines.push('', '#### Request body', trimBody(postData));
+
+    let body: Buffer | undefined;
+    let contentType = '';
+    if (requestResponse) {
+      lines.push('', '#### Response headers', ...renderHeaders(await requestResponse.allHeaders()));
+      contentType = requestResponse.headers()['content-type'] ?? '';
+      body = await requestResponse.body().catch(() => undefined);
+      if (body) {
+        lines.push('', '#### Response body');
+        lines.push(isTextualMimeType(contentType) ? trimBody(body.toString('utf-8')) : `<binary, ${body.length} bytes>`);
+      }
+    }
+
+    const timing = renderTiming(request.timing());
+    if (timing.length)
+      lines.push('', '#### Timing', ...timing);
+
+    response.addTextResult(lines.join('\n'));
+    if (body?.length)
+      await response.addResult('Response body', body, { prefix: 'response-body', ext: mime.getExtension(contentType.split(';')[0]) || 'dat' });
   },
 });
 
@@ -61,7 +124,12 @@ const networkClear = defineTabTool({
   },
 });
 
-async function renderRequest(request: playwright.Request, includeStatic: boolean): Promise<string | undefined> {
+export async function renderRequest(id: number, request: playwright.Request, includeStatic: boolean): Promise<string | undefined> {
+  const entry = await requestOutput(id, request, includeStatic);
+  return entry ? renderRequestOutput(entry) : undefined;
+}
+
+async function requestOutput(index: number, request: playwright.Request, includeStatic: boolean): Promise<NetworkRequestOutput | undefined> {
   const response = (request as Request)._hasResponse ? await request.response() : undefined;
   const isStaticRequest = ['document', 'stylesheet', 'image', 'media', 'font', 'script', 'manifest'].includes(request.resourceType());
   const isSuccessfulRequest = !response || response.status() < 400;
@@ -69,14 +137,56 @@ async function renderRequest(request: playwright.Request, includeStatic: boolean
   if (isStaticRequest && isSuccessfulRequest && !includeStatic)
     return undefined;
 
+  return {
+    index,
+    method: request.method().toUpperCase(),
+    url: request.url(),
+    resourceType: request.resourceType(),
+    ...(response ? { status: response.status(), statusText: response.statusText() } : {}),
+  };
+}
+
+function renderRequestOutput(entry: NetworkRequestOutput): string {
   const result: string[] = [];
-  result.push(`[${request.method().toUpperCase()}] ${request.url()}`);
-  if (response)
-    result.push(`=> [${response.status()}] ${response.statusText()}`);
+  result.push(`${entry.index}. [${entry.method}] ${entry.url}`);
+  if (entry.status !== undefined)
+    result.push(`=> [${entry.status}] ${entry.statusText}`);
   return result.join(' ');
 }
 
+const maxBodyLength = 2000;
+
+function trimBody(body: string): string {
+  if (body.length <= maxBodyLength)
+    return body;
+  return body.slice(0, maxBodyLength) + `\n... (${body.length - maxBodyLength} more characters)`;
+}
+
+function renderHeaders(headers: Record<string, string>): string[] {
+  return Object.entries(headers).map(([name, value]) => `- ${name}: ${value}`);
+}
+
+function renderTiming(timing: ReturnType<playwright.Request['timing']>): string[] {
+  // Timing values are relative to startTime, -1 means not available.
+  const phases: [string, number, number][] = [
+    ['DNS lookup', timing.domainLookupStart, timing.domainLookupEnd],
+    ['Connection', timing.connectStart, timing.connectEnd],
+    ['TLS handshake', timing.secureConnectionStart, timing.connectEnd],
+    ['Waiting for response', timing.requestStart, timing.responseStart],
+    ['Content download', timing.responseStart, timing.responseEnd],
+  ];
+  const lines: string[] = [];
+  for (const [name, start, end] of phases) {
+    if (start >= 0 && end >= 0)
+      lines.push(`- ${name}: ${Math.round(end - start)}ms`);
+  }
+  if (timing.responseEnd >= 0)
+    lines.push(`- Total: ${Math.round(timing.responseEnd)}ms`);
+  return lines;
+}
+
 export default [
   requests,
+  networkRequest,
   networkClear,
 ];
@@ -0,0 +1,151 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import path from 'path';
+
+import { z } from 'playwright-core/lib/mcpBundle';
+import { escapeWithQuotes, formatObject } from 'playwright-core/lib/utils';
+import { defineTool } from './tool';
+import { renderRoutesMarkdown } from '../response';
+import { fileExistsAsync } from '../../../util';
+
+import type { RouteRule } from '../context';
+import type { BrowserContext } from '../../../../../playwright-core/src/client/browserContext';
+
+const route = defineTool({
+  capability: 'network',
+
+  schema: {
+    name: 'browser_route',
+    title: 'Mock network requests',
+    description: 'Intercept network requests matching a URL glob pattern and fulfill them with a mock response, abort them, or add request headers. A rule with the same pattern replaces the existing one.',
+    inputSchema: z.object({
+      url: z.string().describe('URL glob pattern to match, for example "**/api/users" or "**/*.{png,jpg}"'),
+      status: z.number().optional().describe('HTTP status code of the mock response. Defaults to 200 when body or content type is provided.'),
+      body: z.string().optional().describe('Body of the mock response, for example a JSON string.'),
+      contentType: z.string().optional().describe('Content type of the mock response, for example "application/json".'),
+      headers: z.record(z.string(), z.string()).optional().describe('Headers of the mock response. When no status, body or content type is provided, these headers are added to the matching requests instead.'),
+      abort: z.string().optional().describe('Abort matching requests with the given network error code, for example "failed", "aborted", "timedout" or "blockedbyclient".'),
+    }),
+    type: 'action',
+  },
+
+  handle: async (context, params, response) => {
+    const rule: RouteRule = {
+      url: params.url,
+      status: params.status,
+      body: params.body,
+      contentType: params.contentType,
+      headers: params.headers,
+      abort: params.abort,
+    };
+    await context.addRoute(rule);
+    response.addTextResult(`Route added for "${params.url}".`);
+    response.addCode(`await page.context().route(${escapeWithQuotes(params.url, '\'')}, route => ${routeCode(rule)});`);
+  },
+});
+
+const routeList = defineTool({
+  capability: 'network',
+
+  schema: {
+    name: 'browser_route_list',
+    title: 'List network mocks',
+    description: 'List active network request mocks',
+    inputSchema: z.object({}),
+    type: 'readOnly',
+  },
+
+  handle: async (context, params, response) => {
+    response.addTextResult(renderRoutesMarkdown(context.routes(), context.harRoutes()).join('\n'));
+  },
+});
+
+const unroute = defineTool({
+  capability: 'network',
+
+  schema: {
+    name: 'browser_unroute',
+    title: 'Remove network mocks',
+    description: 'Remove network request mocks added with browser_route and HAR replays added with browser_route_from_har',
+    inputSchema: z.object({
+      url: z.string().optional().describe('URL glob pattern of the route to remove, or the URL filter of the HAR replay to remove. If omitted, all routes are removed.'),
+    }),
+    type: 'action',
+  },
+
+  handle: async (context, params, response) => {
+    const removed = await context.removeRoutes(params.url);
+    if (params.url && !removed) {
+      response.addError(`Error: No route found for "${params.url}".`);
+      return;
+    }
+    response.addTextResult(`Removed ${removed} route${removed === 1 ? '' : 's'}.`);
+    if (params.url)
+      response.addCode(`await page.context().unroute(${escapeWithQuotes(params.url, '\'')});`);
+    else
+      response.addCode(`await page.context().unrouteAll();`);
+  },
+});
+
+const routeFromHAR = defineTool({
+  capability: 'network',
+
+  schema: {
+    name: 'browser_route_from_har',
+    title: 'Replay network from HAR',
+    description: 'Serve network responses from a HAR file instead of the network, for example one recorded with browser_har_start',
+    inputSchema: z.object({
+      filename: z.string().describe('Path to the HAR file. Relative paths are resolved against the output directory.'),
+      urlFilter: z.string().optional().describe('Glob pattern to match the request URLs served from the HAR file. Defaults to all requests.'),
+      notFound: z.enum(['abort', 'fallback']).default('abort').describe('What to do with the requests that are not found in the HAR file: "abort" fails them, "fallback" sends them to the network. Defaults to "abort".'),
+    }),
+    type: 'action',
+  },
+
+  handle: async (context, params, response) => {
+    let harFile = params.filename;
+    if (path.isAbsolute(harFile)) {
+      const browserContext = await context.ensureBrowserContext() as BrowserContext;
+      browserContext._checkFileAccess(harFile);
+    } else {
+      harFile = await context.outputFile(harFile, { origin: 'llm', title: 'Reading HAR' });
+    }
+    if (!await fileExistsAsync(harFile)) {
+      response.addError(`Error: HAR file ${params.filename} does not exist.`);
+      return;
+    }
+    await context.addHarRoute({ path: harFile, urlFilter: params.urlFilter, notFound: params.notFound });
+    response.addTextResult(`Serving ${params.urlFilter ?? 'all requests'} from ${harFile}.`);
+    response.addCode(`await page.context().routeFromHAR(${escapeWithQuotes(harFile, '\'')}, ${formatObject({ url: params.urlFilter, notFound: params.notFound }, ' ', 'oneline')});`);
+  },
+});
+
+function routeCode(rule: RouteRule): string {
+  if (rule.abort)
+    return `route.abort(${escapeWithQuotes(rule.abort, '\'')})`;
+  if (rule.status === undefined && rule.body === undefined && rule.contentType === undefined)
+    return `route.fallback({ headers: { ...route.request().headers(), ...${formatObject(rule.headers ?? {}, ' ', 'oneline')} } })`;
+  const options = { status: rule.status ?? 200, contentType: rule.contentType, body: rule.body, headers: rule.headers };
+  return `route.fulfill(${formatObject(options, ' ', 'oneline')})`;
+}
+
+export default [
+  route,
+  routeList,
+  unroute,
+  routeFromHAR,
+];
@@ -14,7 +14,10 @@
  * limitations under the License.
  */
 
-import { scaleImageToSize } from 'playwright-core/lib/utils';
+import fs from 'fs';
+import path from 'path';
+
+import { diffImages, escapeWithQuotes, scaleImageToSize } from 'playwright-core/lib/utils';
 import { jpegjs, PNG } from 'playwright-core/lib/utilsBundle';
 import { formatObject } from 'playwright-core/lib/utils';
 
@@ -71,6 +74,71 @@ const screenshot = defineTabTool({
   }
 });
 
+const compareScreenshot = defineTabTool({
+  capability: 'core',
+  schema: {
+    name: 'browser_compare_screenshot',
+    title: 'Compare screenshot with baseline',
+    description: 'Compare a screenshot of the current page or element with a baseline PNG file in the output directory. Returns the mismatch ratio and a diff image. Creates the baseline when it does not exist.',
+    inputSchema: z.object({
+      baseline: z.string().describe('File name of the baseline PNG screenshot, relative to the output directory.'),
+      element: z.string().optional().describe('Human-readable element description used to obtain permission to screenshot the element. If not provided, the viewport is compared.'),
+      ref: z.string().optional().describe('Exact target element reference from the page snapshot. If not provided, the viewport is compared.'),
+      fullPage: z.boolean().optional().describe('When true, compares the full scrollable page instead of the viewport. Cannot be used with element screenshots.'),
+      threshold: z.number().min(0).max(1).optional().describe('Acceptable perceived color difference between the same pixel in compared images, between 0 and 1. Defaults to 0.2.'),
+      maxDiffPixelRatio: z.number().min(0).max(1).optional().describe('Acceptable ratio of different pixels to the total amount of pixels, between 0 and 1. Defaults to 0.'),
+      update: z.boolean().optional().describe('Overwrite the baseline with the current screenshot instead of comparing.'),
+    }),
+    type: 'action',
+  },
+
+  handle: async (tab, params, response) => {
+    if (params.fullPage && params.ref)
+      throw new Error('fullPage cannot be used with element screenshots.');
+
+    const options: playwright.PageScreenshotOptions = {
+      type: 'png',
+      scale: 'css',
+      ...(params.fullPage !== undefined && { fullPage: params.fullPage })
+    };
+    const ref = params.ref ? await tab.refLocator({ element: params.element || '', ref: params.ref }) : null;
+    const actual = ref ? await ref.locator.screenshot(options) : await tab.page.screenshot(options);
+
+    const baselineFile = await tab.context.outputFile(params.baseline, { origin: 'llm', title: 'Baseline screenshot' });
+    const expected = params.update ? undefined : await fs.promises.readFile(baselineFile).catch(() => undefined);
+    if (!expected) {
+      await fs.promises.writeFile(baselineFile, actual);
+      response.addTextResult(`${params.update ? 'Updated' : 'Created'} baseline ${params.baseline}.`);
+      return;
+    }
+
+    const expectOptionsObject = {
+      ...(params.fullPage !== undefined && { fullPage: params.fullPage }),
+      ...(params.threshold !== undefined && { threshold: params.threshold }),
+      ...(params.maxDiffPixelRatio !== undefined && { maxDiffPixelRatio: params.maxDiffPixelRatio }),
+    };
+    const expectOptions = Object.keys(expectOptionsObject).length ? `, ${formatObject(expectOptionsObject, ' ', 'oneline')}` : '';
+    const target = ref ? `page.${ref.resolved}` : 'page';
+    response.addCode(`await expect(${target}).toHaveScreenshot(${escapeWithQuotes(path.basename(params.baseline))}${expectOptions});`);
+
+    const { diffPixels, totalPixels, sizesMismatchError, diffImage } = diffImages('image/png', actual, expected, { threshold: params.threshold });
+    const ratio = diffPixels / totalPixels;
+    const matches = !sizesMismatchError && ratio <= (params.maxDiffPixelRatio ?? 0);
+    const lines = [
+      `- Baseline: ${params.baseline}`,
+      `- Mismatch ratio: ${Math.round(ratio * 10000) / 10000} (${diffPixels} of ${totalPixels} pixels differ)`,
+    ];
+    if (sizesMismatchError)
+      lines.push(`- Size mismatch: ${sizesMismatchError.trim()}`);
+    lines.push(`- Result: ${matches ? 'matches the baseline' : 'does not match the baseline'}`);
+    response.addTextResult(lines.join('\n'));
+    if (!matches) {
+      const diffFilename = params.baseline.replace(/(\.png)?$/, '-diff.png');
+      await response.addResult('Diff image', diffImage(), { prefix: 'diff', ext: 'png', suggestedFilename: diffFilename, contentType: 'image/png' });
+    }
+  }
+});
+
 export function scaleImageToFitMessage(buffer: Buffer, imageType: 'png' | 'jpeg'): Buffer {
   // https://docs.claude.com/en/docs/build-with-claude/vision#evaluate-image-size
   // Not more than 1.15 megapixel, linear size not more than 1568.
@@ -90,4 +158,5 @@ export function scaleImageToFitMessage(buffer: Buffer, imageType: 'png' | 'jpeg'
 
 export default [
   screenshot,
+  compareScreenshot,
 ];
@@ -27,13 +27,19 @@ const snapshot = defineTool({
     description: 'Capture accessibility snapshot of the current page, this is better than screenshot',
     inputSchema: z.object({
       filename: z.string().optional().describe('Save snapshot to markdown file instead of returning it in the response.'),
+      ref: z.string().optional().describe('Exact target element reference from the page snapshot, to only capture the subtree of this element, for example a data grid.'),
+      depth: z.number().int().min(1).optional().describe('Maximum depth of the captured tree. Children of the deepest elements are replaced with "[+N more ..., ref=eX]" placeholders, capture the snapshot of that ref to expand them.'),
+      maxNodes: z.number().int().min(1).optional().describe('Maximum number of elements in the snapshot. The remaining elements are replaced with "[+N more ..., ref=eX]" placeholders, capture the snapshot of that ref with a larger limit to expand them.'),
     }),
     type: 'readOnly',
   },
 
   handle: async (context, params, response) => {
-    await context.ensureTab();
-    response.setIncludeFullSnapshot(params.filename);
+    const tab = await context.ensureTab();
+    if (params.ref)
+      await tab.refLocator({ ref: params.ref });
+    const scoped = params.ref !== undefined || params.depth !== undefined || params.maxNodes !== undefined;
+    response.setIncludeFullSnapshot(params.filename, scoped ? { ref: params.ref, depth: params.depth, maxNodes: params.maxNodes } : undefined);
   },
 });
 
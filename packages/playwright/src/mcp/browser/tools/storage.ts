@@ -0,0 +1,145 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import path from 'path';
+
+import { z } from 'playwright-core/lib/mcpBundle';
+import { escapeWithQuotes, formatObject } from 'playwright-core/lib/utils';
+import { defineTool } from './tool';
+import { dateAsFileName } from './utils';
+import { fileExistsAsync } from '../../../util';
+
+import type * as playwright from 'playwright-core';
+import type { BrowserContext } from '../../../../../playwright-core/src/client/browserContext';
+
+const storageStateSave = defineTool({
+  capability: 'storage',
+
+  schema: {
+    name: 'browser_storage_state_save',
+    title: 'Save storage state',
+    description: 'Save cookies, localStorage and IndexedDB of the browser context into a file in the output directory, for example to reuse an authenticated session later. The contents of the file are not returned.',
+    inputSchema: z.object({
+      filename: z.string().optional().describe('File name to save the storage state to. Defaults to `storage-state-{timestamp}.json`.'),
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (context, params, response) => {
+    const browserContext = await context.currentBrowserContext();
+    const stateFile = params.filename
+      ? await context.outputFile(params.filename, { origin: 'llm', title: 'Saving storage state' })
+      : await context.outputFile(dateAsFileName('storage-state', 'json'), { origin: 'code', title: 'Saving storage state' });
+    await browserContext.storageState({ path: stateFile, indexedDB: true });
+    response.addTextResult(`Storage state saved to ${stateFile}.`);
+    response.addCode(`await page.context().storageState(${formatObject({ path: stateFile, indexedDB: true }, ' ', 'oneline')});`);
+  },
+});
+
+const storageStateLoad = defineTool({
+  capability: 'storage',
+
+  schema: {
+    name: 'browser_storage_state_load',
+    title: 'Load storage state',
+    description: 'Replace cookies, localStorage and IndexedDB of the browser context with the ones from a storage state file, for example one saved with browser_storage_state_save',
+    inputSchema: z.object({
+      filename: z.string().describe('Path to the storage state file. Relative paths are resolved against the output directory.'),
+    }),
+    type: 'action',
+  },
+
+  handle: async (context, params, response) => {
+    const browserContext = await context.currentBrowserContext();
+    let stateFile = params.filename;
+    if (path.isAbsolute(stateFile))
+      (browserContext as BrowserContext)._checkFileAccess(stateFile);
+    else
+      stateFile = await context.outputFile(stateFile, { origin: 'llm', title: 'Reading storage state' });
+    if (!await fileExistsAsync(stateFile)) {
+      response.addError(`Error: Storage state file ${params.filename} does not exist.`);
+      return;
+    }
+    await browserContext.setStorageState(stateFile);
+    response.addTextResult(`Storage state loaded from ${stateFile}.`);
+    response.addCode(`await page.context().setStorageState(${escapeWithQuotes(stateFile, '\'')});`);
+  },
+});
+
+const cookieList = defineTool({
+  capability: 'storage',
+
+  schema: {
+    name: 'browser_cookie_list',
+    title: 'List cookies',
+    description: 'List cookies of the browser context. Cookie values are not returned.',
+    inputSchema: z.object({
+      url: z.string().optional().describe('Only list the cookies that affect this URL. Defaults to all cookies.'),
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (context, params, response) => {
+    const browserContext = await context.currentBrowserContext();
+    const cookies = await browserContext.cookies(params.url);
+    response.addTextResult(cookies.length ? cookies.map(renderCookie).join('\n') : 'No cookies.');
+    response.addCode(`await page.context().cookies(${params.url ? escapeWithQuotes(params.url, '\'') : ''});`);
+  },
+});
+
+const cookieClear = defineTool({
+  capability: 'storage',
+
+  schema: {
+    name: 'browser_cookie_clear',
+    title: 'Clear cookies',
+    description: 'Clear cookies of the browser context',
+    inputSchema: z.object({
+      name: z.string().optional().describe('Only clear the cookies with this name.'),
+      domain: z.string().optional().describe('Only clear the cookies with this domain.'),
+    }),
+    type: 'action',
+  },
+
+  handle: async (context, params, response) => {
+    const browserContext = await context.currentBrowserContext();
+    const options = { name: params.name, domain: params.domain };
+    await browserContext.clearCookies(options);
+    response.addTextResult('Cookies cleared.');
+    response.addCode(`await page.context().clearCookies(${params.name || params.domain ? formatObject(options, ' ', 'oneline') : ''});`);
+  },
+});
+
+function renderCookie(cookie: playwright.Cookie): string {
+  const attributes = [
+    `domain: ${cookie.domain}`,
+    `path: ${cookie.path}`,
+    `expires: ${cookie.expires === -1 ? 'session' : new Date(cookie.expires * 1000).toISOString()}`,
+  ];
+  if (cookie.httpOnly)
+    attributes.push('httpOnly');
+  if (cookie.secure)
+    attributes.push('secure');
+  attributes.push(`sameSite: ${cookie.sameSite}`);
+  return `- ${cookie.name} (${attributes.join(', ')})`;
+}
+
+export default [
+  storageStateSave,
+  storageStateLoad,
+  cookieList,
+  cookieClear,
+];
@@ -23,8 +23,13 @@ export type ToolCapability =
   'core-tabs' |
   'core-install' |
   'core-input' |
+  'a11y' |
+  'contexts' |
+  'emulation' |
+  'network' |
   'vision' |
   'pdf' |
+  'storage' |
   'testing' |
   'tracing';
 
@@ -94,6 +99,27 @@ export type Config = {
      * The scripts will be evaluated in every page before any of the page's scripts.
      */
     initScript?: string[];
+
+    /**
+     * Serve network responses from a HAR file instead of the network.
+     */
+    har?: {
+      /**
+       * Path to the HAR file. Use a `.zip` archive for HAR files with attached content.
+       */
+      path: string;
+
+      /**
+       * Glob pattern to match the request URLs served from the HAR file. Defaults to all requests.
+       */
+      urlFilter?: string;
+
+      /**
+       * What to do with the requests that are not found in the HAR file. "abort" fails them,
+       * "fallback" sends them to the network. Defaults to "abort".
+       */
+      notFound?: 'abort' | 'fallback';
+    };
   },
 
   server?: {
@@ -117,13 +143,20 @@ export type Config = {
   /**
    * List of enabled tool capabilities. Possible values:
    *   - 'core': Core browser automation features.
+   *   - 'a11y': Accessibility audits.
+   *   - 'contexts': Multiple named browser contexts.
+   *   - 'emulation': Device, locale, geolocation and network emulation.
+   *   - 'network': Network request mocking.
    *   - 'pdf': PDF generation and manipulation.
+   *   - 'storage': Storage state and cookie management.
    *   - 'vision': Coordinate-based interactions.
    */
   capabilities?: ToolCapability[];
 
   /**
    * Whether to save the Playwright session into the output directory.
+   * The session is saved as `session.md` for humans and as `session.jsonl`
+   * with one tool call per line, that can be replayed with `playwright-cli replay`.
    */
   saveSession?: boolean;
 
@@ -132,6 +165,26 @@ export type Config = {
    */
   saveTrace?: boolean;
 
+  /**
+   * If specified, saves the network traffic of the session as a HAR file into the output directory.
+   */
+  saveHar?: {
+    /**
+     * Whether to embed response bodies into the HAR file, save them as separate files next to it, or omit them. Defaults to "embed".
+     */
+    content?: 'embed' | 'attach' | 'omit';
+
+    /**
+     * When set to "minimal", only records the information necessary for routing from HAR. Defaults to "full".
+     */
+    mode?: 'full' | 'minimal';
+
+    /**
+     * Glob pattern to filter the recorded requests by URL. Defaults to recording all requests.
+     */
+    urlFilter?: string;
+  };
+
   /**
    * If specified, saves the Playwright video of the session into the output directory.
    */
@@ -147,7 +200,11 @@ export type Config = {
 
   /**
    * Secrets are used to prevent LLM from getting sensitive data while
-   * automating scenarios such as authentication.
+   * automating scenarios such as authentication. Secret values are replaced
+   * with `<secret>NAME</secret>` placeholders in all the tool outputs and the
+   * session log, the placeholders are resolved back when typing or filling text.
+   * Textual files saved by the tools, such as response bodies, are redacted as well.
+   * Files written by the browser itself, such as downloads, HAR archives and traces, are not.
    * Prefer the browser.contextOptions.storageState over secrets file as a more secure alternative.
    */
   secrets?: Record<string, string>;
@@ -210,6 +267,38 @@ export type Config = {
     mode?: 'incremental' | 'full' | 'none';
   };
 
+  /**
+   * Restricts which tools can be called and what they are allowed to do.
+   * Tools are referenced by name, for example "browser_evaluate", or by type: "readOnly", "input", "action" or "assertion".
+   */
+  permissions?: {
+    /**
+     * Tools that can be called. Defaults to all tools.
+     */
+    allowedTools?: string[];
+
+    /**
+     * Tools that cannot be called. Tools matching both `allowedTools` and `deniedTools` are denied.
+     */
+    deniedTools?: string[];
+
+    /**
+     * URL glob patterns the browser is allowed to navigate to, for example "https://example.com/**". Defaults to all URLs.
+     */
+    allowedUrls?: string[];
+
+    /**
+     * Maximum number of "input" and "action" tool calls per session.
+     */
+    maxActions?: number;
+
+    /**
+     * Tools that require the user to confirm each call through an MCP elicitation request,
+     * for example ["browser_evaluate", "browser_run_code", "browser_file_upload"].
+     */
+    confirmTools?: string[];
+  };
+
   /**
    * Whether to allow file uploads from anywhere on the file system.
    * By default (false), file uploads are restricted to paths within the MCP roots only.
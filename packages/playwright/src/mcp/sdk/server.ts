@@ -22,10 +22,10 @@ import * as mcpBundle from 'playwright-core/lib/mcpBundle';
 import { startMcpHttpServer } from './http';
 import { InProcessTransport } from './inProcessTransport';
 
-import type { Tool, CallToolResult, CallToolRequest, Root } from '@modelcontextprotocol/sdk/types.js';
+import type { Tool, CallToolResult, CallToolRequest, Root, Resource, ReadResourceResult, Prompt, GetPromptResult, ElicitRequestFormParams, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
 import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 export type { Server } from '@modelcontextprotocol/sdk/server/index.js';
-export type { Tool, CallToolResult, CallToolRequest, Root } from '@modelcontextprotocol/sdk/types.js';
+export type { Tool, CallToolResult, CallToolRequest, Root, Resource, ReadResourceResult, Prompt, GetPromptResult, ElicitRequestFormParams, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
 import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
 
@@ -39,6 +39,9 @@ export type ClientInfo = {
   timestamp: number;
 };
 
+export type ResourceChanges = { updated: string[], listChanged: boolean };
+export type ElicitCallback = (params: ElicitRequestFormParams) => Promise<ElicitResult>;
+
 export type ProgressParams = { message?: string, progress?: number, total?: number };
 export type ProgressCallback = (params: ProgressParams) => void;
 
@@ -46,8 +49,14 @@ export interface ServerBackend {
   initialize?(clientInfo: ClientInfo): Promise<void>;
   listTools(): Promise<Tool[]>;
   callTool(name: string, args: CallToolRequest['params']['arguments'], progress: ProgressCallback): Promise<CallToolResult>;
+  listResources?(): Promise<Resource[]>;
+  readResource?(uri: string): Promise<ReadResourceResult>;
+  listPrompts?(): Promise<Prompt[]>;
+  getPrompt?(name: string, args: Record<string, string>): Promise<GetPromptResult>;
   serverClosed?(server: Server): void;
   onBrowserContextClosed?: (() => void) | undefined;
+  onResourcesChanged?: ((changes: ResourceChanges) => void) | undefined;
+  elicitInput?: ElicitCallback | undefined;
 }
 
 export type ServerBackendFactory = {
@@ -80,6 +89,8 @@ export function createServer(name: string, version: string, backend: ServerBacke
   const server = new mcpBundle.Server({ name, version }, {
     capabilities: {
       tools: {},
+      ...(backend.listResources ? { resources: { subscribe: true, listChanged: true } } : {}),
+      ...(backend.listPrompts ? { prompts: {} } : {}),
     }
   });
 
@@ -90,6 +101,69 @@ export function createServer(name: string, version: string, backend: ServerBacke
   });
 
   let initializePromise: Promise<void> | undefined;
+  const ensureInitialized = async () => {
+    if (!initializePromise)
+      initializePromise = initializeServer(server, backend, runHeartbeat);
+    await initializePromise;
+  };
+
+  if (backend.listResources && backend.readResource) {
+    const listResources = backend.listResources.bind(backend);
+    const readResource = backend.readResource.bind(backend);
+    const subscriptions = new Set<string>();
+
+    server.setRequestHandler(mcpBundle.ListResourcesRequestSchema, async () => {
+      serverDebug('listResources');
+      await ensureInitialized();
+      return { resources: await listResources() };
+    });
+
+    server.setRequestHandler(mcpBundle.ReadResourceRequestSchema, async request => {
+      serverDebug('readResource', request);
+      await ensureInitialized();
+      return await readResource(request.params.uri);
+    });
+
+    const onResourcesChanged = (changes: ResourceChanges) => {
+      if (changes.listChanged)
+        server.sendResourceListChanged().catch(serverDebug);
+      for (const uri of changes.updated.filter(uri => subscriptions.has(uri)))
+        server.sendResourceUpdated({ uri }).catch(serverDebug);
+    };
+
+    // Collecting the changes is not free, only ask the backend for them while there are subscriptions.
+    server.setRequestHandler(mcpBundle.SubscribeRequestSchema, async request => {
+      subscriptions.add(request.params.uri);
+      backend.onResourcesChanged = onResourcesChanged;
+      return {};
+    });
+
+    server.setRequestHandler(mcpBundle.UnsubscribeRequestSchema, async request => {
+      subscriptions.delete(request.params.uri);
+      if (!subscriptions.size)
+        backend.onResourcesChanged = undefined;
+      return {};
+    });
+  }
+
+  if (backend.listPrompts && backend.getPrompt) {
+    const listPrompts = backend.listPrompts.bind(backend);
+    const getPrompt = backend.getPrompt.bind(backend);
+
+    server.setRequestHandler(mcpBundle.ListPromptsRequestSchema, async () => {
+      serverDebug('listPrompts');
+      return { prompts: await listPrompts() };
+    });
+
+    server.setRequestHandler(mcpBundle.GetPromptRequestSchema, async request => {
+      serverDebug('getPrompt', request);
+      await ensureInitialized();
+      return await getPrompt(request.params.name, request.params.arguments ?? {});
+    });
+  }
+
+  backend.elicitInput = params => server.elicitInput(params);
+
   server.setRequestHandler(mcpBundle.CallToolRequestSchema, async (request, extra) => {
     serverDebug('callTool', request);
 
@@ -109,9 +183,7 @@ export function createServer(name: string, version: string, backend: ServerBacke
     } : () => {};
 
     try {
-      if (!initializePromise)
-        initializePromise = initializeServer(server, backend, runHeartbeat);
-      await initializePromise;
+      await ensureInitialized();
       const toolResult = await backend.callTool(request.params.name, request.params.arguments || {}, progress);
       const mergedResult = mergeTextParts(toolResult);
       serverDebugResponse('callResult', mergedResult);
@@ -23,6 +23,7 @@ export type ToolSchema<Input extends z.Schema> = {
   title: string;
   description: string;
   inputSchema: Input;
+  outputSchema?: z.ZodObject;
   type: 'input' | 'assertion' | 'action' | 'readOnly';
 };
 
@@ -32,6 +33,7 @@ export function toMcpTool(tool: ToolSchema<any>): mcpServer.Tool {
     name: tool.name,
     description: tool.description,
     inputSchema: zod.toJSONSchema(tool.inputSchema) as mcpServer.Tool['inputSchema'],
+    ...(tool.outputSchema ? { outputSchema: zod.toJSONSchema(tool.outputSchema) as mcpServer.Tool['outputSchema'] } : {}),
     annotations: {
       title: tool.title,
       readOnlyHint: readOnly,
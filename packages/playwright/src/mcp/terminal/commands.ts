@@ -118,6 +118,18 @@ const keyup = declareCommand({
   toolParams: ({ key }) => ({ key }),
 });
 
+const tabOrder = declareCommand({
+  name: 'tab-order',
+  description: 'Press Tab repeatedly and list the focused elements in order',
+  category: 'keyboard',
+  args: z.object({}),
+  options: z.object({
+    limit: z.number().optional().describe('Maximum number of Tab presses, defaults to 50'),
+  }),
+  toolName: 'browser_tab_order',
+  toolParams: ({ limit }) => ({ limit }),
+});
+
 // Mouse
 
 const mouseMove = declareCommand({
@@ -288,12 +300,47 @@ const snapshot = declareCommand({
   name: 'snapshot',
   description: 'Capture page snapshot to obtain element ref',
   category: 'core',
-  args: z.object({}),
+  args: z.object({
+    ref: z.string().optional().describe('Exact target element reference from the page snapshot, to only capture the subtree of this element.'),
+  }),
   options: z.object({
     filename: z.string().optional().describe('Save snapshot to markdown file instead of returning it in the response.'),
+    depth: z.number().optional().describe('Maximum depth of the captured tree'),
+    ['max-nodes']: z.number().optional().describe('Maximum number of elements in the snapshot'),
   }),
   toolName: 'browser_snapshot',
-  toolParams: ({ filename }) => ({ filename }),
+  toolParams: ({ ref, filename, depth, ['max-nodes']: maxNodes }) => ({ ref, filename, depth, maxNodes }),
+});
+
+const find = declareCommand({
+  name: 'find',
+  description: 'Find elements in the page snapshot by text, role or regular expression',
+  category: 'core',
+  args: z.object({
+    text: z.string().optional().describe('Case-insensitive text to search for in the element name and text'),
+  }),
+  options: z.object({
+    role: z.string().optional().describe('ARIA role of the element, for example "button"'),
+    regex: z.string().optional().describe('Regular expression to match against the element name and text'),
+    offset: z.number().optional().describe('Number of matches to skip'),
+    limit: z.number().optional().describe('Maximum number of matches to return'),
+  }),
+  toolName: 'browser_find',
+  toolParams: ({ text, role, regex, offset, limit }) => ({ text, role, regex, offset, limit }),
+});
+
+const inspect = declareCommand({
+  name: 'inspect',
+  description: 'Inspect element attributes, box, state, computed styles and locators',
+  category: 'core',
+  args: z.object({
+    ref: z.string().describe('Exact target element reference from the page snapshot'),
+  }),
+  options: z.object({
+    styles: z.string().optional().describe('Comma-separated computed CSS properties to return'),
+  }),
+  toolName: 'browser_inspect',
+  toolParams: ({ ref, styles }) => ({ ref, styles: styles?.split(',').map(style => style.trim()) }),
 });
 
 const evaluate = declareCommand({
@@ -340,6 +387,35 @@ const resize = declareCommand({
   toolParams: ({ w: width, h: height }) => ({ width, height }),
 });
 
+const emulate = declareCommand({
+  name: 'emulate',
+  description: 'Emulate a device, locale, timezone, color scheme, geolocation or offline mode',
+  category: 'core',
+  args: z.object({}),
+  options: z.object({
+    device: z.string().optional().describe('Device to emulate, for example "iPhone 15"'),
+    locale: z.string().optional().describe('Locale, for example "de-DE"'),
+    timezone: z.string().optional().describe('Timezone, for example "Europe/Berlin"'),
+    ['color-scheme']: z.enum(['light', 'dark', 'no-preference']).optional().describe('Preferred color scheme'),
+    geolocation: z.string().optional().describe('Geolocation as "latitude,longitude"'),
+    offline: z.boolean().optional().describe('Emulate the network being offline, use --no-offline to go back online'),
+    permissions: z.string().optional().describe('Comma-separated list of permissions to grant, empty to revoke all'),
+  }),
+  toolName: 'browser_emulate',
+  toolParams: ({ device, locale, timezone, ['color-scheme']: colorScheme, geolocation, offline, permissions }) => {
+    const [latitude, longitude] = geolocation?.split(',').map(Number) ?? [];
+    return {
+      device,
+      locale,
+      timezoneId: timezone,
+      colorScheme,
+      geolocation: geolocation ? { latitude, longitude } : undefined,
+      offline,
+      permissions: permissions?.split(',').map(permission => permission.trim()).filter(Boolean),
+    };
+  },
+});
+
 // Tabs
 
 const tabList = declareCommand({
@@ -384,6 +460,52 @@ const tabSelect = declareCommand({
   toolParams: ({ index }) => ({ action: 'select', index }),
 });
 
+const contextNew = declareCommand({
+  name: 'context-new',
+  description: 'Create an isolated browser context with its own cookies and storage',
+  category: 'tabs',
+  args: z.object({
+    name: z.string().describe('Name of the browser context'),
+  }),
+  options: z.object({
+    device: z.string().optional().describe('Device to emulate, for example "iPhone 15"'),
+    ['storage-state']: z.string().optional().describe('Storage state file to start the browser context with'),
+  }),
+  toolName: 'browser_context_new',
+  toolParams: ({ name, device, ['storage-state']: storageState }) => ({ name, device, storageState }),
+});
+
+const contextList = declareCommand({
+  name: 'context-list',
+  description: 'List browser contexts',
+  category: 'tabs',
+  args: z.object({}),
+  toolName: 'browser_context_list',
+  toolParams: () => ({}),
+});
+
+const contextSelect = declareCommand({
+  name: 'context-select',
+  description: 'Select a browser context',
+  category: 'tabs',
+  args: z.object({
+    name: z.string().describe('Name of the browser context, "default" for the initial one'),
+  }),
+  toolName: 'browser_context_select',
+  toolParams: ({ name }) => ({ name }),
+});
+
+const contextClose = declareCommand({
+  name: 'context-close',
+  description: 'Close a browser context and all its tabs',
+  category: 'tabs',
+  args: z.object({
+    name: z.string().describe('Name of the browser context'),
+  }),
+  toolName: 'browser_context_close',
+  toolParams: ({ name }) => ({ name }),
+});
+
 // Export
 
 const screenshot = declareCommand({
@@ -401,6 +523,24 @@ const screenshot = declareCommand({
   toolParams: ({ ref, filename, ['full-page']: fullPage }) => ({ filename, ref, fullPage }),
 });
 
+const compareScreenshot = declareCommand({
+  name: 'compare-screenshot',
+  description: 'Compare screenshot of the current page or element with a baseline',
+  category: 'export',
+  args: z.object({
+    baseline: z.string().describe('File name of the baseline PNG screenshot, relative to the output directory.'),
+    ref: z.string().optional().describe('Exact target element reference from the page snapshot.'),
+  }),
+  options: z.object({
+    ['full-page']: z.boolean().optional().describe('When true, compares the full scrollable page, instead of the currently visible viewport.'),
+    threshold: z.number().optional().describe('Acceptable perceived color difference between the same pixel in compared images, between 0 and 1.'),
+    ['max-diff-pixel-ratio']: z.number().optional().describe('Acceptable ratio of different pixels to the total amount of pixels, between 0 and 1.'),
+    update: z.boolean().optional().describe('Overwrite the baseline with the current screenshot.'),
+  }),
+  toolName: 'browser_compare_screenshot',
+  toolParams: ({ baseline, ref, ['full-page']: fullPage, threshold, ['max-diff-pixel-ratio']: maxDiffPixelRatio, update }) => ({ baseline, ref, fullPage, threshold, maxDiffPixelRatio, update }),
+});
+
 const pdfSave = declareCommand({
   name: 'pdf',
   description: 'Save page as PDF',
@@ -413,6 +553,159 @@ const pdfSave = declareCommand({
   toolParams: ({ filename }) => ({ filename }),
 });
 
+const exportTest = declareCommand({
+  name: 'export-test',
+  description: 'Export the session as a Playwright test file',
+  category: 'export',
+  args: z.object({}),
+  options: z.object({
+    filename: z.string().optional().describe('File name to save the test to. Defaults to `test-{timestamp}.spec.ts` if not specified.'),
+    title: z.string().optional().describe('Title of the test'),
+  }),
+  toolName: 'browser_export_test',
+  toolParams: ({ filename, title }) => ({ filename, title }),
+});
+
+// Storage
+
+const stateSave = declareCommand({
+  name: 'state-save',
+  description: 'Save cookies, localStorage and IndexedDB into a file',
+  category: 'storage',
+  args: z.object({
+    filename: z.string().optional().describe('File name to save the storage state to. Defaults to `storage-state-{timestamp}.json` if not specified.'),
+  }),
+  toolName: 'browser_storage_state_save',
+  toolParams: ({ filename }) => ({ filename }),
+});
+
+const stateLoad = declareCommand({
+  name: 'state-load',
+  description: 'Load cookies, localStorage and IndexedDB from a file',
+  category: 'storage',
+  args: z.object({
+    filename: z.string().describe('Path to the storage state file, relative paths are resolved against the output directory'),
+  }),
+  toolName: 'browser_storage_state_load',
+  toolParams: ({ filename }) => ({ filename }),
+});
+
+const cookieList = declareCommand({
+  name: 'cookie-list',
+  description: 'List cookies without their values',
+  category: 'storage',
+  args: z.object({
+    url: z.string().optional().describe('Only list the cookies that affect this URL'),
+  }),
+  toolName: 'browser_cookie_list',
+  toolParams: ({ url }) => ({ url }),
+});
+
+const cookieClear = declareCommand({
+  name: 'cookie-clear',
+  description: 'Clear cookies',
+  category: 'storage',
+  args: z.object({}),
+  options: z.object({
+    name: z.string().optional().describe('Only clear the cookies with this name'),
+    domain: z.string().optional().describe('Only clear the cookies with this domain'),
+  }),
+  toolName: 'browser_cookie_clear',
+  toolParams: ({ name, domain }) => ({ name, domain }),
+});
+
+// Network
+
+const route = declareCommand({
+  name: 'route',
+  description: 'Mock network requests matching a URL pattern',
+  category: 'network',
+  args: z.object({
+    url: z.string().describe('URL glob pattern to match, for example "**/api/users"'),
+  }),
+  options: z.object({
+    ['status']: z.number().optional().describe('HTTP status code of the mock response'),
+    ['body']: z.string().optional().describe('Body of the mock response'),
+    ['content-type']: z.string().optional().describe('Content type of the mock response'),
+    ['header']: z.union([z.string(), z.array(z.string())]).optional().describe('Header in "Name: Value" format, can be specified multiple times'),
+    ['abort']: z.string().optional().describe('Abort matching requests with the given network error code, for example "failed"'),
+  }),
+  toolName: 'browser_route',
+  toolParams: ({ url, status, body, ['content-type']: contentType, header, abort }) => ({ url, status, body, contentType, headers: parseHeaders(header), abort }),
+});
+
+const routeList = declareCommand({
+  name: 'route-list',
+  description: 'List active network mocks',
+  category: 'network',
+  args: z.object({}),
+  toolName: 'browser_route_list',
+  toolParams: () => ({}),
+});
+
+const unroute = declareCommand({
+  name: 'unroute',
+  description: 'Remove network mocks',
+  category: 'network',
+  args: z.object({
+    url: z.string().optional().describe('URL glob pattern of the route to remove. If omitted, all routes are removed.'),
+  }),
+  toolName: 'browser_unroute',
+  toolParams: ({ url }) => ({ url }),
+});
+
+const routeFromHar = declareCommand({
+  name: 'route-from-har',
+  description: 'Serve network responses from a HAR file',
+  category: 'network',
+  args: z.object({
+    filename: z.string().describe('Path to the HAR file, relative paths are resolved against the output directory'),
+  }),
+  options: z.object({
+    ['url-filter']: z.string().optional().describe('Glob pattern to match the request URLs served from the HAR file'),
+    ['not-found']: z.string().optional().describe('Whether to "abort" the requests not found in the HAR file or "fallback" to the network'),
+  }),
+  toolName: 'browser_route_from_har',
+  toolParams: ({ filename, ['url-filter']: urlFilter, ['not-found']: notFound }) => ({ filename, urlFilter, notFound }),
+});
+
+const harStart = declareCommand({
+  name: 'har-start',
+  description: 'Start recording network traffic into a HAR file',
+  category: 'network',
+  args: z.object({
+    filename: z.string().optional().describe('File name to save the HAR to, use `.zip` extension to save a zip archive'),
+  }),
+  options: z.object({
+    ['content']: z.string().optional().describe('Whether to "embed" response bodies, "attach" them as separate files or "omit" them'),
+    ['url-filter']: z.string().optional().describe('Glob pattern to filter the recorded requests by URL'),
+  }),
+  toolName: 'browser_har_start',
+  toolParams: ({ filename, content, ['url-filter']: urlFilter }) => ({ filename, content, urlFilter }),
+});
+
+const harStop = declareCommand({
+  name: 'har-stop',
+  description: 'Stop recording network traffic and save the HAR file',
+  category: 'network',
+  args: z.object({}),
+  toolName: 'browser_har_stop',
+  toolParams: () => ({}),
+});
+
+function parseHeaders(header: string | string[] | undefined): Record<string, string> | undefined {
+  if (!header)
+    return undefined;
+  const headers: Record<string, string> = {};
+  for (const entry of Array.isArray(header) ? header : [header]) {
+    const separator = entry.indexOf(':');
+    if (separator === -1)
+      throw new Error(`Invalid header "${entry}", use "Name: Value" format`);
+    headers[entry.substring(0, separator).trim()] = entry.substring(separator + 1).trim();
+  }
+  return headers;
+}
+
 // DevTools
 
 const consoleList = declareCommand({
@@ -442,6 +735,51 @@ const networkRequests = declareCommand({
   toolParams: ({ static: includeStatic, clear }) => clear ? ({}) : ({ includeStatic }),
 });
 
+const networkRequest = declareCommand({
+  name: 'network-request',
+  description: 'Show headers, body and timing of a network request',
+  category: 'devtools',
+  args: z.object({
+    index: z.number().describe('Index of the request as listed by the network command'),
+  }),
+  toolName: 'browser_network_request',
+  toolParams: ({ index }) => ({ index }),
+});
+
+const downloadList = declareCommand({
+  name: 'downloads',
+  description: 'List files downloaded by the page',
+  category: 'devtools',
+  toolName: 'browser_downloads',
+  toolParams: () => ({}),
+});
+
+const downloadRead = declareCommand({
+  name: 'download-read',
+  description: 'Show the content of a downloaded file',
+  category: 'devtools',
+  args: z.object({
+    index: z.number().describe('Index of the download as listed by the downloads command'),
+  }),
+  options: z.object({
+    ['max-length']: z.number().optional().describe('Maximum number of characters of text content to show'),
+  }),
+  toolName: 'browser_download_read',
+  toolParams: ({ index, ['max-length']: maxLength }) => ({ index, maxLength }),
+});
+
+const a11yAudit = declareCommand({
+  name: 'a11y-audit',
+  description: 'Audit the page for accessibility issues',
+  category: 'devtools',
+  args: z.object({}),
+  options: z.object({
+    ['focus-traps']: z.boolean().optional().describe('Also detect keyboard focus traps by pressing Tab through the page'),
+  }),
+  toolName: 'browser_a11y_audit',
+  toolParams: ({ ['focus-traps']: focusTraps }) => ({ focusTraps }),
+});
+
 const runCode = declareCommand({
   name: 'run-code',
   description: 'Run Playwright code snippet',
@@ -512,6 +850,17 @@ const sessionDelete = declareCommand({
   toolParams: ({ name }) => ({ name }),
 });
 
+const replay = declareCommand({
+  name: 'replay',
+  description: 'Replay tool calls from a session.jsonl log in a fresh browser, stopping at the first divergence',
+  category: 'session',
+  args: z.object({
+    file: z.string().describe('Path to the session.jsonl log saved with --save-session'),
+  }),
+  toolName: '',
+  toolParams: () => ({}),
+});
+
 const config = declareCommand({
   name: 'config',
   description: 'Restart session with new config, defaults to `playwright-cli.json`',
@@ -538,11 +887,14 @@ const commandsArray: AnyCommandSchema[] = [
   check,
   uncheck,
   snapshot,
+  find,
+  inspect,
   evaluate,
   consoleList,
   dialogAccept,
   dialogDismiss,
   resize,
+  emulate,
 
   // navigation category
   goBack,
@@ -553,6 +905,7 @@ const commandsArray: AnyCommandSchema[] = [
   pressKey,
   keydown,
   keyup,
+  tabOrder,
 
   // mouse category
   mouseMove,
@@ -562,19 +915,43 @@ const commandsArray: AnyCommandSchema[] = [
 
   // export category
   screenshot,
+  compareScreenshot,
   pdfSave,
+  exportTest,
 
   // tabs category
   tabList,
   tabNew,
   tabClose,
   tabSelect,
+  contextNew,
+  contextList,
+  contextSelect,
+  contextClose,
+
+  // storage category
+  stateSave,
+  stateLoad,
+  cookieList,
+  cookieClear,
+
+  // network category
+  route,
+  routeList,
+  unroute,
+  routeFromHar,
+  harStart,
+  harStop,
 
   // config
   config,
 
   // devtools category
   networkRequests,
+  networkRequest,
+  downloadList,
+  downloadRead,
+  a11yAudit,
   runCode,
   tracingStart,
   tracingStop,
@@ -584,6 +961,7 @@ const commandsArray: AnyCommandSchema[] = [
   sessionStop,
   sessionStopAll,
   sessionDelete,
+  replay,
 ];
 
 export const commands = Object.fromEntries(commandsArray.map(cmd => [cmd.name, cmd]));
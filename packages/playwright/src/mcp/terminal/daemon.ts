@@ -31,6 +31,7 @@ import type { ServerBackendFactory } from '../sdk/server';
 import type * as mcp from '../sdk/exports';
 import type { StructuredResponse } from './program';
 import type { Section } from '../browser/response';
+import type { StructuredOutput } from '../browser/outputSchema';
 
 const daemonDebug = debug('pw:daemon');
 
@@ -96,6 +97,9 @@ export async function startMcpDaemonServer(
           const { toolName, toolParams } = parseCliCommand(params.args);
           const response = await backend.callTool(toolName, toolParams, () => {});
           await connection.send({ id, result: formatResult(response) });
+        } else if (method === 'callTool') {
+          const response = await backend.callTool(params.name, params.args, () => {});
+          await connection.send({ id, result: formatResult(response) });
         } else {
           throw new Error(`Unknown method: ${method}`);
         }
@@ -129,7 +133,7 @@ function formatResult(result: mcp.CallToolResult): StructuredResponse {
   const isError = result.isError;
   const text = result.content[0].type === 'text' ? result.content[0].text : undefined;
   const sections = result.content[0]._meta?.sections as Section[];
-  return { isError, text, sections };
+  return { isError, text, sections, structuredContent: result.structuredContent as StructuredOutput | undefined };
 }
 
 function parseCliCommand(args: Record<string, string> & { _: string[] }): { toolName: string, toolParams: mcp.CallToolRequest['params']['arguments'] } {
@@ -71,6 +71,7 @@ const categories: { name: Category, title: string }[] = [
   { name: 'export', title: 'Save as' },
   { name: 'tabs', title: 'Tabs' },
   { name: 'storage', title: 'Storage' },
+  { name: 'network', title: 'Network' },
   { name: 'devtools', title: 'DevTools' },
   { name: 'config', title: 'Configuration' },
   { name: 'session', title: 'Sessions' },
@@ -100,6 +101,7 @@ export function generateHelp() {
   lines.push(formatWithGap('  --extension', 'connect to a running browser instance using Playwright MCP Bridge extension'));
   lines.push(formatWithGap('  --headed', 'create a headed session'));
   lines.push(formatWithGap('  --help [command]', 'print help'));
+  lines.push(formatWithGap('  --json', 'print the command output as JSON'));
   lines.push(formatWithGap('  --session', 'run command in the scope of a specific session'));
   lines.push(formatWithGap('  --version', 'print version'));
 
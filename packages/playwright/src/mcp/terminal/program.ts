@@ -27,11 +27,14 @@ import path from 'path';
 import { SocketConnection } from './socketConnection';
 
 import type { Section } from '../browser/response';
+import type { StructuredOutput } from '../browser/outputSchema';
+import type { ToolCallLogEntry } from '../browser/sessionLog';
 
 export type StructuredResponse = {
   isError?: boolean;
   text?: string;
   sections: Section[];
+  structuredContent?: StructuredOutput;
 };
 
 type SessionOptions = { config?: string, headed?: boolean, extension?: boolean };
@@ -54,6 +57,10 @@ class Session {
     return await this._send('run', { args });
   }
 
+  async callTool(name: string, args: any): Promise<StructuredResponse> {
+    return await this._send('callTool', { name, args });
+  }
+
   async stop(): Promise<void> {
     if (!await this.canConnect()) {
       console.log(`Session '${this.name}' is not running.`);
@@ -292,7 +299,10 @@ class SessionManager {
     }
 
     const result = await session.run(args);
-    await printResponse(result);
+    if (args.json)
+      printJsonResponse(result);
+    else
+      await printResponse(result);
     session.close();
   }
 
@@ -329,6 +339,48 @@ class SessionManager {
     session.close();
   }
 
+  async replay(args: any): Promise<void> {
+    const logFile = args._[1];
+    if (!logFile) {
+      console.error('Session log file is required, for example `playwright-cli replay session.jsonl`.');
+      process.exit(1);
+    }
+    const entries: ToolCallLogEntry[] = (await fs.promises.readFile(path.resolve(logFile), 'utf-8'))
+        .split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+
+    // Replay in a dedicated session, never in a session that the user works with.
+    const sessionName = args.session || 'replay';
+    const existingSession = this.sessions.get(sessionName);
+    if (existingSession && (args.session || await existingSession.canConnect())) {
+      console.error(`Session '${sessionName}' already exists, pass a new session name with --session.`);
+      process.exit(1);
+    }
+    const session = new Session(sessionName, args);
+    this.sessions.set(sessionName, session);
+    // Start with no user data left from the previous replays.
+    if (existingSession)
+      await session.delete();
+
+    let divergence: string | undefined;
+    try {
+      for (let i = 0; i < entries.length && !divergence; i++) {
+        const entry = entries[i];
+        console.log(`- [${i + 1}/${entries.length}] ${entry.name}`);
+        const result = await session.callTool(entry.name, entry.args);
+        const entryDivergence = replayDivergence(entry, result);
+        if (entryDivergence)
+          divergence = `Replay diverged at tool call ${i + 1} (${entry.name}): ${entryDivergence}`;
+      }
+    } finally {
+      await session.stop();
+    }
+    if (divergence) {
+      console.log(`\n${divergence}`);
+      process.exit(1);
+    }
+    console.log(`\nReplayed ${entries.length} tool calls.`);
+  }
+
   private _resolveSessionName(sessionName?: string): string {
     if (sessionName)
       return sessionName;
@@ -402,7 +454,7 @@ const daemonProfilesDir = (() => {
 export async function program(options: { version: string }) {
   const argv = process.argv.slice(2);
   const args = require('minimist')(argv, {
-    boolean: ['help', 'version', 'headed', 'extension'],
+    boolean: ['help', 'version', 'headed', 'extension', 'json'],
   });
   if (!argv.includes('--headed') && !argv.includes('--no-headed'))
     delete args.headed;
@@ -450,6 +502,11 @@ export async function program(options: { version: string }) {
     return;
   }
 
+  if (commandName === 'replay') {
+    await sessionManager.replay(args);
+    return;
+  }
+
   await sessionManager.run(args);
 }
 
@@ -484,6 +541,25 @@ export async function printResponse(response: StructuredResponse) {
   console.log(text.join('\n'));
 }
 
+function printJsonResponse(response: StructuredResponse) {
+  console.log(JSON.stringify(response.structuredContent ?? { error: response.text }, null, 2));
+}
+
+function replayDivergence(entry: ToolCallLogEntry, result: StructuredResponse): string | undefined {
+  const recordedError = !!entry.error || !!entry.sections?.some(section => section.isError);
+  if (!recordedError && result.isError)
+    return `the tool call failed.\n${result.sections?.find(section => section.isError)?.content[0]?.text ?? result.text}`;
+  const expected = snapshotText(entry.sections);
+  const actual = snapshotText(result.sections);
+  if (expected === undefined || expected === actual)
+    return undefined;
+  return `the snapshot is different.\n### Expected snapshot\n${expected}\n### Actual snapshot\n${actual ?? '<none>'}`;
+}
+
+function snapshotText(sections: Section[] | undefined): string | undefined {
+  return sections?.find(section => section.title === 'Snapshot')?.content[0]?.text;
+}
+
 function dateAsFileName(prefix: string, extension: string): string {
   const date = new Date();
   return `${prefix}-${date.toISOString().replace(/[:.]/g, '-')}.${extension}`;
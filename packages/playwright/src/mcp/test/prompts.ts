@@ -0,0 +1,50 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { parseAgentSpec } from '../../agents/agentParser';
+
+import type * as mcp from '../sdk/exports';
+import type { AgentSpec } from '../../agents/agentParser';
+
+const agentsFolder = path.join(__dirname, '..', '..', 'agents');
+
+async function loadAgentSpecs(): Promise<AgentSpec[]> {
+  const files = await fs.promises.readdir(agentsFolder);
+  return Promise.all(files.filter(file => file.endsWith('.agent.md')).map(file => parseAgentSpec(path.join(agentsFolder, file))));
+}
+
+export async function listPrompts(): Promise<mcp.Prompt[]> {
+  const specs = await loadAgentSpecs();
+  return specs.map(spec => ({
+    name: spec.name,
+    description: spec.description,
+    arguments: [{ name: 'task', description: 'What the agent should do, for example "Create a test plan for the checkout flow".' }],
+  }));
+}
+
+export async function getPrompt(name: string, args: Record<string, string>): Promise<mcp.GetPromptResult> {
+  const spec = (await loadAgentSpecs()).find(spec => spec.name === name);
+  if (!spec)
+    throw new Error(`Prompt "${name}" not found.`);
+  const text = args.task ? `${spec.instructions}\n\n# Task\n\n${args.task}` : spec.instructions;
+  return {
+    description: spec.description,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
@@ -14,6 +14,10 @@
  * limitations under the License.
  */
 
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
 import { z as zod } from 'playwright-core/lib/mcpBundle';
 
 import * as mcp from '../sdk/exports';
@@ -22,6 +26,8 @@ import * as testTools from './testTools.js';
 import * as generatorTools from './generatorTools.js';
 import * as plannerTools from './plannerTools.js';
 import { browserTools } from '../browser/tools';
+import { listFiles } from '../browser/resources';
+import { getPrompt, listPrompts } from './prompts';
 
 import type { TestTool } from './testTool';
 import type { Tool as BrowserTool } from '../browser/tools/tool';
@@ -69,6 +75,36 @@ export class TestServerBackend implements mcp.ServerBackend {
     }
   }
 
+  async listResources(): Promise<mcp.Resource[]> {
+    return (await this._testPlans()).map(file => ({
+      uri: pathToFileURL(file).href,
+      name: path.relative(this._context!.rootPath, file),
+      title: 'Test plan',
+      mimeType: 'text/markdown',
+    }));
+  }
+
+  async readResource(uri: string): Promise<mcp.ReadResourceResult> {
+    const file = uri.startsWith('file:') ? fileURLToPath(uri) : undefined;
+    if (!file || !(await this._testPlans()).includes(file))
+      throw new Error(`Resource ${uri} not found.`);
+    return { contents: [{ uri, mimeType: 'text/markdown', text: await fs.promises.readFile(file, 'utf-8') }] };
+  }
+
+  async listPrompts(): Promise<mcp.Prompt[]> {
+    return await listPrompts();
+  }
+
+  async getPrompt(name: string, args: Record<string, string>): Promise<mcp.GetPromptResult> {
+    return await getPrompt(name, args);
+  }
+
+  private async _testPlans(): Promise<string[]> {
+    // The planner agent saves the test plans under the specs folder.
+    const files = await listFiles(path.join(this._context!.rootPath, 'specs'));
+    return files.filter(file => file.endsWith('.md'));
+  }
+
   serverClosed() {
     void this._context?.close();
   }
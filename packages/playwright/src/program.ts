@@ -29,10 +29,13 @@ import { terminalScreen } from './reporters/base';
 import { showHTMLReport } from './reporters/html';
 import { createMergedReport } from './reporters/merge';
 import { filterProjects } from './runner/projectUtils';
+import { formatTestTrends, readRunHistory, runHistoryFile } from './runner/runHistory';
 import * as testServer from './runner/testServer';
 import { runWatchModeLoop } from './runner/watchMode';
 import { runAllTestsWithConfig, TestRunner } from './runner/testRunner';
 import { createErrorCollectingReporter } from './runner/reporters';
+import { computeTestTrends, isFailingOrFlakyTrend } from './isomorphic/runHistory';
+import { forceRegExp } from './util';
 import * as mcp from './mcp/sdk/exports';
 import { TestServerBackend } from './mcp/test/testBackend';
 import { decorateCommand } from './mcp/program';
@@ -147,6 +150,30 @@ Examples:
   $ npx playwright merge-reports playwright-report`);
 }
 
+function addHistoryCommand(program: Command) {
+  const command = program.command('history [test-filter...]');
+  command.description('show test trends across the recorded runs');
+  command.action(async (args, options) => {
+    try {
+      await showHistory(args, options);
+    } catch (e) {
+      console.error(e);
+      gracefullyProcessExitDoNotHang(1);
+    }
+  });
+  command.option('-c, --config <file>', `Configuration file, or a test directory with optional "playwright.config.{m,c}?{js,ts}"`);
+  command.option('--project <project-name...>', `Only show tests from the specified list of projects, supports '*' wildcard (default: show all projects)`);
+  command.option('--all', `Also show tests that passed in all the recorded runs`);
+  command.option('--json', `Print the trends as JSON`);
+  command.addHelpText('afterAll', `
+Arguments [test-filter...]:
+  Pass arguments to filter test titles, like in "npx playwright test".
+
+Examples:
+  $ npx playwright history
+  $ npx playwright history my.spec.ts --project=chromium`);
+}
+
 function addBrowserMCPServerCommand(program: Command) {
   const command = program.command('run-mcp-server', { hidden: true });
   command.description('Interact with the browser over MCP');
@@ -287,6 +314,39 @@ async function mergeReports(reportDir: string | undefined, opts: { [key: string]
   gracefullyProcessExitDoNotHang(0);
 }
 
+async function showHistory(args: string[], opts: { [key: string]: any }) {
+  const config = await loadConfigFromFile(opts.config);
+  config.cliProjectFilter = opts.project || undefined;
+  const projects = new Set(filterProjects(config.projects, config.cliProjectFilter).map(p => p.project.name));
+  if (!config.runHistory) {
+    console.log('Run history is not recorded, enable it with "runHistory: true" in the config.');
+    gracefullyProcessExitDoNotHang(0);
+    return;
+  }
+  const file = runHistoryFile(config);
+  const runs = file ? await readRunHistory(file) : [];
+  if (!runs.length) {
+    console.log('No test runs recorded yet.');
+    gracefullyProcessExitDoNotHang(0);
+    return;
+  }
+  const titleFilters = args.map(arg => forceRegExp(arg));
+  const trends = computeTestTrends(runs).filter(trend => {
+    if (!projects.has(trend.project))
+      return false;
+    if (titleFilters.length && !titleFilters.some(filter => trend.title.match(filter)))
+      return false;
+    return opts.all || isFailingOrFlakyTrend(trend);
+  });
+  if (opts.json)
+    console.log(JSON.stringify({ runs: runs.length, tests: trends }, undefined, 2));
+  else if (trends.length)
+    console.log(formatTestTrends(runs, trends));
+  else
+    console.log(`No failing or flaky tests in the ${runs.length} recorded runs.`);
+  gracefullyProcessExitDoNotHang(0);
+}
+
 function overridesFromOptions(options: { [key: string]: any }): ConfigCLIOverrides {
   const overrides: ConfigCLIOverrides = {
     failOnFlakyTests: options.failOnFlakyTests ? true : undefined,
@@ -443,6 +503,7 @@ const testOptions: [string, { description: string, choices?: string[], preset?:
 addTestCommand(program);
 addShowReportCommand(program);
 addMergeReportsCommand(program);
+addHistoryCommand(program);
 addClearCacheCommand(program);
 addBrowserMCPServerCommand(program);
 addTestMCPServerCommand(program);
@@ -20,10 +20,14 @@ import { getPackageManagerExecCommand, parseErrorStack } from 'playwright-core/l
 import { ms as milliseconds } from 'playwright-core/lib/utilsBundle';
 import { colors as realColors, noColors } from 'playwright-core/lib/utils';
 
+import { isQuarantined } from '../common/quarantine';
 import { ansiRegex, resolveReporterOutputPath, stripAnsiEscapes } from '../util';
 import { getEastAsianWidth } from '../utilsBundle';
 
 import type { ReporterV2 } from './reporterV2';
+import type { QuarantineReport } from '../common/quarantine';
+import type { CoverageSummary } from '../isomorphic/coverage';
+import type { RunHistoryRun } from '../isomorphic/runHistory';
 import type { FullConfig, FullResult, Location, Suite, TestCase, TestError, TestResult, TestStep } from '../../types/testReporter';
 import type { Colors } from '@isomorphic/colors';
 
@@ -42,6 +46,8 @@ type TestSummary = {
   interrupted: TestCase[];
   unexpected: TestCase[];
   flaky: TestCase[];
+  quarantined: TestCase[];
+  stable: string[];
   failuresToPrint: TestCase[];
   fatalErrors: TestError[];
 };
@@ -50,6 +56,8 @@ export type CommonReporterOptions = {
   configDir: string,
   _mode?: 'list' | 'test' | 'merge',
   _commandHash?: string,
+  _runHistory?: () => RunHistoryRun[],
+  _coverage?: () => CoverageSummary | undefined,
 };
 
 export type Screen = {
@@ -145,6 +153,7 @@ export type TerminalReporterOptions = {
   screen?: TerminalScreen;
   omitFailures?: boolean;
   includeTestId?: boolean;
+  _quarantineReport?: () => QuarantineReport | undefined;
 };
 
 export class TerminalReporter implements ReporterV2 {
@@ -238,7 +247,7 @@ export class TerminalReporter implements ReporterV2 {
     return fileDurations.filter(([, duration]) => duration > threshold).slice(0, count);
   }
 
-  protected generateSummaryMessage({ didNotRun, skipped, expected, interrupted, unexpected, flaky, fatalErrors }: TestSummary) {
+  protected generateSummaryMessage({ didNotRun, skipped, expected, interrupted, unexpected, flaky, quarantined, stable, fatalErrors }: TestSummary) {
     const tokens: string[] = [];
     if (unexpected.length) {
       tokens.push(this.screen.colors.red(`  ${unexpected.length} failed`));
@@ -255,13 +264,23 @@ export class TerminalReporter implements ReporterV2 {
       for (const test of flaky)
         tokens.push(this.screen.colors.yellow(this.formatTestHeader(test, { indent: '    ' })));
     }
+    if (quarantined.length) {
+      tokens.push(this.screen.colors.yellow(`  ${quarantined.length} quarantined`));
+      for (const test of quarantined)
+        tokens.push(this.screen.colors.yellow(this.formatTestHeader(test, { indent: '    ' })));
+    }
+    if (stable.length) {
+      tokens.push(this.screen.colors.green(`  ${stable.length} stable in quarantine, can be un-quarantined`));
+      for (const key of stable)
+        tokens.push(this.screen.colors.green(`    ${key}`));
+    }
     if (skipped)
       tokens.push(this.screen.colors.yellow(`  ${skipped} skipped`));
     if (didNotRun)
       tokens.push(this.screen.colors.yellow(`  ${didNotRun} did not run`));
     if (expected)
       tokens.push(this.screen.colors.green(`  ${expected} passed`) + this.screen.colors.dim(` (${milliseconds(this.result.duration)})`));
-    if (fatalErrors.length && expected + unexpected.length + interrupted.length + flaky.length > 0)
+    if (fatalErrors.length && expected + unexpected.length + interrupted.length + flaky.length + quarantined.length > 0)
       tokens.push(this.screen.colors.red(`  ${fatalErrors.length === 1 ? '1 error was not a part of any test' : fatalErrors.length + ' errors were not a part of any test'}, see above for details`));
 
     return tokens.join('\n');
@@ -275,9 +294,16 @@ export class TerminalReporter implements ReporterV2 {
     const interruptedToPrint: TestCase[] = [];
     const unexpected: TestCase[] = [];
     const flaky: TestCase[] = [];
+    // Failing and flaky quarantined tests are reported separately, they do not fail the run.
+    const quarantined: TestCase[] = [];
 
     this.suite.allTests().forEach(test => {
-      switch (test.outcome()) {
+      const outcome = test.outcome();
+      if ((outcome === 'unexpected' || outcome === 'flaky') && isQuarantined(test)) {
+        quarantined.push(test);
+        return;
+      }
+      switch (outcome) {
         case 'skipped': {
           if (test.results.some(result => result.status === 'interrupted')) {
             if (test.results.some(result => !!result.error))
@@ -296,7 +322,7 @@ export class TerminalReporter implements ReporterV2 {
       }
     });
 
-    const failuresToPrint = [...unexpected, ...flaky, ...interruptedToPrint];
+    const failuresToPrint = [...unexpected, ...flaky, ...quarantined, ...interruptedToPrint];
     return {
       didNotRun,
       skipped,
@@ -304,6 +330,8 @@ export class TerminalReporter implements ReporterV2 {
       interrupted,
       unexpected,
       flaky,
+      quarantined,
+      stable: this._options._quarantineReport?.()?.stable ?? [],
       failuresToPrint,
       fatalErrors: this._fatalErrors,
     };
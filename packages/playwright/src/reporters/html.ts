@@ -25,10 +25,13 @@ import { mime } from 'playwright-core/lib/utilsBundle';
 import { yazl } from 'playwright-core/lib/zipBundle';
 
 import { CommonReporterOptions, formatError, formatResultFailure, internalScreen } from './base';
+import { computeTestTrends, isFailingOrFlakyTrend } from '../isomorphic/runHistory';
 import { codeFrameColumns } from '../transform/babelBundle';
 import { resolveReporterOutputPath, stripAnsiEscapes } from '../util';
 
 import type { MachineEndResult, ReporterV2 } from './reporterV2';
+import type { CoverageSummary } from '../isomorphic/coverage';
+import type { RunHistoryRun } from '../isomorphic/runHistory';
 import type { HtmlReporterOptions as HtmlReporterConfigOptions, Metadata, TestAnnotation } from '../../types/test';
 import type * as api from '../../types/testReporter';
 import type { HTMLReport, HTMLReportOptions, Location, Stats, TestAttachment, TestCase, TestCaseSummary, TestFile, TestFileSummary, TestResult, TestStep } from '@html-reporter/types';
@@ -148,7 +151,8 @@ class HtmlReporter implements ReporterV2 {
       noSnippets,
       noCopyPrompt,
     });
-    this._buildResult = await builder.build(this.config.metadata, projectSuites, result, this._topLevelErrors, this._machines);
+    const runs = this._options._runHistory?.() ?? [];
+    this._buildResult = await builder.build(this.config.metadata, projectSuites, result, this._topLevelErrors, this._machines, runs, this._options._coverage?.());
   }
 
   async onExit() {
@@ -255,7 +259,7 @@ class HtmlBuilder {
     this._attachmentsBaseURL = attachmentsBaseURL;
   }
 
-  async build(metadata: Metadata, projectSuites: api.Suite[], result: api.FullResult, topLevelErrors: api.TestError[], machines: MachineEndResult[]): Promise<{ ok: boolean, singleTestId: string | undefined }> {
+  async build(metadata: Metadata, projectSuites: api.Suite[], result: api.FullResult, topLevelErrors: api.TestError[], machines: MachineEndResult[], runs: RunHistoryRun[], coverage: CoverageSummary | undefined): Promise<{ ok: boolean, singleTestId: string | undefined }> {
     const data: DataMap = new Map();
     for (const projectSuite of projectSuites) {
       const projectName = projectSuite.project()!.name;
@@ -309,6 +313,9 @@ class HtmlBuilder {
         tag: s.tag,
         shardIndex: s.shardIndex,
       })),
+      // Trends need at least one previous run, only the tests that failed or were flaky are embedded.
+      trends: runs.length > 1 ? { runs: runs.length, tests: computeTestTrends(runs).filter(isFailingOrFlakyTrend) } : undefined,
+      coverage,
     };
     htmlReport.files.sort((f1, f2) => {
       const w1 = f1.stats.unexpected * 1000 + f1.stats.flaky;
@@ -0,0 +1,173 @@
+/**
+ * Copyright Microsoft Corporation. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { kCoverageAttachment, mergeTestCoverage } from '../common/coverage';
+import { createFileMatcher } from '../util';
+
+import type { FullResult, TestCase, TestResult } from '../../types/testReporter';
+import type { FullConfigInternal } from '../common/config';
+import type { FileCoverage, TestCoverage } from '../common/coverage';
+import type { CoverageSummary } from '../isomorphic/coverage';
+import type { ReporterV2 } from '../reporters/reporterV2';
+
+// File coverage in the istanbul format, as defined by istanbul-lib-coverage.
+type IstanbulLocation = { line: number, column: number };
+type IstanbulRange = { start: IstanbulLocation, end: IstanbulLocation };
+type IstanbulFunctionMapping = { name: string, decl: IstanbulRange, loc: IstanbulRange, line: number };
+type IstanbulBranchMapping = { loc: IstanbulRange, type: string, locations: IstanbulRange[], line: number };
+type IstanbulFileCoverage = {
+  path: string;
+  statementMap: Record<string, IstanbulRange>;
+  fnMap: Record<string, IstanbulFunctionMapping>;
+  branchMap: Record<string, IstanbulBranchMapping>;
+  s: Record<string, number>;
+  f: Record<string, number>;
+  b: Record<string, number[]>;
+};
+
+export class CoverageReporter implements ReporterV2 {
+  private _config: FullConfigInternal;
+  private _files: string[] = [];
+  private _summary: CoverageSummary | undefined;
+
+  constructor(config: FullConfigInternal) {
+    this._config = config;
+  }
+
+  version(): 'v2' {
+    return 'v2';
+  }
+
+  printsToStdio() {
+    return false;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult) {
+    for (const attachment of result.attachments) {
+      if (attachment.name === kCoverageAttachment && attachment.path)
+        this._files.push(attachment.path);
+    }
+  }
+
+  async onEnd(result: FullResult) {
+    const options = this._config.coverage;
+    if (!options || this._config.cliListOnly || !this._files.length)
+      return;
+
+    const coverage: TestCoverage = {};
+    for (const file of this._files) {
+      try {
+        mergeTestCoverage(coverage, JSON.parse(await fs.promises.readFile(file, 'utf8')));
+      } catch {
+        // Attachments of the merged reports may be missing.
+      }
+    }
+
+    // Source files are relative to the config dir, see the worker coverage recorder.
+    const configDir = this._config.configDir;
+    const isExcluded = options.exclude ? createFileMatcher(options.exclude) : () => false;
+    const files: [string, FileCoverage][] = Object.keys(coverage).sort()
+        .map(relativePath => [path.resolve(configDir, relativePath), coverage[relativePath]] as [string, FileCoverage])
+        .filter(([file]) => !isExcluded(file));
+
+    await fs.promises.mkdir(options.outputDir, { recursive: true });
+    await fs.promises.writeFile(path.join(options.outputDir, 'coverage-final.json'), JSON.stringify(toIstanbul(files), undefined, 2));
+    await fs.promises.writeFile(path.join(options.outputDir, 'lcov.info'), toLcov(files));
+    this._summary = summarize(configDir, files);
+  }
+
+  summary(): CoverageSummary | undefined {
+    return this._summary;
+  }
+}
+
+function toIstanbul(files: [string, FileCoverage][]): Record<string, IstanbulFileCoverage> {
+  const result: Record<string, IstanbulFileCoverage> = {};
+  for (const [file, coverage] of files) {
+    const statementMap: Record<string, IstanbulRange> = {};
+    const s: Record<string, number> = {};
+    sortedLines(coverage).forEach(([line, count], index) => {
+      statementMap[index] = { start: { line, column: 0 }, end: { line, column: 0 } };
+      s[index] = count;
+    });
+    const fnMap: Record<string, IstanbulFunctionMapping> = {};
+    const f: Record<string, number> = {};
+    sortedFunctions(coverage).forEach((fn, index) => {
+      const location = { start: { line: fn.line, column: fn.column }, end: { line: fn.line, column: fn.column } };
+      fnMap[index] = { name: functionName(fn.name, index), decl: location, loc: location, line: fn.line };
+      f[index] = fn.count;
+    });
+    result[file] = { path: file, statementMap, s, fnMap, f, branchMap: {}, b: {} };
+  }
+  return result;
+}
+
+function toLcov(files: [string, FileCoverage][]): string {
+  const lines: string[] = [];
+  for (const [file, coverage] of files) {
+    lines.push('TN:', `SF:${file}`);
+    const functions = sortedFunctions(coverage);
+    for (const [index, fn] of functions.entries())
+      lines.push(`FN:${fn.line},${functionName(fn.name, index)}`);
+    for (const [index, fn] of functions.entries())
+      lines.push(`FNDA:${fn.count},${functionName(fn.name, index)}`);
+    lines.push(`FNF:${functions.length}`, `FNH:${functions.filter(fn => fn.count > 0).length}`);
+    const fileLines = sortedLines(coverage);
+    for (const [line, count] of fileLines)
+      lines.push(`DA:${line},${count}`);
+    lines.push(`LF:${fileLines.length}`, `LH:${fileLines.filter(([, count]) => count > 0).length}`);
+    lines.push('end_of_record');
+  }
+  return lines.join('\n') + '\n';
+}
+
+function summarize(configDir: string, files: [string, FileCoverage][]): CoverageSummary {
+  const summary: CoverageSummary = {
+    lines: { total: 0, covered: 0 },
+    functions: { total: 0, covered: 0 },
+    files: [],
+  };
+  for (const [file, coverage] of files) {
+    const lineCounts = Object.values(coverage.lines);
+    const functionCounts = Object.values(coverage.functions).map(fn => fn.count);
+    const fileSummary = {
+      path: path.relative(configDir, file).split(path.sep).join('/'),
+      lines: { total: lineCounts.length, covered: lineCounts.filter(count => count > 0).length },
+      functions: { total: functionCounts.length, covered: functionCounts.filter(count => count > 0).length },
+    };
+    summary.files.push(fileSummary);
+    summary.lines.total += fileSummary.lines.total;
+    summary.lines.covered += fileSummary.lines.covered;
+    summary.functions.total += fileSummary.functions.total;
+    summary.functions.covered += fileSummary.functions.covered;
+  }
+  return summary;
+}
+
+function sortedLines(coverage: FileCoverage): [number, number][] {
+  return Object.entries(coverage.lines).map(([line, count]) => [+line, count] as [number, number]).sort((a, b) => a[0] - b[0]);
+}
+
+function sortedFunctions(coverage: FileCoverage) {
+  return Object.values(coverage.functions).sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+function functionName(name: string, index: number) {
+  return name || `(anonymous_${index})`;
+}
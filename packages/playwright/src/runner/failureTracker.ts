@@ -14,6 +14,8 @@
  * limitations under the License.
  */
 
+import { isQuarantined } from '../common/quarantine';
+
 import type { TestResult, TestError } from '../../types/testReporter';
 import type { FullConfigInternal, FullProjectInternal } from '../common/config';
 import type { Suite, TestCase } from '../common/test';
@@ -45,8 +47,8 @@ export class FailureTracker {
   }
 
   onTestEnd(test: TestCase, result: TestResult) {
-    // Test is considered failing after the last retry.
-    if (test.outcome() === 'unexpected' && test.results.length > test.retries)
+    // Test is considered failing after the last retry. Quarantined tests never count as failures.
+    if (test.outcome() === 'unexpected' && test.results.length > test.retries && !isQuarantined(test))
       ++this._failureCount;
   }
 
@@ -75,11 +77,11 @@ export class FailureTracker {
   }
 
   hasFailedTests() {
-    return this._rootSuite?.allTests().some(test => !test.ok());
+    return this._rootSuite?.allTests().some(test => !test.ok() && !isQuarantined(test));
   }
 
   hasFlakyTests() {
-    return this._rootSuite?.allTests().some(test => (test.outcome() === 'flaky'));
+    return this._rootSuite?.allTests().some(test => test.outcome() === 'flaky' && !isQuarantined(test));
   }
 
   maxFailures() {
@@ -17,41 +17,62 @@
 import fs from 'fs';
 import path from 'path';
 
+import { toPosixPath } from 'playwright-core/lib/utils';
+
 import { filterProjects } from './projectUtils';
+import { isQuarantined, quarantineKey, saveQuarantineFile } from '../common/quarantine';
 
-import type { FullResult, Suite } from '../../types/testReporter';
+import type { FullResult, Suite, TestCase } from '../../types/testReporter';
 import type { FullConfigInternal } from '../common/config';
+import type { QuarantineReport } from '../common/quarantine';
 import type { ReporterV2 } from '../reporters/reporterV2';
 
+type TestRunOutcome = 'passed' | 'flaky' | 'failed';
+
 type LastRunInfo = {
   status: FullResult['status'];
   failedTests: string[];
+  // Duration of the last run of each test in milliseconds, used by the "duration" sharding strategy.
+  testDurations?: Record<string, number>;
+  // Outcomes of the recent runs of each test, oldest first, used by the automatic quarantine.
+  testHistory?: Record<string, TestRunOutcome[]>;
 };
 
 export class LastRunReporter implements ReporterV2 {
   private _config: FullConfigInternal;
   private _lastRunFile: string | undefined;
+  private _lastRunInfo: LastRunInfo | undefined;
+  private _quarantineReport: QuarantineReport | undefined;
   private _suite: Suite | undefined;
 
   constructor(config: FullConfigInternal) {
     this._config = config;
-    const [project] = filterProjects(config.projects, config.cliProjectFilter);
-    if (project)
-      this._lastRunFile = path.join(project.project.outputDir, '.last-run.json');
+    this._lastRunFile = lastRunFile(config);
   }
 
-  async filterLastFailed() {
+  // The output directory is cleared at the start of the run, so this should be called before that.
+  async loadLastRun() {
     if (!this._lastRunFile)
       return;
-    try {
-      const lastRunInfo = JSON.parse(await fs.promises.readFile(this._lastRunFile, 'utf8')) as LastRunInfo;
-      const failedTestIds = new Set(lastRunInfo.failedTests);
-      // Explicitly apply --last-failed filter after sharding.
-      this._config.postShardTestFilters.push(test => failedTestIds.has(test.id));
-    } catch {
+    this._lastRunInfo = await readLastRunInfo(this._lastRunFile);
+    if (this._config.shardingStrategy === 'duration') {
+      for (const [testId, duration] of Object.entries(this._lastRunInfo?.testDurations ?? {}))
+        this._config.testDurations.set(testId, duration);
     }
   }
 
+  filterLastFailed() {
+    if (!this._lastRunInfo)
+      return;
+    const failedTestIds = new Set(this._lastRunInfo.failedTests);
+    // Explicitly apply --last-failed filter after sharding.
+    this._config.postShardTestFilters.push(test => failedTestIds.has(test.id));
+  }
+
+  quarantineReport(): QuarantineReport | undefined {
+    return this._quarantineReport;
+  }
+
   version(): 'v2' {
     return 'v2';
   }
@@ -67,11 +88,75 @@ export class LastRunReporter implements ReporterV2 {
   async onEnd(result: FullResult) {
     if (!this._lastRunFile || this._config.cliListOnly)
       return;
+    const tests = this._suite?.allTests() || [];
+    // Keep the durations of the tests that did not run this time, for example in the other shards.
+    const testDurations = { ...this._lastRunInfo?.testDurations };
+    for (const test of tests) {
+      const lastResult = test.results[test.results.length - 1];
+      if (lastResult && lastResult.status !== 'interrupted')
+        testDurations[test.id] = lastResult.duration;
+    }
+    const autoQuarantine = this._config.quarantine?.autoQuarantine;
+    const testHistory = autoQuarantine ? this._updateTestHistory(tests, autoQuarantine.runs) : undefined;
     const lastRunInfo: LastRunInfo = {
       status: result.status,
-      failedTests: this._suite?.allTests().filter(t => !t.ok()).map(t => t.id) || [],
+      failedTests: tests.filter(t => !t.ok()).map(t => t.id),
+      testDurations,
+      testHistory,
     };
     await fs.promises.mkdir(path.dirname(this._lastRunFile), { recursive: true });
     await fs.promises.writeFile(this._lastRunFile, JSON.stringify(lastRunInfo, undefined, 2));
+    if (testHistory)
+      await this._updateQuarantine(tests, testHistory);
+  }
+
+  private _updateTestHistory(tests: TestCase[], runs: number): Record<string, TestRunOutcome[]> {
+    const testHistory = { ...this._lastRunInfo?.testHistory };
+    for (const test of tests) {
+      const outcome = test.outcome();
+      if (outcome === 'skipped')
+        continue;
+      const runOutcome: TestRunOutcome = outcome === 'expected' ? 'passed' : outcome === 'flaky' ? 'flaky' : 'failed';
+      testHistory[test.id] = [...testHistory[test.id] ?? [], runOutcome].slice(-runs);
+    }
+    return testHistory;
+  }
+
+  private async _updateQuarantine(tests: TestCase[], testHistory: Record<string, TestRunOutcome[]>) {
+    const quarantine = this._config.quarantine!;
+    const { flakyRuns, runs } = quarantine.autoQuarantine!;
+    const quarantined = new Set<string>();
+    const stable = new Set<string>();
+    for (const test of tests) {
+      const history = testHistory[test.id];
+      if (!history)
+        continue;
+      // Title path starts with the root and project suites.
+      const [, , file, ...titles] = test.titlePath();
+      const key = quarantineKey(toPosixPath(file), titles);
+      if (isQuarantined(test)) {
+        if (history.length >= runs && history.every(outcome => outcome === 'passed'))
+          stable.add(key);
+      } else if (history.filter(outcome => outcome === 'flaky').length >= flakyRuns) {
+        quarantined.add(key);
+      }
+    }
+    if (quarantined.size)
+      await saveQuarantineFile(quarantine.file, new Set([...quarantine.entries, ...quarantined]));
+    this._quarantineReport = { quarantined: [...quarantined], stable: [...stable] };
+    await fs.promises.writeFile(path.join(path.dirname(this._lastRunFile!), '.quarantine-report.json'), JSON.stringify(this._quarantineReport, undefined, 2));
+  }
+}
+
+function lastRunFile(config: FullConfigInternal): string | undefined {
+  const [project] = filterProjects(config.projects, config.cliProjectFilter);
+  if (project)
+    return path.join(project.project.outputDir, '.last-run.json');
+}
+
+async function readLastRunInfo(file: string): Promise<LastRunInfo | undefined> {
+  try {
+    return JSON.parse(await fs.promises.readFile(file, 'utf8')) as LastRunInfo;
+  } catch {
   }
 }
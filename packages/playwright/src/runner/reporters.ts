@@ -16,7 +16,11 @@
 
 import { calculateSha1 } from 'playwright-core/lib/utils';
 
+import { CoverageReporter } from './coverage';
 import { loadReporter } from './loadUtils';
+import { LastRunReporter } from './lastRun';
+import { RunHistoryReporter } from './runHistory';
+import { TestImpactReporter } from './testImpact';
 import { formatError } from '../reporters/base';
 import { BlobReporter } from '../reporters/blob';
 import DotReporter from '../reporters/dot';
@@ -36,7 +40,7 @@ import type { BuiltInReporter, FullConfigInternal } from '../common/config';
 import type { CommonReporterOptions, Screen } from '../reporters/base';
 import type { ReporterV2 } from '../reporters/reporterV2';
 
-export async function createReporters(config: FullConfigInternal, mode: 'list' | 'test' | 'merge', descriptions?: ReporterDescription[]): Promise<ReporterV2[]> {
+export async function createReporters(config: FullConfigInternal, mode: 'list' | 'test' | 'merge', descriptions?: ReporterDescription[], lastRun?: LastRunReporter): Promise<ReporterV2[]> {
   const defaultReporters: { [key in BuiltInReporter]: new(arg: any) => ReporterV2 } = {
     blob: BlobReporter,
     dot: mode === 'list' ? ListModeReporter : DotReporter,
@@ -53,9 +57,25 @@ export async function createReporters(config: FullConfigInternal, mode: 'list' |
   if (config.configCLIOverrides.additionalReporters)
     descriptions = [...descriptions, ...config.configCLIOverrides.additionalReporters];
   const runOptions = reporterOptions(config, mode);
+  // Blob reports are recorded when they are merged, so that every run is recorded once.
+  const recordsRunHistory = config.runHistory && (mode === 'merge' || (mode === 'test' && !descriptions.some(([name]) => name === 'blob')));
+  const runHistory = recordsRunHistory ? new RunHistoryReporter(config) : undefined;
+  await runHistory?.load();
+  const coverage = mode !== 'list' && config.coverage ? new CoverageReporter(config) : undefined;
+  // Record the test durations and outcomes of all the merged shards for the next run.
+  const mergeLastRun = mode === 'merge' && (config.shardingStrategy === 'duration' || config.quarantine?.autoQuarantine) ? new LastRunReporter(config) : undefined;
+  await mergeLastRun?.loadLastRun();
+  const quarantineRun = lastRun ?? mergeLastRun;
+  const quarantineReport = quarantineRun && (() => quarantineRun.quarantineReport());
   for (const r of descriptions) {
     const [name, arg] = r;
     const options = { ...runOptions, ...arg };
+    if (name === 'dot' || name === 'line' || name === 'list')
+      options._quarantineReport = quarantineReport;
+    if (name === 'html') {
+      options._runHistory = runHistory && (() => runHistory.runs());
+      options._coverage = coverage && (() => coverage.summary());
+    }
     if (name in defaultReporters) {
       reporters.push(new defaultReporters[name as keyof typeof defaultReporters](options));
     } else {
@@ -75,8 +95,24 @@ export async function createReporters(config: FullConfigInternal, mode: 'list' |
     if (mode === 'list')
       reporters.unshift(new ListModeReporter());
     else if (mode !== 'merge')
-      reporters.unshift(!process.env.CI ? new LineReporter() : new DotReporter());
+      reporters.unshift(!process.env.CI ? new LineReporter({ _quarantineReport: quarantineReport }) : new DotReporter({ _quarantineReport: quarantineReport }));
   }
+
+  // Record the run before other reporters end, so that they can report it in the trends.
+  if (runHistory)
+    reporters.unshift(runHistory);
+
+  // Write the coverage reports before other reporters end, so that they can show the summary.
+  if (coverage)
+    reporters.unshift(coverage);
+
+  // Update the quarantine before other reporters end, so that they can report the stable tests.
+  if (mergeLastRun)
+    reporters.unshift(mergeLastRun);
+
+  // Update the test impact index with the coverage collected by the workers.
+  if (mode === 'test' && config.testImpact)
+    reporters.push(new TestImpactReporter(config, config.testImpact.file));
   return reporters;
 }
 
@@ -0,0 +1,166 @@
+/**
+ * Copyright Microsoft Corporation. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { calculateSha1, colors, toPosixPath } from 'playwright-core/lib/utils';
+import { ms as milliseconds } from 'playwright-core/lib/utilsBundle';
+
+import { filterProjects } from './projectUtils';
+import { quarantineKey } from '../common/quarantine';
+import { stripAnsiEscapes } from '../util';
+
+import type { Metadata } from '../../types/test';
+import type { FullConfig, FullResult, Suite, TestCase } from '../../types/testReporter';
+import type { FullConfigInternal } from '../common/config';
+import type { RunHistoryCommit, RunHistoryOutcome, RunHistoryRun, RunHistoryTest, TestTrend } from '../isomorphic/runHistory';
+import type { MetadataWithCommitInfo } from '../isomorphic/types';
+import type { ReporterV2 } from '../reporters/reporterV2';
+
+const kMaxRuns = 50;
+
+export class RunHistoryReporter implements ReporterV2 {
+  private _fullConfig: FullConfigInternal;
+  private _file: string | undefined;
+  private _config: FullConfig | undefined;
+  private _suite: Suite | undefined;
+  private _runs: RunHistoryRun[] = [];
+
+  constructor(config: FullConfigInternal) {
+    this._fullConfig = config;
+    this._file = runHistoryFile(config);
+  }
+
+  // The output directory is cleared at the start of the run, so this should be called before that.
+  async load() {
+    if (this._file)
+      this._runs = await readRunHistory(this._file);
+  }
+
+  // Recorded runs, including the current one once it has ended.
+  runs(): RunHistoryRun[] {
+    return this._runs;
+  }
+
+  version(): 'v2' {
+    return 'v2';
+  }
+
+  printsToStdio() {
+    return false;
+  }
+
+  onConfigure(config: FullConfig) {
+    this._config = config;
+  }
+
+  onBegin(suite: Suite) {
+    this._suite = suite;
+  }
+
+  async onEnd(result: FullResult) {
+    if (!this._file || this._fullConfig.cliListOnly)
+      return;
+    const tests = (this._suite?.allTests() || []).filter(test => test.results.length).map(runHistoryTest);
+    this._runs = [...this._runs, {
+      startTime: result.startTime.getTime(),
+      duration: result.duration,
+      status: result.status,
+      commit: this._config ? commitFromMetadata(this._config.metadata) : undefined,
+      tests,
+    }].slice(-kMaxRuns);
+    await fs.promises.mkdir(path.dirname(this._file), { recursive: true });
+    await fs.promises.writeFile(this._file, this._runs.map(run => JSON.stringify(run) + '\n').join(''));
+  }
+}
+
+export function runHistoryFile(config: FullConfigInternal): string | undefined {
+  const [project] = filterProjects(config.projects, config.cliProjectFilter);
+  if (project)
+    return path.join(project.project.outputDir, '.run-history.jsonl');
+}
+
+export async function readRunHistory(file: string): Promise<RunHistoryRun[]> {
+  const content = await fs.promises.readFile(file, 'utf8').catch(() => '');
+  const runs: RunHistoryRun[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim())
+      continue;
+    try {
+      runs.push(JSON.parse(line));
+    } catch {
+      // Skip the lines that were not fully written.
+    }
+  }
+  return runs;
+}
+
+export function formatTestTrends(runs: RunHistoryRun[], trends: TestTrend[]): string {
+  const startTimes = runs.map(run => run.startTime);
+  const lines = [`${runs.length} runs recorded between ${new Date(Math.min(...startTimes)).toLocaleString()} and ${new Date(Math.max(...startTimes)).toLocaleString()}.`];
+  for (const trend of trends) {
+    const passRate = `${Math.round(trend.passRate * 100)}%`;
+    const color = trend.passRate === 1 ? colors.green : trend.passRate === 0 ? colors.red : colors.yellow;
+    lines.push('');
+    lines.push(`  ${color(passRate.padStart(4))}  ${trend.project ? `[${trend.project}] › ` : ''}${trend.title}`);
+    const outcomes = trend.runs.map(run => formatOutcome(run.outcome)).join('');
+    lines.push(`        ${colors.dim('runs')} ${outcomes}  ${colors.dim('average duration')} ${milliseconds(Math.round(trend.averageDuration))}`);
+    const commit = trend.firstFailingCommit;
+    if (commit)
+      lines.push(`        ${colors.dim('first failed at')} ${commit.shortHash ?? commit.hash.slice(0, 7)}${commit.subject ? ' ' + commit.subject : ''}`);
+  }
+  return lines.join('\n');
+}
+
+function formatOutcome(outcome: RunHistoryOutcome): string {
+  switch (outcome) {
+    case 'expected': return colors.green('✓');
+    case 'unexpected': return colors.red('✘');
+    case 'flaky': return colors.yellow('±');
+    case 'skipped': return colors.dim('-');
+  }
+}
+
+function runHistoryTest(test: TestCase): RunHistoryTest {
+  // Title path starts with the root and project suites.
+  const [, project, file, ...titles] = test.titlePath();
+  const lastResult = test.results[test.results.length - 1];
+  const error = lastResult.errors[0];
+  const errorText = error?.message ?? error?.value;
+  return {
+    id: test.id,
+    title: quarantineKey(toPosixPath(file), titles),
+    project,
+    outcome: test.outcome(),
+    duration: lastResult.duration,
+    retries: test.results.length - 1,
+    ...(errorText ? { errorHash: calculateSha1(stripAnsiEscapes(errorText)).slice(0, 20) } : {}),
+  };
+}
+
+function commitFromMetadata(metadata: Metadata): RunHistoryCommit | undefined {
+  const { gitCommit, ci } = metadata as MetadataWithCommitInfo;
+  const hash = gitCommit?.hash ?? ci?.commitHash;
+  if (!hash)
+    return;
+  return {
+    hash,
+    shortHash: gitCommit?.shortHash,
+    subject: gitCommit?.subject,
+    href: ci?.commitHref,
+  };
+}
@@ -27,10 +27,11 @@ import { collectProjectsAndTestFiles, createRootSuite, loadFileSuites, loadGloba
 import { buildDependentProjects, buildTeardownToSetupsMap, filterProjects } from './projectUtils';
 import { applySuggestedRebaselines, clearSuggestedRebaselines } from './rebase';
 import { TaskRunner } from './taskRunner';
-import { detectChangedTestFiles } from './vcs';
+import { detectChangedFiles } from './vcs';
 import { Suite } from '../common/test';
+import { impactedTestIds, loadTestImpactIndex } from '../common/testImpact';
 import { createTestGroups } from '../runner/testGroups';
-import { cacheDir } from '../transform/compilationCache';
+import { affectedTestFiles, cacheDir } from '../transform/compilationCache';
 import { removeDirAndLogToConsole } from '../util';
 
 import type { TestGroup } from '../runner/testGroups';
@@ -267,8 +268,11 @@ export function createLoadTask(mode: 'out-of-process' | 'in-process', options: {
       }
 
       if (testRun.config.cliOnlyChanged) {
-        const changedFiles = await detectChangedTestFiles(testRun.config.cliOnlyChanged, testRun.config.configDir);
-        testRun.config.preOnlyTestFilters.push(test => changedFiles.has(test.location.file));
+        const changedFiles = await detectChangedFiles(testRun.config.cliOnlyChanged, testRun.config.configDir);
+        const changedTestFiles = new Set(affectedTestFiles(changedFiles));
+        // Tests that executed the changed files according to the coverage of the previous runs.
+        const impactedTests = testRun.config.testImpact ? impactedTestIds(await loadTestImpactIndex(testRun.config.testImpact.file), changedFiles, testRun.config.configDir) : new Set<string>();
+        testRun.config.preOnlyTestFilters.push(test => changedTestFiles.has(test.location.file) || impactedTests.has(test.id));
       }
 
       if (testRun.config.cliTestList) {
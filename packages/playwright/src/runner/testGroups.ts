@@ -130,11 +130,15 @@ export function createTestGroups(projectSuite: Suite, expectedParallelism: numbe
   return result;
 }
 
-export function filterForShard(shard: { total: number, current: number }, weights: number[] | undefined, testGroups: TestGroup[]): Set<TestGroup> {
+export function filterForShard(shard: { total: number, current: number }, weights: number[] | undefined, testGroups: TestGroup[], testDurations?: Map<string, number>): Set<TestGroup> {
   weights ??= Array.from({ length: shard.total }, () => 1);
   if (weights.length !== shard.total)
     throw new Error(`PWTEST_SHARD_WEIGHTS number of weights must match the shard total of ${shard.total}`);
 
+  // Without any recorded durations, balance by the number of tests.
+  if (testDurations?.size)
+    return filterForShardByDuration(shard, weights, testGroups, testDurations);
+
   const totalWeight = weights.reduce((a, b) => a + b, 0);
   // Note that sharding works based on test groups.
   // This means parallel files will be sharded by single tests,
@@ -171,3 +175,46 @@ export function filterForShard(shard: { total: number, current: number }, weight
   }
   return result;
 }
+
+function filterForShardByDuration(shard: { total: number, current: number }, weights: number[], testGroups: TestGroup[], testDurations: Map<string, number>): Set<TestGroup> {
+  // Tests without a recorded duration are expected to take as long as an average test.
+  let totalDuration = 0;
+  for (const duration of testDurations.values())
+    totalDuration += duration;
+  const averageDuration = totalDuration / testDurations.size;
+
+  const groups = testGroups.map((group, index) => {
+    let duration = 0;
+    for (const test of group.tests)
+      duration += testDurations.get(test.id) ?? averageDuration;
+    return { group, index, duration };
+  });
+
+  // Assign the longest groups first, each to the shard that finishes the earliest with it.
+  // This only depends on the test groups and durations, so that all shards come up with the same split.
+  groups.sort((a, b) => b.duration - a.duration || a.index - b.index);
+  const shardDurations = weights.map(() => 0);
+  const shardTestCounts = weights.map(() => 0);
+  const result = new Set<TestGroup>();
+  for (const { group, duration } of groups) {
+    let best = -1;
+    for (let i = 0; i < weights.length; i++) {
+      if (!weights[i])
+        continue;
+      if (best === -1) {
+        best = i;
+        continue;
+      }
+      const finish = (shardDurations[i] + duration) / weights[i];
+      const bestFinish = (shardDurations[best] + duration) / weights[best];
+      // Fall back to the number of tests when durations are equal, for example all zeros.
+      if (finish < bestFinish || (finish === bestFinish && shardTestCounts[i] / weights[i] < shardTestCounts[best] / weights[best]))
+        best = i;
+    }
+    shardDurations[best] += duration;
+    shardTestCounts[best] += group.tests.length;
+    if (best === shard.current - 1)
+      result.add(group);
+  }
+  return result;
+}
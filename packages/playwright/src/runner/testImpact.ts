@@ -0,0 +1,83 @@
+/**
+ * Copyright Microsoft Corporation. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+
+import { loadTestImpactIndex, saveTestImpactIndex, testImpactCoverageFile } from '../common/testImpact';
+
+import type { FullResult, Suite, TestCase } from '../../types/testReporter';
+import type { FullConfigInternal } from '../common/config';
+import type { ReporterV2 } from '../reporters/reporterV2';
+
+export class TestImpactReporter implements ReporterV2 {
+  private _config: FullConfigInternal;
+  private _file: string;
+  private _suite: Suite | undefined;
+
+  constructor(config: FullConfigInternal, file: string) {
+    this._config = config;
+    this._file = file;
+  }
+
+  version(): 'v2' {
+    return 'v2';
+  }
+
+  printsToStdio() {
+    return false;
+  }
+
+  onBegin(suite: Suite) {
+    this._suite = suite;
+  }
+
+  async onEnd(result: FullResult) {
+    if (!this._suite || this._config.cliListOnly)
+      return;
+    // Coverage of the failed tests may be incomplete, so only passed tests update the index.
+    const tests = this._suite.allTests().filter(test => test.outcome() === 'expected' || test.outcome() === 'flaky');
+    if (!tests.length)
+      return;
+    const index = await loadTestImpactIndex(this._file);
+    for (const testIds of index.values()) {
+      for (const test of tests)
+        testIds.delete(test.id);
+    }
+    for (const test of tests) {
+      for (const source of await readCoveredSources(test)) {
+        let testIds = index.get(source);
+        if (!testIds) {
+          testIds = new Set();
+          index.set(source, testIds);
+        }
+        testIds.add(test.id);
+      }
+    }
+    await saveTestImpactIndex(this._file, index);
+  }
+}
+
+async function readCoveredSources(test: TestCase): Promise<string[]> {
+  const outputDir = test.parent.project()?.outputDir;
+  if (!outputDir)
+    return [];
+  try {
+    return JSON.parse(await fs.promises.readFile(testImpactCoverageFile(outputDir, test.id), 'utf8'));
+  } catch {
+    // Tests that did not use the browser have no coverage.
+    return [];
+  }
+}
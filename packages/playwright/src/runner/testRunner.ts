@@ -466,12 +466,14 @@ export async function runAllTestsWithConfig(config: FullConfigInternal): Promise
   // Legacy webServer support.
   webServerPluginsForConfig(config).forEach(p => config.plugins.push({ factory: p }));
 
-  const reporters = await createReporters(config, listOnly ? 'list' : 'test');
   const lastRun = new LastRunReporter(config);
+  await lastRun.loadLastRun();
   if (config.cliLastFailed)
-    await lastRun.filterLastFailed();
+    lastRun.filterLastFailed();
+  const reporters = await createReporters(config, listOnly ? 'list' : 'test', undefined, lastRun);
 
-  const reporter = new InternalReporter([...reporters, lastRun]);
+  // Update the quarantine before other reporters end, so that they can report the stable tests.
+  const reporter = new InternalReporter([lastRun, ...reporters]);
   const tasks = listOnly ? [
     createLoadTask('in-process', { failOnLoadErrors: true, filterOnly: false }),
     createReportBeginTask(),
@@ -0,0 +1,334 @@
+/**
+ * Copyright Microsoft Corporation. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import url from 'url';
+
+import { fetchData } from 'playwright-core/lib/utils';
+
+import { kCoverageAttachment, mergeTestCoverage } from '../common/coverage';
+import { testImpactCoverageFile } from '../common/testImpact';
+import { sourceMap } from '../utilsBundle';
+
+import type { TestInfoImpl } from './testInfo';
+import type { TestCoverage } from '../common/coverage';
+import type { RawSourceMap } from '../utilsBundle';
+import type { Playwright as PlaywrightImpl } from '../../../playwright-core/src/client/playwright';
+import type { BrowserContext as BrowserContextImpl } from '../../../playwright-core/src/client/browserContext';
+import type { Page as PageImpl } from '../../../playwright-core/src/client/page';
+import type { PageStopCSSCoverageResult, PageStopJSCoverageResult } from '@protocol/channels';
+
+type JSCoverageEntry = PageStopJSCoverageResult['entries'][0];
+type CSSCoverageEntry = PageStopCSSCoverageResult['entries'][0];
+type CoverageRange = { startOffset: number, endOffset: number, count: number };
+type FunctionCoverage = { name: string, offset: number, count: number };
+
+export class CoverageRecorder {
+  private _playwright: PlaywrightImpl;
+  private _css: boolean;
+  private _jsEntries: JSCoverageEntry[] = [];
+  private _cssEntries: CSSCoverageEntry[] = [];
+  private _pages = new Set<PageImpl>();
+  private _pageListeners = new Map<BrowserContextImpl, (page: PageImpl) => void>();
+
+  constructor(playwright: PlaywrightImpl, options: { css: boolean }) {
+    this._playwright = playwright;
+    this._css = options.css;
+  }
+
+  async willStartTest() {
+    // Pages of the reused contexts carry over from the previous test.
+    await Promise.all(this._playwright._allContexts().map(context => this.didCreateBrowserContext(context)));
+  }
+
+  async didCreateBrowserContext(context: BrowserContextImpl) {
+    if (context.browser()?.browserType().name() !== 'chromium')
+      return;
+    const listener = (page: PageImpl) => this._startCoverage(page);
+    this._pageListeners.set(context, listener);
+    context.on('page', listener);
+    await Promise.all(context.pages().map(page => this._startCoverage(page)));
+  }
+
+  async willCloseBrowserContext(context: BrowserContextImpl) {
+    await Promise.all(context.pages().map(page => this._stopCoverage(page)));
+  }
+
+  async didFinishTest(testInfo: TestInfoImpl) {
+    for (const [context, listener] of this._pageListeners)
+      context.off('page', listener);
+    await Promise.all([...this._pages].map(page => this._stopCoverage(page)));
+
+    const config = testInfo._configInternal;
+    if (config.testImpact) {
+      const files = new SourceFiles(config.configDir);
+      const sources = new Set((await Promise.all(this._jsEntries.map(entry => coveredSources(files, entry)))).flat());
+      const file = testImpactCoverageFile(testInfo.project.outputDir, testInfo.testId);
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(file, JSON.stringify([...sources].sort()));
+    }
+
+    if (config.coverage) {
+      const coverage = await toTestCoverage(this._jsEntries, this._cssEntries, config.configDir);
+      if (Object.keys(coverage).length) {
+        const file = testInfo.outputPath('coverage.json');
+        await fs.promises.writeFile(file, JSON.stringify(coverage));
+        testInfo._attach({ name: kCoverageAttachment, contentType: 'application/json', path: file }, undefined);
+      }
+    }
+  }
+
+  private async _startCoverage(page: PageImpl) {
+    if (this._pages.has(page))
+      return;
+    this._pages.add(page);
+    await page._wrapApiCall(async () => {
+      await Promise.all([
+        page.coverage.startJSCoverage({ resetOnNavigation: false }),
+        this._css ? page.coverage.startCSSCoverage({ resetOnNavigation: false }) : undefined,
+      ]);
+    }, { internal: true }).catch(() => {});
+  }
+
+  private async _stopCoverage(page: PageImpl) {
+    if (!this._pages.delete(page) || page.isClosed())
+      return;
+    await page._wrapApiCall(async () => {
+      const [jsEntries, cssEntries] = await Promise.all([
+        page.coverage.stopJSCoverage(),
+        this._css ? page.coverage.stopCSSCoverage() : [],
+      ]);
+      this._jsEntries.push(...jsEntries);
+      this._cssEntries.push(...cssEntries);
+    }, { internal: true }).catch(() => {});
+  }
+}
+
+async function coveredSources(files: SourceFiles, entry: JSCoverageEntry): Promise<string[]> {
+  if (!entry.functions.some(fn => fn.ranges.some(range => range.count > 0)))
+    return [];
+  const map = entry.source ? await loadSourceMap(entry.url, entry.source) : undefined;
+  const sourceRoot = map?.rawMap.sourceRoot ? map.rawMap.sourceRoot.replace(/\/?$/, '/') : '';
+  const urls = map ? map.rawMap.sources.map(source => new URL(sourceRoot + source, map.url).href) : [entry.url];
+  return urls.map(url => files.resolve(url)).filter((source): source is string => !!source);
+}
+
+async function toTestCoverage(jsEntries: JSCoverageEntry[], cssEntries: CSSCoverageEntry[], configDir: string): Promise<TestCoverage> {
+  const coverage: TestCoverage = {};
+  const files = new SourceFiles(configDir);
+  for (const entry of jsEntries) {
+    if (!entry.source)
+      continue;
+    const source = entry.source;
+    const functions = entry.functions
+        // Skip the top-level function of the script.
+        .filter(fn => fn.ranges[0].startOffset > 0 || fn.ranges[0].endOffset < source.length)
+        .map(fn => ({ name: fn.functionName, offset: fn.ranges[0].startOffset, count: fn.ranges[0].count }));
+    const ranges = entry.functions.flatMap(fn => fn.ranges);
+    mergeTestCoverage(coverage, await scriptCoverage(files, entry.url, source, rangeCounter(ranges), functions));
+  }
+  for (const entry of cssEntries) {
+    if (!entry.text)
+      continue;
+    const ranges = [
+      { startOffset: 0, endOffset: entry.text.length, count: 0 },
+      ...entry.ranges.map(range => ({ startOffset: range.start, endOffset: range.end, count: 1 })),
+    ];
+    mergeTestCoverage(coverage, await scriptCoverage(files, entry.url, entry.text, rangeCounter(ranges), []));
+  }
+  return coverage;
+}
+
+async function scriptCoverage(files: SourceFiles, scriptUrl: string, text: string, countAt: (offset: number) => number, functions: FunctionCoverage[]): Promise<TestCoverage> {
+  const coverage: TestCoverage = {};
+  const fileCoverage = (file: string) => coverage[file] ?? (coverage[file] = { lines: {}, functions: {} });
+  const addLine = (file: string, line: number, count: number) => {
+    const lines = fileCoverage(file).lines;
+    lines[line] = Math.max(lines[line] ?? 0, count);
+  };
+  const addFunction = (file: string, name: string, line: number, column: number, count: number) => {
+    fileCoverage(file).functions[`${line}:${column}`] = { name, line, column, count };
+  };
+  const lineStarts = lineStartOffsets(text);
+
+  const map = await loadSourceMap(scriptUrl, text);
+  if (map) {
+    const consumer = new sourceMap.SourceMapConsumer(map.rawMap);
+    const fileForSource = (source: string) => files.resolve(new URL(source, map.url).href);
+    consumer.eachMapping(mapping => {
+      const file = mapping.source ? fileForSource(mapping.source) : undefined;
+      if (file)
+        addLine(file, mapping.originalLine, countAt(lineStarts[mapping.generatedLine - 1] + mapping.generatedColumn));
+    });
+    for (const fn of functions) {
+      const original = consumer.originalPositionFor(positionAt(lineStarts, fn.offset));
+      const file = original.source ? fileForSource(original.source) : undefined;
+      if (file && original.line !== null)
+        addFunction(file, fn.name, original.line, original.column ?? 0, fn.count);
+    }
+    return coverage;
+  }
+
+  // Inline scripts are reported with the url of the page, their offsets do not match the lines of the page.
+  const file = files.resolve(scriptUrl);
+  if (!file || /\.html?$/.test(file))
+    return coverage;
+  for (let i = 0; i < lineStarts.length; ++i) {
+    const lineText = text.substring(lineStarts[i], lineStarts[i + 1] ?? text.length);
+    if (hasCode(lineText))
+      addLine(file, i + 1, countAt(lineStarts[i] + lineText.search(/\S/)));
+  }
+  for (const fn of functions) {
+    const { line, column } = positionAt(lineStarts, fn.offset);
+    addFunction(file, fn.name, line, column, fn.count);
+  }
+  return coverage;
+}
+
+// Maps script and source map urls to the existing source files, as posix paths relative to the config dir.
+// Served scripts are looked up by their url path in the config dir.
+class SourceFiles {
+  private _configDir: string;
+  private _files = new Map<string, string | undefined>();
+
+  constructor(configDir: string) {
+    this._configDir = configDir;
+  }
+
+  resolve(sourceUrl: string): string | undefined {
+    if (!this._files.has(sourceUrl))
+      this._files.set(sourceUrl, this._resolve(sourceUrl));
+    return this._files.get(sourceUrl);
+  }
+
+  private _resolve(sourceUrl: string): string | undefined {
+    let parsed: URL;
+    try {
+      parsed = new URL(sourceUrl);
+    } catch {
+      return;
+    }
+    let file: string;
+    if (parsed.protocol === 'file:')
+      file = url.fileURLToPath(parsed);
+    else if (parsed.protocol === 'http:' || parsed.protocol === 'https:' || parsed.protocol === 'webpack:')
+      file = path.join(this._configDir, decodeURIComponent(parsed.pathname));
+    else
+      return;
+    if (file.split(path.sep).includes('node_modules') || !fs.statSync(file, { throwIfNoEntry: false })?.isFile())
+      return;
+    return path.relative(this._configDir, file).replaceAll(path.sep, '/');
+  }
+}
+
+async function loadSourceMap(scriptUrl: string, text: string): Promise<{ url: string, rawMap: RawSourceMap } | undefined> {
+  const match = text.match(/\/[*/][#@]\s*sourceMappingURL=(\S+?)\s*(?:\*\/)?\s*$/);
+  if (!match)
+    return;
+  try {
+    const mapUrl = new URL(match[1], scriptUrl);
+    let content: string;
+    if (mapUrl.protocol === 'data:') {
+      const comma = mapUrl.pathname.indexOf(',');
+      const data = mapUrl.pathname.substring(comma + 1);
+      content = mapUrl.pathname.substring(0, comma).endsWith(';base64') ? Buffer.from(data, 'base64').toString('utf8') : decodeURIComponent(data);
+      // Sources of the inline source map are relative to the script.
+      return { url: scriptUrl, rawMap: JSON.parse(content) };
+    }
+    if (mapUrl.protocol === 'file:')
+      content = await fs.promises.readFile(url.fileURLToPath(mapUrl), 'utf8');
+    else if (mapUrl.protocol === 'http:' || mapUrl.protocol === 'https:')
+      content = await fetchData(undefined, { url: mapUrl.href, socketTimeout: 5000 });
+    else
+      return;
+    return { url: mapUrl.href, rawMap: JSON.parse(content) };
+  } catch {
+    // Report the generated code when the source map is not available.
+  }
+}
+
+// V8 ranges are nested, so the innermost range that contains the offset has its count.
+function rangeCounter(ranges: CoverageRange[]): (offset: number) => number {
+  const sorted = [...ranges].sort((a, b) => a.startOffset - b.startOffset || b.endOffset - a.endOffset);
+  const starts: number[] = [];
+  const counts: number[] = [];
+  const addSegment = (offset: number, count: number) => {
+    if (starts.length && starts[starts.length - 1] === offset) {
+      counts[counts.length - 1] = count;
+    } else {
+      starts.push(offset);
+      counts.push(count);
+    }
+  };
+  const stack: CoverageRange[] = [];
+  const popRange = () => {
+    const range = stack.pop()!;
+    addSegment(range.endOffset, stack.length ? stack[stack.length - 1].count : 0);
+  };
+  for (const range of sorted) {
+    while (stack.length && stack[stack.length - 1].endOffset <= range.startOffset)
+      popRange();
+    stack.push(range);
+    addSegment(range.startOffset, range.count);
+  }
+  while (stack.length)
+    popRange();
+
+  return (offset: number) => {
+    let low = 0;
+    let high = starts.length - 1;
+    let result = 0;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      if (starts[middle] <= offset) {
+        result = counts[middle];
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return result;
+  };
+}
+
+function lineStartOffsets(text: string): number[] {
+  const result = [0];
+  for (let i = 0; i < text.length; ++i) {
+    if (text[i] === '\n')
+      result.push(i + 1);
+  }
+  return result;
+}
+
+// Returns 1-based line and 0-based column, as source maps do.
+function positionAt(lineStarts: number[], offset: number): { line: number, column: number } {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (lineStarts[middle] <= offset)
+      low = middle;
+    else
+      high = middle - 1;
+  }
+  return { line: low + 1, column: offset - lineStarts[low] };
+}
+
+function hasCode(lineText: string): boolean {
+  const trimmed = lineText.trim();
+  return !!trimmed && !/^(\/\/|\/\*|\*)/.test(trimmed) && !/^[{}()[\];,]*$/.test(trimmed);
+}
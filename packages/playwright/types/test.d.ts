@@ -1087,6 +1087,62 @@ interface TestConfig<TestArgs = {}, WorkerArgs = {}> {
     diff?: boolean;
   };
 
+  /**
+   * Collects JavaScript and CSS coverage of every page in Chromium during each test, and writes the coverage of all the
+   * tests at the end of the run. The reports are the `coverage-final.json` file in the istanbul format and the
+   * `lcov.info` file in the lcov format, both placed in the `outputDir`. The
+   * [HTML reporter](https://playwright.dev/docs/test-reporters#html-reporter) also shows the coverage summary.
+   *
+   * **Usage**
+   *
+   * ```js
+   * // playwright.config.ts
+   * import { defineConfig } from '@playwright/test';
+   *
+   * export default defineConfig({
+   *   coverage: {
+   *     outputDir: './coverage',
+   *     exclude: '**\/vendor/**',
+   *   },
+   * });
+   * ```
+   *
+   * **Details**
+   *
+   * Coverage is mapped to the source files through the source maps of the scripts and stylesheets, when available.
+   * Otherwise, scripts loaded from `file://` urls are mapped to the files themselves, and scripts served over http are
+   * mapped to the files with the same path relative to the directory of the config file. Source files that do not exist
+   * on disk, and files from `node_modules`, are not reported.
+   *
+   * Coverage of each test is stored in the test results, so
+   * [merging](https://playwright.dev/docs/test-sharding#merging-reports-from-multiple-shards) blob reports of the shards with the
+   * `merge-reports` command produces the coverage of the whole test suite, as long as the same `coverage` option is
+   * specified in the config passed to `merge-reports`.
+   *
+   * Coverage is only collected in Chromium, and is lost for the pages that the test closes before it ends.
+   *
+   * Coverage is reported per line and per function. Each line with code becomes a single zero-width statement at the
+   * start of the line in `coverage-final.json`, and the `branchMap` is always empty, so the statement metrics of the
+   * istanbul tools match the line metrics and branch coverage is not reported.
+   */
+  coverage?: {
+    /**
+     * Directory for the coverage reports, relative to the config file. Defaults to `coverage`.
+     */
+    outputDir?: string;
+
+    /**
+     * Whether to collect CSS coverage in addition to JavaScript coverage. Defaults to `true`.
+     */
+    css?: boolean;
+
+    /**
+     * Source files matching one of these patterns are not reported. Matching is performed against the absolute file path.
+     * Strings are treated as glob patterns.
+     */
+    exclude?: string|RegExp|Array<string|RegExp>;
+  };
+
   /**
    * Configuration for the `expect` assertion library. Learn more about [various timeouts](https://playwright.dev/docs/test-timeouts).
    *
@@ -1525,6 +1581,60 @@ interface TestConfig<TestArgs = {}, WorkerArgs = {}> {
    */
   preserveOutput?: "always"|"never"|"failures-only";
 
+  /**
+   * Quarantined tests still run and their failures are reported, but they do not fail the test run. Reporters list
+   * quarantined tests separately, and each of them gets a `quarantine` annotation.
+   *
+   * The quarantine file is a JSON array of test ids or test titles in the `'file › describe › test'` form, with the
+   * file path relative to the
+   * [testProject.testDir](https://playwright.dev/docs/api/class-testproject#test-project-test-dir) of the project.
+   * Missing file means that no tests are quarantined.
+   *
+   * **Usage**
+   *
+   * ```js
+   * // playwright.config.ts
+   * import { defineConfig } from '@playwright/test';
+   *
+   * export default defineConfig({
+   *   quarantine: {
+   *     file: './quarantine.json',
+   *     autoQuarantine: { flakyRuns: 2, runs: 10 },
+   *   },
+   * });
+   * ```
+   *
+   * **Details**
+   *
+   * With `autoQuarantine`, Playwright records the outcome of the last `runs` runs of every test in the `.last-run.json`
+   * file in the [testProject.outputDir](https://playwright.dev/docs/api/class-testproject#test-project-output-dir) of
+   * the first project. A test that was flaky at least `flakyRuns` times is added to the quarantine file at the end of
+   * the run. Quarantined tests that passed in each of the last `runs` runs are listed as stable in the terminal summary
+   * and in the `.quarantine-report.json` file next to `.last-run.json`, together with the newly quarantined tests.
+   * Stable tests are not removed from the quarantine file automatically.
+   */
+  quarantine?: {
+    /**
+     * Path to the quarantine file, relative to the config file.
+     */
+    file: string;
+
+    /**
+     * Maintain the quarantine file based on the recent history of the tests.
+     */
+    autoQuarantine?: {
+      /**
+       * Number of flaky runs among the recent runs that puts the test into quarantine.
+       */
+      flakyRuns: number;
+
+      /**
+       * Number of recent runs to consider.
+       */
+      runs: number;
+    };
+  };
+
   /**
    * Whether to suppress stdio and stderr output from the tests.
    *
@@ -1624,6 +1734,28 @@ interface TestConfig<TestArgs = {}, WorkerArgs = {}> {
    */
   runAgents?: "all"|"missing"|"none";
 
+  /**
+   * Whether to record the outcome, duration, retry count and error of each test in the `.run-history.jsonl` file inside
+   * the output directory. The last 50 runs are kept and shown by the `npx playwright history` command and in the
+   * "Trends" tab of the [HTML report](https://playwright.dev/docs/test-reporters#html-reporter). Defaults to `false`.
+   *
+   * When the [blob reporter](https://playwright.dev/docs/test-reporters#blob-reporter) is used, the run is recorded once its reports are
+   * merged with `npx playwright merge-reports`.
+   *
+   * **Usage**
+   *
+   * ```js
+   * // playwright.config.ts
+   * import { defineConfig } from '@playwright/test';
+   *
+   * export default defineConfig({
+   *   runHistory: true,
+   * });
+   * ```
+   *
+   */
+  runHistory?: boolean;
+
   /**
    * Shard tests and execute only the selected shard. Specify in the one-based form like `{ total: 5, current: 2 }`.
    *
@@ -1653,6 +1785,36 @@ interface TestConfig<TestArgs = {}, WorkerArgs = {}> {
     total: number;
   };
 
+  /**
+   * How to distribute tests between
+   * [testConfig.shard](https://playwright.dev/docs/api/class-testconfig#test-config-shard)s. Defaults to `'count'`.
+   * - `'count'` - Every shard gets about the same number of tests.
+   * - `'duration'` - Every shard gets about the same total duration of tests. Durations are taken from the previous
+   *   run, recorded in the `.last-run.json` file in the
+   *   [testProject.outputDir](https://playwright.dev/docs/api/class-testproject#test-project-output-dir) of the first
+   *   project. Tests without a recorded duration are counted as if they took the average duration of the recorded
+   *   tests.
+   *
+   * All shards must see the same recorded durations to agree on the split, so make the `.last-run.json` file available
+   * to every shard, for example by caching it in CI. Running [`merge-reports`](https://playwright.dev/docs/test-sharding#merge-reports-cli)
+   * with a config that sets `shardingStrategy: 'duration'` records the durations of all merged shards.
+   *
+   * Learn more about [parallelism and sharding](https://playwright.dev/docs/test-parallel) with Playwright Test.
+   *
+   * **Usage**
+   *
+   * ```js
+   * // playwright.config.ts
+   * import { defineConfig } from '@playwright/test';
+   *
+   * export default defineConfig({
+   *   shardingStrategy: 'duration',
+   * });
+   * ```
+   *
+   */
+  shardingStrategy?: "count"|"duration";
+
   /**
    * **NOTE** Use
    * [testConfig.snapshotPathTemplate](https://playwright.dev/docs/api/class-testconfig#test-config-snapshot-path-template)
@@ -1855,6 +2017,45 @@ interface TestConfig<TestArgs = {}, WorkerArgs = {}> {
    */
   testIgnore?: string|RegExp|Array<string|RegExp>;
 
+  /**
+   * Collects JavaScript coverage of each test in Chromium and maintains an index of the source files that every test
+   * executes. With the index, `--only-changed` also runs the tests that executed any of the changed files, in addition
+   * to the test files affected through their imports.
+   *
+   * The index is a JSON object that maps source file paths, relative to the config file, to the ids of the tests that
+   * executed them. It is updated at the end of each run with the coverage of the tests that passed, so it should be
+   * produced by a full run and can be committed or shared between the runs.
+   *
+   * **Usage**
+   *
+   * ```js
+   * // playwright.config.ts
+   * import { defineConfig } from '@playwright/test';
+   *
+   * export default defineConfig({
+   *   testImpact: {
+   *     file: './test-impact.json',
+   *   },
+   * });
+   * ```
+   *
+   * **Details**
+   *
+   * Source files are taken from the source maps of the executed scripts, or from the script URLs otherwise. Files
+   * loaded from `file:` URLs are used as is, while the scripts served over HTTP are looked up by their URL path
+   * relative to the config file, so a script served from `http://localhost:3000/web/src/app.js` is indexed as the
+   * `web/src/app.js` file next to the config file. Sources that do not exist on disk and scripts from `node_modules`
+   * are not indexed.
+   *
+   * Coverage is only collected in Chromium, and is lost for the pages that the test closes before it ends.
+   */
+  testImpact?: {
+    /**
+     * Path to the test impact index file, relative to the config file.
+     */
+    file: string;
+  };
+
   /**
    * Only the files matching one of these patterns are executed as test files. Matching is performed against the
    * absolute file path. Strings are treated as glob patterns.
@@ -2086,6 +2086,9 @@ export interface PageChannel extends PageEventTarget, EventTargetChannel {
   pdf(params: PagePdfParams, progress?: Progress): Promise<PagePdfResult>;
   requests(params?: PageRequestsParams, progress?: Progress): Promise<PageRequestsResult>;
   snapshotForAI(params: PageSnapshotForAIParams, progress?: Progress): Promise<PageSnapshotForAIResult>;
+  findForAI(params: PageFindForAIParams, progress?: Progress): Promise<PageFindForAIResult>;
+  auditAccessibility(params: PageAuditAccessibilityParams, progress?: Progress): Promise<PageAuditAccessibilityResult>;
+  tabOrderForAI(params: PageTabOrderForAIParams, progress?: Progress): Promise<PageTabOrderForAIResult>;
   startJSCoverage(params: PageStartJSCoverageParams, progress?: Progress): Promise<PageStartJSCoverageResult>;
   stopJSCoverage(params?: PageStopJSCoverageParams, progress?: Progress): Promise<PageStopJSCoverageResult>;
   startCSSCoverage(params: PageStartCSSCoverageParams, progress?: Progress): Promise<PageStartCSSCoverageResult>;
@@ -2532,15 +2535,70 @@ export type PageRequestsResult = {
 };
 export type PageSnapshotForAIParams = {
   track?: string,
+  ref?: string,
+  depth?: number,
+  maxNodes?: number,
   timeout: number,
 };
 export type PageSnapshotForAIOptions = {
   track?: string,
+  ref?: string,
+  depth?: number,
+  maxNodes?: number,
 };
 export type PageSnapshotForAIResult = {
   full: string,
   incremental?: string,
 };
+export type PageFindForAIParams = {
+  role?: string,
+  text?: string,
+  regex?: string,
+  timeout: number,
+};
+export type PageFindForAIOptions = {
+  role?: string,
+  text?: string,
+  regex?: string,
+};
+export type PageFindForAIResult = {
+  matches: {
+    line: string,
+    ancestors: string[],
+  }[],
+};
+export type PageAuditAccessibilityParams = {
+  focusTraps?: boolean,
+  timeout: number,
+};
+export type PageAuditAccessibilityOptions = {
+  focusTraps?: boolean,
+};
+export type PageAuditAccessibilityResult = {
+  issues: {
+    rule: string,
+    message: string,
+    ref?: string,
+  }[],
+};
+export type PageTabOrderForAIParams = {
+  limit?: number,
+  timeout: number,
+};
+export type PageTabOrderForAIOptions = {
+  limit?: number,
+};
+export type PageTabOrderForAIResult = {
+  elements: {
+    ref?: string,
+    role?: string,
+    name: string,
+    tagName: string,
+    visible: boolean,
+  }[],
+  cycleStart?: number,
+  leftPage: boolean,
+};
 export type PageStartJSCoverageParams = {
   resetOnNavigation?: boolean,
   reportAnonymousScripts?: boolean,
@@ -2698,6 +2756,7 @@ export interface FrameChannel extends FrameEventTarget, Channel {
   focus(params: FrameFocusParams, progress?: Progress): Promise<FrameFocusResult>;
   frameElement(params?: FrameFrameElementParams, progress?: Progress): Promise<FrameFrameElementResult>;
   resolveSelector(params: FrameResolveSelectorParams, progress?: Progress): Promise<FrameResolveSelectorResult>;
+  inspectElement(params: FrameInspectElementParams, progress?: Progress): Promise<FrameInspectElementResult>;
   highlight(params: FrameHighlightParams, progress?: Progress): Promise<FrameHighlightResult>;
   getAttribute(params: FrameGetAttributeParams, progress?: Progress): Promise<FrameGetAttributeResult>;
   goto(params: FrameGotoParams, progress?: Progress): Promise<FrameGotoResult>;
@@ -2967,6 +3026,18 @@ export type FrameResolveSelectorOptions = {
 export type FrameResolveSelectorResult = {
   resolvedSelector: string,
 };
+export type FrameInspectElementParams = {
+  selector: string,
+};
+export type FrameInspectElementOptions = {
+
+};
+export type FrameInspectElementResult = {
+  role?: string,
+  name: string,
+  description: string,
+  selectors: string[],
+};
 export type FrameHighlightParams = {
   selector: string,
 };
@@ -0,0 +1,139 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from './fixtures';
+
+test('browser_a11y_audit', async ({ startClient, server }) => {
+  server.setContent('/', `
+    <button></button>
+    <img src="/image.png">
+    <input type="text">
+    <div role="buton">Fake button</div>
+    <span id="hint">Hint</span><span id="hint">Other hint</span>
+    <input aria-label="Email" aria-describedby="hint">
+  `, 'text/html');
+  const { client } = await startClient({ args: ['--caps=a11y'] });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  const response = await client.callTool({
+    name: 'browser_a11y_audit',
+    arguments: {},
+  });
+  expect(response).toHaveResponse({
+    result: expect.stringContaining(`Found 5 accessibility issues:`),
+  });
+  expect(response).toHaveResponse({
+    result: expect.stringMatching(/- \[missing-name\] Interactive button has no accessible name\. \[ref=e\d+\]/),
+  });
+  expect(response).toHaveResponse({
+    result: expect.stringContaining(`- [image-alt] Image has no alt text.`),
+  });
+  expect(response).toHaveResponse({
+    result: expect.stringMatching(/- \[unlabeled-field\] Form field <input> has no label\. \[ref=e\d+\]/),
+  });
+  expect(response).toHaveResponse({
+    result: expect.stringContaining(`- [invalid-role] Role "buton" is not a valid ARIA role.`),
+  });
+  expect(response).toHaveResponse({
+    result: expect.stringMatching(/- \[duplicate-id\] Id "hint" referenced by aria-describedby is used by 2 elements\. \[ref=e\d+\]/),
+  });
+});
+
+test('browser_a11y_audit focus trap', async ({ startClient, server }) => {
+  server.setContent('/', `
+    <button>Outside</button>
+    <div>
+      <button id="first">First</button>
+      <button id="last">Last</button>
+    </div>
+    <script>
+      document.getElementById('last').addEventListener('keydown', event => {
+        if (event.key !== 'Tab')
+          return;
+        event.preventDefault();
+        document.getElementById('first').focus();
+      });
+    </script>
+  `, 'text/html');
+  const { client } = await startClient({ args: ['--caps=a11y'] });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_a11y_audit',
+    arguments: {},
+  })).toHaveResponse({
+    result: 'No accessibility issues found.',
+  });
+
+  await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: `() => document.querySelector('button').focus()` },
+  });
+  expect(await client.callTool({
+    name: 'browser_a11y_audit',
+    arguments: { focusTraps: true },
+  })).toHaveResponse({
+    result: `Found 1 accessibility issue:
+- [focus-trap] Keyboard focus is trapped in a cycle of 2 out of 3 focusable elements: button "First" [ref=e3], button "Last" [ref=e4]. [ref=e3]`,
+  });
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: `() => document.activeElement.textContent` },
+  })).toHaveResponse({
+    result: `"Outside"`,
+  });
+});
+
+test('browser_a11y_audit no issues', async ({ startClient, server }) => {
+  server.setContent('/', `<label>Name <input></label><button>Submit</button>`, 'text/html');
+  const { client } = await startClient({ args: ['--caps=a11y'] });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_a11y_audit',
+    arguments: {},
+  })).toHaveResponse({
+    result: 'No accessibility issues found.',
+  });
+});
+
+test('browser_a11y_audit is not read-only', async ({ startClient, server }) => {
+  const { client } = await startClient({
+    args: ['--caps=a11y'],
+    config: { permissions: { allowedTools: ['readOnly', 'browser_navigate'] } },
+  });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_a11y_audit',
+    arguments: {},
+  })).toHaveResponse({
+    error: 'Error: Tool "browser_a11y_audit" is not allowed by the permissions policy.',
+    isError: true,
+  });
+});
@@ -20,24 +20,31 @@ test('test snapshot tool list', async ({ client }) => {
   const { tools } = await client.listTools();
   expect(new Set(tools.map(t => t.name))).toEqual(new Set([
     'browser_click',
+    'browser_compare_screenshot',
     'browser_console_messages',
+    'browser_download_read',
+    'browser_downloads',
     'browser_drag',
     'browser_evaluate',
     'browser_file_upload',
     'browser_fill_form',
+    'browser_find',
     'browser_handle_dialog',
     'browser_hover',
+    'browser_inspect',
     'browser_select_option',
     'browser_type',
     'browser_close',
     'browser_install',
     'browser_navigate_back',
     'browser_navigate',
+    'browser_network_request',
     'browser_network_requests',
     'browser_press_key',
     'browser_resize',
     'browser_run_code',
     'browser_snapshot',
+    'browser_tab_order',
     'browser_tabs',
     'browser_take_screenshot',
     'browser_wait_for',
@@ -53,6 +60,60 @@ test('test capabilities (pdf)', async ({ startClient }) => {
   expect(toolNames).toContain('browser_pdf_save');
 });
 
+test('test capabilities (network)', async ({ startClient }) => {
+  const { client } = await startClient({
+    args: ['--caps=network'],
+  });
+  const { tools } = await client.listTools();
+  const toolNames = tools.map(t => t.name);
+  expect(toolNames).toContain('browser_route');
+  expect(toolNames).toContain('browser_route_list');
+  expect(toolNames).toContain('browser_unroute');
+  expect(toolNames).toContain('browser_route_from_har');
+  expect(toolNames).toContain('browser_har_start');
+  expect(toolNames).toContain('browser_har_stop');
+});
+
+test('test capabilities (a11y)', async ({ startClient }) => {
+  const { client } = await startClient({
+    args: ['--caps=a11y'],
+  });
+  const { tools } = await client.listTools();
+  expect(tools.map(t => t.name)).toContain('browser_a11y_audit');
+});
+
+test('test capabilities (contexts)', async ({ startClient }) => {
+  const { client } = await startClient({
+    args: ['--caps=contexts'],
+  });
+  const { tools } = await client.listTools();
+  const toolNames = tools.map(t => t.name);
+  expect(toolNames).toContain('browser_context_new');
+  expect(toolNames).toContain('browser_context_list');
+  expect(toolNames).toContain('browser_context_select');
+  expect(toolNames).toContain('browser_context_close');
+});
+
+test('test capabilities (emulation)', async ({ startClient }) => {
+  const { client } = await startClient({
+    args: ['--caps=emulation'],
+  });
+  const { tools } = await client.listTools();
+  expect(tools.map(t => t.name)).toContain('browser_emulate');
+});
+
+test('test capabilities (storage)', async ({ startClient }) => {
+  const { client } = await startClient({
+    args: ['--caps=storage'],
+  });
+  const { tools } = await client.listTools();
+  const toolNames = tools.map(t => t.name);
+  expect(toolNames).toContain('browser_storage_state_save');
+  expect(toolNames).toContain('browser_storage_state_load');
+  expect(toolNames).toContain('browser_cookie_list');
+  expect(toolNames).toContain('browser_cookie_clear');
+});
+
 test('test capabilities (vision)', async ({ startClient }) => {
   const { client } = await startClient({
     args: ['--caps=vision'],
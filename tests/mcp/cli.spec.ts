@@ -15,6 +15,7 @@
  */
 
 import fs from 'fs';
+import path from 'path';
 import { test, expect, eventsPage } from './cli-fixtures';
 
 test.describe('help', () => {
@@ -39,6 +40,21 @@ test.describe('core', () => {
     expect(snapshot).toContain(`- generic [active] [ref=e1]: Hello, world!`);
   });
 
+  test('open --json', async ({ cli, server }) => {
+    const { output } = await cli('--json', 'open', server.HELLO_WORLD);
+    const json = JSON.parse(output);
+    expect(json.page).toEqual({ url: server.HELLO_WORLD, title: 'Title' });
+    expect(json.tabs).toEqual([{ index: 0, url: server.HELLO_WORLD, title: 'Title', current: true, context: 'default' }]);
+    expect(json.snapshot).toContain(`- generic [active] [ref=e1]: Hello, world!`);
+  });
+
+  test('console --json', async ({ cli, server }) => {
+    await cli('open', server.PREFIX);
+    await cli('eval', 'console.error("error-level")');
+    const { output } = await cli('--json', 'console', 'error');
+    expect(JSON.parse(output).consoleMessages).toEqual([{ type: 'error', text: 'error-level' }]);
+  });
+
   test('close', async ({ cli, server }) => {
     await cli('open', server.HELLO_WORLD);
     const { output } = await cli('close');
@@ -182,6 +198,14 @@ test.describe('core', () => {
     const { output } = await cli('eval', '() => window.innerWidth + "x" + window.innerHeight');
     expect(output).toContain('480x320');
   });
+
+  test('emulate', async ({ cli, server }) => {
+    await cli('open', server.PREFIX);
+    const { output } = await cli('emulate', '--color-scheme=dark', '--offline');
+    expect(output).toContain('- Color scheme: dark');
+    const { output: evalOutput } = await cli('eval', '() => matchMedia("(prefers-color-scheme: dark)").matches + "," + navigator.onLine');
+    expect(evalOutput).toContain('true,false');
+  });
 });
 
 test.describe('navigation', () => {
@@ -291,6 +315,69 @@ test.describe('save as', () => {
     expect(attachments[0].name).toEqual('Page as pdf');
     expect(attachments[0].data).toEqual(expect.any(Buffer));
   });
+
+  test('export-test', async ({ cli, server }) => {
+    server.setContent('/', `<button>Submit</button>`, 'text/html');
+    await cli('open', server.PREFIX);
+    await cli('click', 'e2');
+    const { attachments } = await cli('export-test', '--title', 'submit');
+    expect(attachments[0].name).toEqual('Test');
+    expect(attachments[0].data.toString()).toContain(`test('submit', async ({ page }) => {
+  await page.goto('${server.PREFIX}');
+  await page.getByRole('button', { name: 'Submit' }).click();
+});`);
+  });
+});
+
+test.describe('storage', () => {
+  test('state-save and state-load', async ({ cli, server }) => {
+    await cli('open', server.PREFIX);
+    await cli('eval', '() => localStorage.setItem("user", "John Doe")');
+    const { output } = await cli('state-save', 'auth.json');
+    expect(output).toContain('Storage state saved to');
+    await cli('eval', '() => localStorage.clear()');
+    await cli('state-load', 'auth.json');
+    const { output: evalOutput } = await cli('eval', '() => localStorage.getItem("user")');
+    expect(evalOutput).toContain('John Doe');
+  });
+
+  test('cookie-list and cookie-clear', async ({ cli, server }) => {
+    await cli('open', server.PREFIX);
+    await cli('eval', '() => document.cookie = "session=secret-token"');
+    const { output } = await cli('cookie-list');
+    expect(output).toContain('- session (domain: localhost');
+    expect(output).not.toContain('secret-token');
+    await cli('cookie-clear', '--name', 'session');
+    const { output: clearedOutput } = await cli('cookie-list');
+    expect(clearedOutput).toContain('No cookies.');
+  });
+});
+
+test.describe('network', () => {
+  test('route', async ({ cli, server }) => {
+    await cli('route', '**/api/user', '--body', '{"name":"John Doe"}', '--content-type', 'application/json');
+    await cli('open', server.PREFIX);
+    const { output } = await cli('eval', '() => fetch("/api/user").then(r => r.text())');
+    expect(output).toContain('John Doe');
+    expect(output).toContain(`### Network routes
+- **/api/user => [200] application/json`);
+  });
+
+  test('route-list', async ({ cli }) => {
+    await cli('route', '**/api/user', '--status', '404');
+    const { output } = await cli('route-list');
+    expect(output).toContain('- **/api/user => [404]');
+  });
+
+  test('unroute', async ({ cli, server }) => {
+    server.setContent('/api/user', 'real', 'text/plain');
+    await cli('route', '**/api/user', '--body', 'mocked');
+    await cli('open', server.PREFIX);
+    await cli('unroute', '**/api/user');
+    const { output } = await cli('eval', '() => fetch("/api/user").then(r => r.text())');
+    expect(output).toContain('real');
+    expect(output).not.toContain('### Network routes');
+  });
 });
 
 test.describe('devtools', () => {
@@ -346,6 +433,17 @@ test.describe('devtools', () => {
     expect(attachments[0].data.toString()).not.toContain(`[GET] ${`${server.PREFIX}/hello-world`} => [200] OK`);
   });
 
+  test('network-request', async ({ cli, server }) => {
+    server.setContent('/json', JSON.stringify({ name: 'John Doe' }), 'application/json');
+    await cli('open', server.PREFIX);
+    await cli('eval', '() => fetch("/json")');
+    const { attachments } = await cli('network');
+    const index = attachments[0].data.toString().match(/(\d+)\. \[GET\] .*\/json/)[1];
+    const { output } = await cli('network-request', index);
+    expect(output).toContain(`- GET ${server.PREFIX}/json`);
+    expect(output).toContain(`{"name":"John Doe"}`);
+  });
+
   test('run-code', async ({ cli, server }) => {
     await cli('open', server.HELLO_WORLD);
     const { output } = await cli('run-code', '() => page.title()');
@@ -478,6 +576,41 @@ test.describe('session', () => {
     expect(output).toContain(`No user data found for session 'nonexistent'.`);
   });
 
+  test('replay', async ({ cli, server }, testInfo) => {
+    const outputDir = testInfo.outputPath('output');
+    await fs.promises.writeFile(testInfo.outputPath('playwright-cli.json'), JSON.stringify({ saveSession: true, outputDir }));
+    server.setContent('/', `<button>Submit</button>`, 'text/html');
+
+    await cli('open', server.PREFIX);
+    await cli('click', 'e2');
+
+    const [sessionFolder] = await fs.promises.readdir(outputDir);
+    const logFile = path.join(outputDir, sessionFolder, 'session.jsonl');
+    await expect.poll(() => fs.promises.readFile(logFile, 'utf-8').then(text => text.trim().split('\n').length).catch(() => 0)).toBe(2);
+
+    const { output } = await cli('replay', logFile);
+    expect(output).toContain('- [1/2] browser_navigate');
+    expect(output).toContain('- [2/2] browser_click');
+    expect(output).toContain('Replayed 2 tool calls.');
+
+    server.setContent('/', `<button>Cancel</button>`, 'text/html');
+    await expect(cli('replay', logFile)).rejects.toThrow(/Replay diverged at tool call 1 \(browser_navigate\): the snapshot is different/);
+
+    const { output: listAfter } = await cli('session-list');
+    expect(listAfter).toContain('default (live)');
+    expect(listAfter).not.toContain('replay (live)');
+  });
+
+  test('replay refuses existing session', async ({ cli, server }, testInfo) => {
+    const logFile = testInfo.outputPath('session.jsonl');
+    await fs.promises.writeFile(logFile, JSON.stringify({ name: 'browser_navigate', args: { url: server.HELLO_WORLD } }) + '\n');
+    await cli('open', server.HELLO_WORLD);
+
+    await expect(cli('replay', logFile, '--session=default')).rejects.toThrow(/Session 'default' already exists/);
+    const { output } = await cli('session-list');
+    expect(output).toContain('default (live)');
+  });
+
   test('session stops when browser exits', async ({ cli, server }) => {
     await cli('open', server.HELLO_WORLD);
 
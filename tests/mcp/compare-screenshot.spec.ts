@@ -0,0 +1,120 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { test, expect } from './fixtures';
+
+test('browser_compare_screenshot', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const { client } = await startClient({
+    config: { outputDir },
+  });
+  server.setContent('/', `<div style="width: 100px; height: 100px; background: green"></div>`, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_compare_screenshot',
+    arguments: { baseline: 'home.png' },
+  })).toHaveResponse({
+    result: 'Created baseline home.png.',
+  });
+  expect(fs.existsSync(path.join(outputDir, 'home.png'))).toBe(true);
+
+  expect(await client.callTool({
+    name: 'browser_compare_screenshot',
+    arguments: { baseline: 'home.png' },
+  })).toHaveResponse({
+    code: `await expect(page).toHaveScreenshot('home.png');`,
+    result: expect.stringMatching(/- Baseline: home.png\n- Mismatch ratio: 0 \(0 of \d+ pixels differ\)\n- Result: matches the baseline/),
+  });
+
+  server.setContent('/', `<div style="width: 100px; height: 100px; background: red"></div>`, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_compare_screenshot',
+    arguments: { baseline: 'home.png' },
+  })).toHaveResponse({
+    result: expect.stringContaining(`- Result: does not match the baseline`),
+    attachments: [{
+      data: expect.any(String),
+      mimeType: 'image/png',
+      type: 'image',
+    }],
+  });
+  expect(fs.existsSync(path.join(outputDir, 'home-diff.png'))).toBe(true);
+
+  expect(await client.callTool({
+    name: 'browser_compare_screenshot',
+    arguments: { baseline: 'home.png', maxDiffPixelRatio: 0.5 },
+  })).toHaveResponse({
+    code: `await expect(page).toHaveScreenshot('home.png', { maxDiffPixelRatio: 0.5 });`,
+    result: expect.stringContaining(`- Result: matches the baseline`),
+  });
+
+  expect(await client.callTool({
+    name: 'browser_compare_screenshot',
+    arguments: { baseline: 'home.png', threshold: 0.3, maxDiffPixelRatio: 0.5 },
+  })).toHaveResponse({
+    code: `await expect(page).toHaveScreenshot('home.png', { maxDiffPixelRatio: 0.5, threshold: 0.3 });`,
+    result: expect.stringContaining(`- Result: matches the baseline`),
+  });
+
+  expect(await client.callTool({
+    name: 'browser_compare_screenshot',
+    arguments: { baseline: 'home.png', update: true },
+  })).toHaveResponse({
+    result: 'Updated baseline home.png.',
+  });
+
+  expect(await client.callTool({
+    name: 'browser_compare_screenshot',
+    arguments: { baseline: 'home.png' },
+  })).toHaveResponse({
+    result: expect.stringContaining(`- Result: matches the baseline`),
+  });
+});
+
+test('browser_compare_screenshot (element)', async ({ startClient, server }, testInfo) => {
+  const { client } = await startClient({
+    config: { outputDir: testInfo.outputPath('output') },
+  });
+  server.setContent('/', `<button>Submit</button>`, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  await client.callTool({
+    name: 'browser_compare_screenshot',
+    arguments: { baseline: 'button.png', ref: 'e2' },
+  });
+  expect(await client.callTool({
+    name: 'browser_compare_screenshot',
+    arguments: { baseline: 'button.png', ref: 'e2' },
+  })).toHaveResponse({
+    code: `await expect(page.getByRole('button', { name: 'Submit' })).toHaveScreenshot('button.png');`,
+    result: expect.stringContaining(`- Result: matches the baseline`),
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { test, expect } from './fixtures';
+
+test('browser_context_new isolates storage', async ({ startClient, server }) => {
+  server.setContent('/', `<title>Shop</title>`, 'text/html');
+  const { client } = await startClient({
+    args: ['--caps=contexts'],
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: `() => localStorage.setItem('user', 'admin')` },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_context_new',
+    arguments: { name: 'customer' },
+  })).toHaveResponse({
+    result: `- default: 1 tab
+- customer (current): 1 tab`,
+  });
+
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  })).toHaveResponse({
+    tabs: `- 0: [Shop](${server.PREFIX}/) (context: default)
+- 1: (current) [Shop](${server.PREFIX}/) (context: customer)`,
+  });
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: `() => localStorage.getItem('user')` },
+  })).toHaveResponse({
+    result: 'null',
+  });
+
+  expect(await client.callTool({
+    name: 'browser_context_select',
+    arguments: { name: 'default' },
+  })).toHaveResponse({
+    result: `- default (current): 1 tab
+- customer: 1 tab`,
+  });
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: `() => localStorage.getItem('user')` },
+  })).toHaveResponse({
+    result: '"admin"',
+  });
+});
+
+test('browser_context_new opens new tabs in the current context', async ({ startClient, server }) => {
+  const { client } = await startClient({
+    args: ['--caps=contexts'],
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  await client.callTool({
+    name: 'browser_context_new',
+    arguments: { name: 'admin' },
+  });
+  await client.callTool({
+    name: 'browser_tabs',
+    arguments: { action: 'new' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_context_list',
+  })).toHaveResponse({
+    result: `- default: 1 tab
+- admin (current): 2 tabs`,
+  });
+});
+
+test('browser_context_new with storage state', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  await fs.promises.mkdir(outputDir, { recursive: true });
+  await fs.promises.writeFile(path.join(outputDir, 'auth.json'), JSON.stringify({
+    cookies: [],
+    origins: [{ origin: server.PREFIX, localStorage: [{ name: 'user', value: 'John Doe' }] }],
+  }));
+  const { client } = await startClient({
+    args: [`--output-dir=${outputDir}`, '--caps=contexts'],
+  });
+
+  await client.callTool({
+    name: 'browser_context_new',
+    arguments: { name: 'user', storageState: 'auth.json' },
+  });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: `() => localStorage.getItem('user')` },
+  })).toHaveResponse({
+    result: '"John Doe"',
+  });
+
+  expect(await client.callTool({
+    name: 'browser_context_new',
+    arguments: { name: 'other', storageState: 'missing.json' },
+  })).toHaveResponse({
+    error: 'Error: Storage state file missing.json does not exist.',
+    isError: true,
+  });
+});
+
+test('browser_context_new errors', async ({ startClient }) => {
+  const { client } = await startClient({
+    args: ['--caps=contexts'],
+  });
+
+  expect(await client.callTool({
+    name: 'browser_context_new',
+    arguments: { name: 'mobile', device: 'Unknown Phone' },
+  })).toHaveResponse({
+    error: 'Error: Unknown device "Unknown Phone".',
+    isError: true,
+  });
+
+  expect(await client.callTool({
+    name: 'browser_context_new',
+    arguments: { name: 'default' },
+  })).toHaveResponse({
+    error: 'Error: Browser context "default" already exists.',
+    isError: true,
+  });
+});
+
+test('browser_context_close', async ({ startClient, server }) => {
+  const { client } = await startClient({
+    args: ['--caps=contexts'],
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  await client.callTool({
+    name: 'browser_context_new',
+    arguments: { name: 'admin' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_context_close',
+    arguments: { name: 'admin' },
+  })).toHaveResponse({
+    result: `- default (current): 1 tab`,
+  });
+
+  expect(await client.callTool({
+    name: 'browser_context_close',
+    arguments: { name: 'admin' },
+  })).toHaveResponse({
+    error: 'Error: Browser context "admin" not found.',
+    isError: true,
+  });
+
+  expect(await client.callTool({
+    name: 'browser_context_close',
+    arguments: { name: 'default' },
+  })).toHaveResponse({
+    error: 'Error: The default browser context cannot be closed, use browser_close instead.',
+    isError: true,
+  });
+});
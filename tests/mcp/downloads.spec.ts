@@ -0,0 +1,159 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+
+import { test, expect } from './fixtures';
+
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { TestServer } from '../config/testserver';
+
+async function download(client: Client, server: TestServer, fileName: string, body: string | Buffer, contentType: string) {
+  server.setContent('/', `<a href="/download" download="${fileName}">Download</a>`, 'text/html');
+  server.setRoute('/download', (req, res) => {
+    res.writeHead(200, { 'Content-Type': contentType });
+    res.end(body);
+  });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Download link', ref: 'e2' },
+  });
+}
+
+test('browser_downloads', async ({ startClient, server }, testInfo) => {
+  const { client } = await startClient({
+    config: { outputDir: testInfo.outputPath('output') },
+  });
+
+  // Listing tools makes the client validate the results against the output schemas.
+  const { tools } = await client.listTools();
+  expect(tools.find(tool => tool.name === 'browser_downloads')!.outputSchema!.properties).toEqual(expect.objectContaining({
+    downloads: expect.anything(),
+  }));
+  expect(tools.find(tool => tool.name === 'browser_click')!.outputSchema!.properties).not.toHaveProperty('downloads');
+
+  expect(await client.callTool({
+    name: 'browser_downloads',
+  })).toHaveResponse({
+    result: 'No downloads.',
+  });
+
+  await download(client, server, 'report.csv', 'name,qty\nApple,1\n', 'text/csv');
+  await expect.poll(async () => (await client.callTool({
+    name: 'browser_downloads',
+  })).structuredContent).toEqual(expect.objectContaining({
+    downloads: [{
+      index: 1,
+      filename: 'report.csv',
+      url: `${server.PREFIX}/download`,
+      status: 'finished',
+      size: 17,
+      path: `output${path.sep}report.csv`,
+    }],
+  }));
+
+  expect(await client.callTool({
+    name: 'browser_downloads',
+  })).toHaveResponse({
+    result: `1. [finished] report.csv from ${server.PREFIX}/download (17 bytes) => "output${path.sep}report.csv"`,
+  });
+});
+
+test('browser_download_read csv', async ({ startClient, server }, testInfo) => {
+  const { client } = await startClient({
+    config: { outputDir: testInfo.outputPath('output') },
+  });
+  const csv = 'name,description\nApple,"Red, sweet"\nBanana,"Says ""hi"""\n';
+  await download(client, server, 'report.csv', csv, 'text/csv');
+
+  expect(await client.callTool({
+    name: 'browser_download_read',
+    arguments: { index: 1 },
+  })).toHaveResponse({
+    result: `- File: report.csv
+- Saved to: output${path.sep}report.csv
+- Size: ${csv.length} bytes
+- SHA-256: ${crypto.createHash('sha256').update(csv).digest('hex')}
+
+#### CSV preview
+- Columns: name, description
+- Rows: 2
+
+| name | description |
+| --- | --- |
+| Apple | Red, sweet |
+| Banana | Says "hi" |
+
+#### Content
+${csv.trim()}`,
+  });
+});
+
+test('browser_download_read json', async ({ startClient, server }, testInfo) => {
+  const { client } = await startClient({
+    config: { outputDir: testInfo.outputPath('output') },
+  });
+  await download(client, server, 'data.json', JSON.stringify([{ id: 1 }, { id: 2 }]), 'application/json');
+
+  expect(await client.callTool({
+    name: 'browser_download_read',
+    arguments: { index: 1 },
+  })).toHaveResponse({
+    result: expect.stringContaining(`#### JSON preview
+- Array of 2 items
+
+#### Content
+[{"id":1},{"id":2}]`),
+  });
+});
+
+test('browser_download_read binary', async ({ startClient, server }, testInfo) => {
+  const { client } = await startClient({
+    config: { outputDir: testInfo.outputPath('output') },
+  });
+  const data = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x00, 0x00]);
+  await download(client, server, 'archive.zip', data, 'application/zip');
+
+  expect(await client.callTool({
+    name: 'browser_download_read',
+    arguments: { index: 1 },
+  })).toHaveResponse({
+    result: `- File: archive.zip
+- Saved to: output${path.sep}archive.zip
+- Size: 6 bytes
+- SHA-256: ${crypto.createHash('sha256').update(data).digest('hex')}
+- Content: binary, application/zip`,
+  });
+});
+
+test('browser_download_read not found', async ({ client, server }) => {
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  expect(await client.callTool({
+    name: 'browser_download_read',
+    arguments: { index: 1 },
+  })).toHaveResponse({
+    error: 'Error: Download 1 not found. Use browser_downloads to list available downloads.',
+    isError: true,
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from './fixtures';
+
+test('browser_emulate device', async ({ startClient, server }) => {
+  server.setContent('/', `<title>Shop</title>`, 'text/html');
+  const { client } = await startClient({
+    args: ['--caps=emulation'],
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: `() => localStorage.setItem('cart', '3 items')` },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_emulate',
+    arguments: { device: 'iPhone 15', locale: 'de-DE' },
+  })).toHaveResponse({
+    result: `Reopened the page in the "emulated" browser context.
+- Device: iPhone 15
+- Locale: de-DE`,
+    code: `// Emulate with test.use({ ...devices['iPhone 15'], locale: 'de-DE' }) in the test file`,
+    tabs: expect.stringContaining(`(current) [Shop](${server.PREFIX}/) (context: emulated)`),
+  });
+
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: `() => [navigator.userAgent.includes('iPhone'), navigator.language, window.innerWidth, localStorage.getItem('cart')]` },
+  })).toHaveResponse({
+    result: `[
+  true,
+  "de-DE",
+  393,
+  "3 items"
+]`,
+  });
+});
+
+test('browser_emulate keeps the user context with the same name', async ({ startClient, server }) => {
+  server.setContent('/', `<title>Shop</title>`, 'text/html');
+  const { client } = await startClient({
+    args: ['--caps=emulation,contexts'],
+  });
+
+  await client.callTool({
+    name: 'browser_context_new',
+    arguments: { name: 'emulated' },
+  });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_emulate',
+    arguments: { locale: 'de-DE' },
+  })).toHaveResponse({
+    result: expect.stringContaining(`Reopened the page in the "emulated-2" browser context.`),
+  });
+
+  expect(await client.callTool({
+    name: 'browser_emulate',
+    arguments: { locale: 'fr-FR' },
+  })).toHaveResponse({
+    result: expect.stringContaining(`Reopened the page in the "emulated-2" browser context.`),
+  });
+
+  expect(await client.callTool({
+    name: 'browser_context_list',
+  })).toHaveResponse({
+    result: expect.stringContaining(`- emulated: 1 tab
+- emulated-2 (current): 1 tab`),
+  });
+});
+
+test('browser_emulate keeps the previous emulated context when reopening fails', async ({ startClient, server }) => {
+  server.setContent('/', `<title>Shop</title>`, 'text/html');
+  const { client } = await startClient({
+    args: ['--caps=emulation,contexts'],
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_emulate',
+    arguments: { locale: 'de-DE' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_emulate',
+    arguments: { timezoneId: 'Invalid/Timezone' },
+  })).toHaveResponse({
+    error: expect.stringContaining('Invalid timezone ID: Invalid/Timezone'),
+    isError: true,
+  });
+
+  expect(await client.callTool({
+    name: 'browser_context_list',
+  })).toHaveResponse({
+    result: expect.stringContaining(`- emulated (current): 1 tab`),
+  });
+});
+
+test('browser_emulate color scheme and offline', async ({ startClient, server }) => {
+  const { client } = await startClient({
+    args: ['--caps=emulation'],
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_emulate',
+    arguments: { colorScheme: 'dark', offline: true },
+  })).toHaveResponse({
+    result: `- Color scheme: dark
+- Offline: true`,
+    code: `await page.emulateMedia({ colorScheme: 'dark' });
+await page.context().setOffline(true);`,
+  });
+
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: `() => [matchMedia('(prefers-color-scheme: dark)').matches, navigator.onLine]` },
+  })).toHaveResponse({
+    result: `[
+  true,
+  false
+]`,
+  });
+
+  await client.callTool({
+    name: 'browser_emulate',
+    arguments: { offline: false },
+  });
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: `() => navigator.onLine` },
+  })).toHaveResponse({
+    result: 'true',
+  });
+});
+
+test('browser_emulate geolocation', async ({ startClient, server }) => {
+  const { client } = await startClient({
+    args: ['--caps=emulation'],
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  expect(await client.callTool({
+    name: 'browser_emulate',
+    arguments: { geolocation: { latitude: 52.52, longitude: 13.4 } },
+  })).toHaveResponse({
+    result: `- Geolocation: 52.52, 13.4`,
+  });
+
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: `() => new Promise(resolve => navigator.geolocation.getCurrentPosition(position => resolve([position.coords.latitude, position.coords.longitude])))` },
+  })).toHaveResponse({
+    result: `[
+  52.52,
+  13.4
+]`,
+  });
+});
+
+test('browser_emulate errors', async ({ startClient }) => {
+  const { client } = await startClient({
+    args: ['--caps=emulation'],
+  });
+
+  expect(await client.callTool({
+    name: 'browser_emulate',
+    arguments: { device: 'Unknown Phone' },
+  })).toHaveResponse({
+    error: 'Error: Unknown device "Unknown Phone".',
+    isError: true,
+  });
+
+  expect(await client.callTool({
+    name: 'browser_emulate',
+    arguments: {},
+  })).toHaveResponse({
+    error: 'Error: Nothing to emulate, provide at least one option.',
+    isError: true,
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { test, expect } from './fixtures';
+
+test('browser_export_test', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const secretsFile = testInfo.outputPath('secrets.env');
+  await fs.promises.writeFile(secretsFile, 'X-PASSWORD=password123');
+  server.setContent('/', `
+    <title>Login</title>
+    <input aria-label="Password"></input>
+    <button onclick="document.body.append('Welcome')">Log in</button>
+  `, 'text/html');
+
+  const { client } = await startClient({
+    args: ['--caps=testing', `--output-dir=${outputDir}`, '--secrets', secretsFile],
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_type',
+    arguments: { element: 'Password textbox', ref: 'e2', text: 'X-PASSWORD' },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Log in button', ref: 'e3' },
+  });
+  await client.callTool({
+    name: 'browser_verify_text_visible',
+    arguments: { text: 'Welcome' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_export_test',
+    arguments: { title: 'user can log in', filename: 'login.spec.ts' },
+  })).toHaveResponse({
+    result: expect.stringContaining('login.spec.ts'),
+  });
+
+  expect(await fs.promises.readFile(path.join(outputDir, 'login.spec.ts'), 'utf-8')).toBe(`import { test, expect } from '@playwright/test';
+
+test('user can log in', async ({ page }) => {
+  await page.goto('${server.PREFIX}');
+  await page.getByRole('textbox', { name: 'Password' }).fill(process.env['X-PASSWORD']);
+  await page.getByRole('button', { name: 'Log in' }).click();
+  await expect(page.getByText('Welcome')).toBeVisible();
+});
+`);
+});
+
+test('browser_export_test skips tools without code', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  server.setContent('/', `<button>Submit</button>`, 'text/html');
+
+  const { client } = await startClient({
+    args: ['--caps=testing', `--output-dir=${outputDir}`],
+  });
+
+  await client.callTool({
+    name: 'browser_snapshot',
+  });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Submit button', ref: 'e2' },
+  });
+
+  await client.callTool({
+    name: 'browser_export_test',
+    arguments: { filename: 'submit.spec.ts' },
+  });
+  expect(await fs.promises.readFile(path.join(outputDir, 'submit.spec.ts'), 'utf-8')).toContain(`test('recorded session', async ({ page }) => {
+  await page.goto('${server.PREFIX}');
+  await page.getByRole('button', { name: 'Submit' }).click();
+});`);
+});
+
+test('browser_export_test with no actions', async ({ startClient }) => {
+  const { client } = await startClient({
+    args: ['--caps=testing'],
+  });
+
+  expect(await client.callTool({
+    name: 'browser_export_test',
+  })).toHaveResponse({
+    error: 'Error: No actions were performed in this session, there is nothing to export.',
+    isError: true,
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from './fixtures';
+
+test.beforeEach(async ({ client, server }) => {
+  server.setContent('/', `
+    <h1>Shop</h1>
+    <ul>
+      <li>Apple <button>Add apple to cart</button></li>
+      <li>Banana <button>Add banana to cart</button></li>
+    </ul>
+    <a href="/cart">Cart</a>
+  `, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+});
+
+test('browser_find by text', async ({ client }) => {
+  expect(await client.callTool({
+    name: 'browser_find',
+    arguments: { text: 'banana' },
+  })).toHaveResponse({
+    result: `Found 2 matching elements:
+- text: Banana
+  in: generic [ref=e1] > list [ref=e3] > listitem [ref=e6]
+- button "Add banana to cart" [ref=e7]
+  in: generic [ref=e1] > list [ref=e3] > listitem [ref=e6]`,
+  });
+});
+
+test('browser_find by role', async ({ client }) => {
+  expect(await client.callTool({
+    name: 'browser_find',
+    arguments: { role: 'link' },
+  })).toHaveResponse({
+    result: `Found 1 matching element:
+- link "Cart" [ref=e8]
+  in: generic [ref=e1]`,
+  });
+});
+
+test('browser_find by regex', async ({ client }) => {
+  expect(await client.callTool({
+    name: 'browser_find',
+    arguments: { regex: '^Add .* to cart$', role: 'button' },
+  })).toHaveResponse({
+    result: expect.stringMatching(/^Found 2 matching elements:\n- button "Add apple to cart" \[ref=e5\]/),
+  });
+});
+
+test('browser_find paging', async ({ client }) => {
+  expect(await client.callTool({
+    name: 'browser_find',
+    arguments: { role: 'button', limit: 1 },
+  })).toHaveResponse({
+    result: `Found 2 matching elements, showing 1-1:
+- button "Add apple to cart" [ref=e5]
+  in: generic [ref=e1] > list [ref=e3] > listitem [ref=e4]
+Use offset=1 to see more matches.`,
+  });
+
+  expect(await client.callTool({
+    name: 'browser_find',
+    arguments: { role: 'button', offset: 1, limit: 1 },
+  })).toHaveResponse({
+    result: `Found 2 matching elements, showing 2-2:
+- button "Add banana to cart" [ref=e7]
+  in: generic [ref=e1] > list [ref=e3] > listitem [ref=e6]`,
+  });
+});
+
+test('browser_find no matches', async ({ client }) => {
+  expect(await client.callTool({
+    name: 'browser_find',
+    arguments: { text: 'cherry' },
+  })).toHaveResponse({
+    result: 'No matching elements found.',
+  });
+});
+
+test('browser_find errors', async ({ client }) => {
+  expect(await client.callTool({
+    name: 'browser_find',
+    arguments: {},
+  })).toHaveResponse({
+    error: 'Error: Provide at least one of text, role or regex to search for.',
+    isError: true,
+  });
+
+  expect(await client.callTool({
+    name: 'browser_find',
+    arguments: { regex: '(' },
+  })).toHaveResponse({
+    error: 'Error: Invalid regular expression: (.',
+    isError: true,
+  });
+});
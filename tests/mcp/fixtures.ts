@@ -22,7 +22,7 @@ import { Loop } from '@lowire/loop';
 import { test as baseTest, expect as baseExpect } from '@playwright/test';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { ListRootsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { ElicitRequestSchema, ListRootsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { TestServer } from '../config/testserver';
 import { serverFixtures } from '../config/serverFixtures';
 import { parseResponse } from '../../packages/playwright/lib/mcp/browser/response';
@@ -32,6 +32,7 @@ import type { CommonFixtures, CommonWorkerFixtures } from '../config/commonFixtu
 import type { Config } from '../../packages/playwright/src/mcp/config';
 import type { BrowserContext } from 'playwright';
 import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { ElicitRequest, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
 import type { Stream } from 'stream';
 import type { ServerFixtures, ServerWorkerOptions } from '../config/serverFixtures';
 
@@ -56,6 +57,7 @@ export type StartClient = (options?: {
   config?: Config,
   roots?: { name: string, uri: string }[],
   rootsResponseDelay?: number,
+  elicitation?: (request: ElicitRequest) => Promise<ElicitResult>,
   env?: NodeJS.ProcessEnv,
   noTimeoutForTest?: boolean,
 }) => Promise<{ client: Client, stderr: () => string }>;
@@ -118,7 +120,11 @@ export const test = serverTest.extend<TestFixtures & TestOptions, WorkerFixtures
       if (options?.omitArgs)
         args = args.filter(arg => !options.omitArgs?.includes(arg));
 
-      const client = new Client({ name: options?.clientName ?? 'test', version: '1.0.0' }, options?.roots ? { capabilities: { roots: {} } } : undefined);
+      const capabilities = {
+        ...(options?.roots ? { roots: {} } : {}),
+        ...(options?.elicitation ? { elicitation: { form: {} } } : {}),
+      };
+      const client = new Client({ name: options?.clientName ?? 'test', version: '1.0.0' }, Object.keys(capabilities).length ? { capabilities } : undefined);
       if (options?.roots) {
         client.setRequestHandler(ListRootsRequestSchema, async request => {
           if (options.rootsResponseDelay)
@@ -128,6 +134,8 @@ export const test = serverTest.extend<TestFixtures & TestOptions, WorkerFixtures
           };
         });
       }
+      if (options?.elicitation)
+        client.setRequestHandler(ElicitRequestSchema, options.elicitation);
       const env = {
         ...process.env,
         PW_TMPDIR_FOR_TEST: testInfo.outputPath('tmp'),
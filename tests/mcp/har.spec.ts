@@ -0,0 +1,328 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { test, expect } from './fixtures';
+
+test('check that har is saved with --save-har', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+
+  const { client } = await startClient({
+    args: ['--save-har', `--output-dir=${outputDir}`],
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  await client.callTool({
+    name: 'browser_close',
+  });
+
+  const files = await fs.promises.readdir(outputDir);
+  const harFile = files.find(file => file.endsWith('.har'));
+  expect(harFile).toMatch(/^har-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z\.har$/);
+  const har = JSON.parse(await fs.promises.readFile(path.join(outputDir, harFile!), 'utf-8'));
+  expect(har.log.entries.map(entry => entry.request.url)).toContain(server.HELLO_WORLD);
+});
+
+test('check that har is saved with config urlFilter', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  server.setContent('/', `<script>fetch('/api/data')</script>`, 'text/html');
+  server.setContent('/api/data', '{}', 'application/json');
+
+  const { client } = await startClient({
+    config: { outputDir, saveHar: { urlFilter: '**/api/**' } },
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_close',
+  });
+
+  const files = await fs.promises.readdir(outputDir);
+  const harFile = files.find(file => file.endsWith('.har'));
+  const har = JSON.parse(await fs.promises.readFile(path.join(outputDir, harFile!), 'utf-8'));
+  expect(har.log.entries.map(entry => entry.request.url)).toEqual([server.PREFIX + '/api/data']);
+});
+
+test('browser_har_start and browser_har_stop', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  server.setContent('/', `<button onclick="fetch('/api/data')">Load</button>`, 'text/html');
+  server.setContent('/api/data', JSON.stringify({ name: 'John Doe' }), 'application/json');
+
+  const { client } = await startClient({
+    args: [`--output-dir=${outputDir}`, '--caps=network'],
+  });
+
+  expect(await client.callTool({
+    name: 'browser_har_start',
+    arguments: { filename: 'session.har' },
+  })).toHaveResponse({
+    result: `HAR recording started, saving to ${path.join(outputDir, 'session.har')}.`,
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Load button', ref: 'e2' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_har_stop',
+  })).toHaveResponse({
+    result: `HAR recording stopped, saved to ${path.join(outputDir, 'session.har')}.`,
+  });
+
+  const har = JSON.parse(await fs.promises.readFile(path.join(outputDir, 'session.har'), 'utf-8'));
+  const entry = har.log.entries.find(entry => entry.request.url === server.PREFIX + '/api/data');
+  expect(entry.response.content.text).toBe(JSON.stringify({ name: 'John Doe' }));
+
+  expect(await client.callTool({
+    name: 'browser_har_stop',
+  })).toHaveResponse({
+    error: 'Error: HAR recording is not in progress. Use browser_har_start to start recording.',
+    isError: true,
+  });
+});
+
+test('browser_har_start with attached content', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const { client } = await startClient({
+    args: [`--output-dir=${outputDir}`, '--caps=network'],
+  });
+
+  await client.callTool({
+    name: 'browser_har_start',
+    arguments: { filename: 'session.zip', content: 'attach' },
+  });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  await client.callTool({
+    name: 'browser_har_stop',
+  });
+
+  expect(fs.existsSync(path.join(outputDir, 'session.zip'))).toBe(true);
+});
+
+test('browser_har_start twice', async ({ startClient }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const { client } = await startClient({
+    args: [`--output-dir=${outputDir}`, '--caps=network'],
+  });
+
+  await client.callTool({
+    name: 'browser_har_start',
+    arguments: { filename: 'session.har' },
+  });
+  expect(await client.callTool({
+    name: 'browser_har_start',
+  })).toHaveResponse({
+    error: expect.stringContaining('HAR recording is already in progress'),
+    isError: true,
+  });
+});
+
+test('browser_har_start after the browser was closed', async ({ startClient }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const { client } = await startClient({
+    args: [`--output-dir=${outputDir}`, '--caps=network'],
+  });
+
+  await client.callTool({
+    name: 'browser_har_start',
+    arguments: { filename: 'first.har' },
+  });
+  await client.callTool({
+    name: 'browser_close',
+  });
+  expect(await client.callTool({
+    name: 'browser_har_start',
+    arguments: { filename: 'second.har' },
+  })).toHaveResponse({
+    result: `HAR recording started, saving to ${path.join(outputDir, 'second.har')}.`,
+  });
+});
+
+function createHar(url: string, text: string) {
+  return JSON.stringify({
+    log: {
+      version: '1.2',
+      creator: { name: 'test', version: '1.0' },
+      entries: [{
+        startedDateTime: new Date().toISOString(),
+        time: 0,
+        request: { method: 'GET', url, httpVersion: 'HTTP/1.1', cookies: [], headers: [], queryString: [], headersSize: -1, bodySize: 0 },
+        response: {
+          status: 200,
+          statusText: 'OK',
+          httpVersion: 'HTTP/1.1',
+          cookies: [],
+          headers: [{ name: 'Content-Type', value: 'text/html' }],
+          content: { size: text.length, mimeType: 'text/html', text },
+          redirectURL: '',
+          headersSize: -1,
+          bodySize: text.length,
+        },
+        cache: {},
+        timings: { send: 0, wait: 0, receive: 0 },
+      }],
+    },
+  });
+}
+
+test('browser.har config replays responses', async ({ startClient, server }, testInfo) => {
+  const harPath = testInfo.outputPath('replay.har');
+  await fs.promises.writeFile(harPath, createHar(server.PREFIX + '/page', '<title>Replayed</title>'));
+
+  const { client } = await startClient({
+    config: { browser: { har: { path: harPath } } },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX + '/page' },
+  })).toHaveResponse({
+    page: expect.stringContaining('- Page Title: Replayed'),
+    routes: `- ** => HAR ${harPath}, not found: abort`,
+  });
+
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX + '/missing' },
+  })).toHaveResponse({
+    isError: true,
+  });
+});
+
+test('browser_route_from_har', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  await fs.promises.mkdir(outputDir, { recursive: true });
+  await fs.promises.writeFile(path.join(outputDir, 'replay.har'), createHar(server.PREFIX + '/page', '<title>Replayed</title>'));
+  server.setContent('/other', '<title>Network</title>', 'text/html');
+
+  const { client } = await startClient({
+    args: [`--output-dir=${outputDir}`, '--caps=network'],
+  });
+
+  expect(await client.callTool({
+    name: 'browser_route_from_har',
+    arguments: { filename: 'replay.har', urlFilter: '**/page', notFound: 'fallback' },
+  })).toHaveResponse({
+    result: `Serving **/page from ${path.join(outputDir, 'replay.har')}.`,
+    code: `await page.context().routeFromHAR('${path.join(outputDir, 'replay.har')}', { notFound: 'fallback', url: '**/page' });`,
+  });
+
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX + '/page' },
+  })).toHaveResponse({
+    page: expect.stringContaining('- Page Title: Replayed'),
+  });
+
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX + '/other' },
+  })).toHaveResponse({
+    page: expect.stringContaining('- Page Title: Network'),
+  });
+});
+
+test('browser_route takes precedence over a later browser_route_from_har', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  await fs.promises.mkdir(outputDir, { recursive: true });
+  await fs.promises.writeFile(path.join(outputDir, 'replay.har'), createHar(server.PREFIX + '/page', '<title>Replayed</title>'));
+
+  const { client } = await startClient({
+    args: [`--output-dir=${outputDir}`, '--caps=network'],
+  });
+
+  await client.callTool({
+    name: 'browser_route',
+    arguments: { url: '**/page', body: '<title>Mocked</title>', contentType: 'text/html' },
+  });
+  await client.callTool({
+    name: 'browser_route_from_har',
+    arguments: { filename: 'replay.har' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX + '/page' },
+  })).toHaveResponse({
+    page: expect.stringContaining('- Page Title: Mocked'),
+  });
+});
+
+test('browser_unroute removes HAR routes', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  await fs.promises.mkdir(outputDir, { recursive: true });
+  const harFile = path.join(outputDir, 'replay.har');
+  await fs.promises.writeFile(harFile, createHar(server.PREFIX + '/page', '<title>Replayed</title>'));
+  server.setContent('/page', '<title>Network</title>', 'text/html');
+
+  const { client } = await startClient({
+    args: [`--output-dir=${outputDir}`, '--caps=network'],
+  });
+
+  await client.callTool({
+    name: 'browser_route_from_har',
+    arguments: { filename: 'replay.har', urlFilter: '**/page' },
+  });
+  expect(await client.callTool({
+    name: 'browser_route_from_har',
+    arguments: { filename: 'replay.har', urlFilter: '**/page', notFound: 'fallback' },
+  })).toHaveResponse({
+    routes: `- **/page => HAR ${harFile}, not found: fallback`,
+  });
+
+  expect(await client.callTool({
+    name: 'browser_unroute',
+  })).toHaveResponse({
+    result: 'Removed 1 route.',
+    routes: undefined,
+  });
+
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX + '/page' },
+  })).toHaveResponse({
+    page: expect.stringContaining('- Page Title: Network'),
+  });
+});
+
+test('browser_route_from_har missing file', async ({ startClient }, testInfo) => {
+  const { client } = await startClient({
+    args: [`--output-dir=${testInfo.outputPath('output')}`, '--caps=network'],
+  });
+
+  expect(await client.callTool({
+    name: 'browser_route_from_har',
+    arguments: { filename: 'missing.har' },
+  })).toHaveResponse({
+    error: 'Error: HAR file missing.har does not exist.',
+    isError: true,
+  });
+});
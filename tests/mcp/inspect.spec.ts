@@ -0,0 +1,97 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from './fixtures';
+
+test('browser_inspect', async ({ client, server }) => {
+  server.setContent('/', `
+    <style>body { margin: 0; } button { position: absolute; left: 10px; top: 20px; width: 100px; height: 30px; }</style>
+    <button id="submit" data-testid="submit-button" title="Send the form">Submit</button>
+  `, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_inspect',
+    arguments: { ref: 'e2' },
+  })).toHaveResponse({
+    result: expect.stringContaining(`- Element: <button>
+- Role: button
+- Accessible name: "Submit"
+- Accessible description: "Send the form"
+- Bounding box: x=10, y=20, width=100, height=30
+- State: visible, enabled, not editable
+
+Attributes:
+- id="submit"
+- data-testid="submit-button"
+- title="Send the form"
+
+Computed styles:
+- display: inline-block
+`),
+  });
+
+  expect(await client.callTool({
+    name: 'browser_inspect',
+    arguments: { ref: 'e2' },
+  })).toHaveResponse({
+    result: expect.stringContaining(`Locators:
+- getByTestId('submit-button')`),
+  });
+});
+
+test('browser_inspect with styles', async ({ client, server }) => {
+  server.setContent('/', `<input style="opacity: 0.5" disabled>`, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_inspect',
+    arguments: { ref: 'e2', styles: ['opacity'] },
+  })).toHaveResponse({
+    result: expect.stringContaining(`- State: visible, disabled, not editable
+
+Attributes:
+- style="opacity: 0.5"
+- disabled=""
+
+Computed styles:
+- opacity: 0.5
+
+Locators:
+`),
+  });
+});
+
+test('browser_inspect with unknown ref', async ({ client, server }) => {
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_inspect',
+    arguments: { ref: 'e100' },
+  })).toHaveResponse({
+    error: expect.stringContaining('Ref e100 not found in the current page snapshot.'),
+    isError: true,
+  });
+});
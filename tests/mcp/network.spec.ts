@@ -60,3 +60,76 @@ test('browser_network_requests', async ({ client, server }) => {
     expect(response.result).toContain(`[GET] ${`${server.PREFIX}/image.png`} => [404]`);
   }
 });
+
+test('browser_network_requests lists request ids', async ({ client, server }) => {
+  server.setContent('/', `<button onclick="fetch('/one').then(() => fetch('/two'))">Click me</button>`, 'text/html');
+  server.setContent('/one', 'one', 'text/plain');
+  server.setContent('/two', 'two', 'text/plain');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Click me button', ref: 'e2' },
+  });
+
+  const response = parseResponse(await client.callTool({
+    name: 'browser_network_requests',
+    arguments: { includeStatic: true },
+  }));
+  expect(response.result).toContain(`1. [GET] ${server.PREFIX}/ => [200] OK`);
+  expect(response.result).toMatch(new RegExp(`\\d+\\. \\[GET\\] ${server.PREFIX}/one => \\[200\\] OK`));
+  expect(response.result).toMatch(new RegExp(`\\d+\\. \\[GET\\] ${server.PREFIX}/two => \\[200\\] OK`));
+});
+
+test('browser_network_request', async ({ client, server }) => {
+  server.setContent('/', `<button onclick="fetch('/api', { method: 'POST', body: JSON.stringify({ user: 'John' }), headers: { 'content-type': 'application/json' } })">Submit</button>`, 'text/html');
+  server.setRoute('/api', (req, res) => {
+    res.writeHead(422, { 'content-type': 'application/json', 'x-request-id': 'abc' });
+    res.end(JSON.stringify({ error: 'Invalid user' }));
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Submit button', ref: 'e2' },
+  });
+
+  const list = parseResponse(await client.callTool({
+    name: 'browser_network_requests',
+  }));
+  const index = +list.result.match(/(\d+)\. \[POST\]/)[1];
+
+  const response = parseResponse(await client.callTool({
+    name: 'browser_network_request',
+    arguments: { index },
+  }));
+  expect(response.result).toContain(`- POST ${server.PREFIX}/api`);
+  expect(response.result).toContain(`- Status: 422 Unprocessable Entity`);
+  expect(response.result).toContain(`#### Request body
+{"user":"John"}`);
+  expect(response.result).toContain(`- x-request-id: abc`);
+  expect(response.result).toContain(`#### Response body
+{"error":"Invalid user"}`);
+  expect(response.result).toMatch(/\[Response body\]\(.*response-body-[^:]+\.json\)/);
+});
+
+test('browser_network_request not found', async ({ client, server }) => {
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_network_request',
+    arguments: { index: 100 },
+  })).toHaveResponse({
+    error: 'Error: Request 100 not found. Use browser_network_requests to list available requests.',
+    isError: true,
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from './fixtures';
+
+test('deniedTools by name', async ({ startClient, server }) => {
+  const { client } = await startClient({
+    config: { permissions: { deniedTools: ['browser_evaluate'] } },
+  });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: '() => document.title' },
+  })).toHaveResponse({
+    error: 'Error: Tool "browser_evaluate" is not allowed by the permissions policy.',
+    isError: true,
+  });
+});
+
+test('deniedTools by type', async ({ startClient, server }) => {
+  server.setContent('/', `<button>Submit</button>`, 'text/html');
+  const { client } = await startClient({
+    config: { permissions: { deniedTools: ['action'] } },
+  });
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  })).toHaveResponse({
+    error: 'Error: Tool "browser_navigate" is not allowed by the permissions policy.',
+    isError: true,
+  });
+  expect(await client.callTool({
+    name: 'browser_snapshot',
+  })).not.toHaveResponse({
+    isError: true,
+  });
+});
+
+test('allowedTools', async ({ startClient, server }) => {
+  const { client } = await startClient({
+    config: { permissions: { allowedTools: ['readOnly', 'browser_navigate'] } },
+  });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  expect(await client.callTool({
+    name: 'browser_press_key',
+    arguments: { key: 'Tab' },
+  })).toHaveResponse({
+    error: 'Error: Tool "browser_press_key" is not allowed by the permissions policy.',
+    isError: true,
+  });
+});
+
+test('allowedUrls', async ({ startClient, server }) => {
+  const { client } = await startClient({
+    config: { permissions: { allowedUrls: [`${server.PREFIX}/allowed/**`] } },
+  });
+  server.setContent('/allowed/page.html', `<a href="${server.PREFIX}/other.html">Other</a>`, 'text/html');
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  })).toHaveResponse({
+    error: `Error: Navigation to "${server.HELLO_WORLD}" is not allowed by the permissions policy.`,
+    isError: true,
+  });
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: `${server.PREFIX}/allowed/page.html` },
+  })).toHaveResponse({
+    snapshot: expect.stringContaining(`link "Other"`),
+  });
+});
+
+test('allowedUrls takes precedence over browser_route', async ({ startClient, server }) => {
+  const { client } = await startClient({
+    args: ['--caps=network'],
+    config: { permissions: { allowedUrls: [`${server.PREFIX}/allowed/**`] } },
+  });
+  server.setContent('/allowed/page.html', `<title>Allowed</title><a href="${server.PREFIX}/mocked.html">Mocked</a>`, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: `${server.PREFIX}/allowed/page.html` },
+  });
+  await client.callTool({
+    name: 'browser_route',
+    arguments: { url: '**/mocked.html', body: '<title>Mocked</title>', contentType: 'text/html' },
+  });
+  expect(await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Mocked link', ref: 'e2' },
+  })).toHaveResponse({
+    page: expect.stringContaining(`- Page Title: Allowed`),
+  });
+});
+
+test('maxActions', async ({ startClient, server }) => {
+  server.setContent('/', `<button>Submit</button>`, 'text/html');
+  const { client } = await startClient({
+    config: { permissions: { maxActions: 2 } },
+  });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Submit button', ref: 'e2' },
+  });
+  expect(await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Submit button', ref: 'e2' },
+  })).toHaveResponse({
+    error: 'Error: Tool "browser_click" is not allowed, the session has reached the limit of 2 actions.',
+    isError: true,
+  });
+  // Read-only tools are not counted.
+  expect(await client.callTool({
+    name: 'browser_snapshot',
+  })).not.toHaveResponse({
+    isError: true,
+  });
+});
+
+test('confirmTools accepted', async ({ startClient, server }) => {
+  const messages: string[] = [];
+  const { client } = await startClient({
+    config: { permissions: { confirmTools: ['browser_evaluate'] } },
+    elicitation: async request => {
+      messages.push(request.params.message);
+      return { action: 'accept', content: {} };
+    },
+  });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: '() => document.title' },
+  })).toHaveResponse({
+    result: `"Title"`,
+  });
+  expect(messages).toEqual([`Allow "Evaluate JavaScript" (browser_evaluate) to run with {"function":"() => document.title"}?`]);
+});
+
+test('confirmTools declined', async ({ startClient, server }) => {
+  const { client } = await startClient({
+    config: { permissions: { confirmTools: ['browser_evaluate'] } },
+    elicitation: async () => ({ action: 'decline' }),
+  });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: '() => document.title' },
+  })).toHaveResponse({
+    error: 'Error: Tool "browser_evaluate" was not confirmed by the user.',
+    isError: true,
+  });
+});
+
+test('confirmTools without elicitation support', async ({ startClient, server }) => {
+  const { client } = await startClient({
+    config: { permissions: { confirmTools: ['browser_evaluate'] } },
+  });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: '() => document.title' },
+  })).toHaveResponse({
+    error: 'Error: Tool "browser_evaluate" requires confirmation, but the client does not support elicitation requests.',
+    isError: true,
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { ResourceListChangedNotificationSchema, ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { test, expect } from './fixtures';
+
+test('list page resources', async ({ client }) => {
+  const { resources } = await client.listResources();
+  expect(resources).toEqual([
+    expect.objectContaining({ uri: 'playwright://page/snapshot', mimeType: 'text/yaml' }),
+    expect.objectContaining({ uri: 'playwright://page/console', mimeType: 'text/plain' }),
+    expect.objectContaining({ uri: 'playwright://page/network', mimeType: 'text/plain' }),
+  ]);
+});
+
+test('read page resources', async ({ client, server }) => {
+  server.setContent('/', `<title>Resources</title><button>Submit</button><script>console.log('Hello, world!'); fetch('/api')</script>`, 'text/html');
+  server.setContent('/api', '{}', 'application/json');
+
+  expect(await client.readResource({ uri: 'playwright://page/snapshot' })).toEqual({
+    contents: [{ uri: 'playwright://page/snapshot', mimeType: 'text/yaml', text: 'No open tabs. Navigate to a URL to create one.' }],
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.readResource({ uri: 'playwright://page/snapshot' })).toEqual({
+    contents: [expect.objectContaining({ text: expect.stringContaining(`- button "Submit" [ref=e2]`) })],
+  });
+  expect(await client.readResource({ uri: 'playwright://page/console' })).toEqual({
+    contents: [expect.objectContaining({ text: expect.stringContaining('[LOG] Hello, world!') })],
+  });
+  await expect.poll(() => client.readResource({ uri: 'playwright://page/network' })).toEqual({
+    contents: [expect.objectContaining({ text: expect.stringContaining(`[GET] ${server.PREFIX}/api => [200] OK`) })],
+  });
+});
+
+test('output files are resources', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const { client } = await startClient({
+    args: [`--output-dir=${outputDir}`],
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  await client.callTool({
+    name: 'browser_take_screenshot',
+    arguments: { filename: 'page.png' },
+  });
+
+  const uri = pathToFileURL(path.join(outputDir, 'page.png')).href;
+  const { resources } = await client.listResources();
+  expect(resources).toContainEqual({ uri, name: 'page.png', mimeType: 'image/png' });
+
+  const { contents } = await client.readResource({ uri });
+  expect(contents).toEqual([{ uri, mimeType: 'image/png', blob: expect.any(String) }]);
+  expect(Buffer.from((contents[0] as { blob: string }).blob, 'base64').subarray(1, 4).toString()).toBe('PNG');
+
+  await expect(client.readResource({ uri: pathToFileURL(__filename).href })).rejects.toThrow('not found');
+});
+
+test('resource subscriptions', async ({ client, server }) => {
+  const updated: string[] = [];
+  client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+    updated.push(notification.params.uri);
+  });
+
+  await client.subscribeResource({ uri: 'playwright://page/snapshot' });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  await expect.poll(() => updated).toEqual(['playwright://page/snapshot']);
+
+  await client.unsubscribeResource({ uri: 'playwright://page/snapshot' });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  await client.ping();
+  expect(updated).toEqual(['playwright://page/snapshot']);
+});
+
+test('resource list changes after saving files', async ({ startClient, server }, testInfo) => {
+  const { client } = await startClient({
+    args: [`--output-dir=${testInfo.outputPath('output')}`],
+  });
+  let listChanged = 0;
+  client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+    ++listChanged;
+  });
+
+  await client.subscribeResource({ uri: 'playwright://page/snapshot' });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  await client.ping();
+  expect(listChanged).toBe(0);
+
+  await client.callTool({
+    name: 'browser_take_screenshot',
+    arguments: { filename: 'page.png' },
+  });
+  await expect.poll(() => listChanged).toBe(1);
+});
@@ -0,0 +1,162 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from './fixtures';
+
+test.use({ mcpArgs: ['--caps=network'] });
+
+test('browser_route fulfills requests', async ({ client, server }) => {
+  server.setContent('/', `<button onclick="fetch('/api/user').then(r => r.text()).then(t => document.body.textContent = t)">Load</button>`, 'text/html');
+
+  expect(await client.callTool({
+    name: 'browser_route',
+    arguments: {
+      url: '**/api/user',
+      body: '{"name":"John Doe"}',
+      contentType: 'application/json',
+    },
+  })).toHaveResponse({
+    result: 'Route added for "**/api/user".',
+    code: `await page.context().route('**/api/user', route => route.fulfill({ body: '{"name":"John Doe"}', contentType: 'application/json', status: 200 }));`,
+    routes: '- **/api/user => [200] application/json',
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Load button', ref: 'e2' },
+  })).toHaveResponse({
+    snapshot: expect.stringContaining('{"name":"John Doe"}'),
+    routes: '- **/api/user => [200] application/json',
+  });
+});
+
+test('browser_route aborts requests', async ({ client, server }) => {
+  server.setContent('/', `<button onclick="fetch('/api/user').catch(e => document.body.textContent = 'failed')">Load</button>`, 'text/html');
+
+  await client.callTool({
+    name: 'browser_route',
+    arguments: { url: '**/api/user', abort: 'failed' },
+  });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Load button', ref: 'e2' },
+  })).toHaveResponse({
+    snapshot: expect.stringContaining('failed'),
+    routes: '- **/api/user => abort "failed"',
+  });
+});
+
+test('browser_route adds request headers', async ({ client, server }) => {
+  server.setContent('/', `<button onclick="fetch('/api/user')">Load</button>`, 'text/html');
+  server.setContent('/api/user', '{}', 'application/json');
+
+  expect(await client.callTool({
+    name: 'browser_route',
+    arguments: { url: '**/api/user', headers: { 'x-custom': 'value' } },
+  })).toHaveResponse({
+    code: `await page.context().route('**/api/user', route => route.fallback({ headers: { ...route.request().headers(), ...{ 'x-custom': 'value' } } }));`,
+  });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  const [request] = await Promise.all([
+    server.waitForRequest('/api/user'),
+    client.callTool({
+      name: 'browser_click',
+      arguments: { element: 'Load button', ref: 'e2' },
+    }),
+  ]);
+  expect(request.headers['x-custom']).toBe('value');
+});
+
+test('browser_route_list and browser_unroute', async ({ client }) => {
+  await client.callTool({
+    name: 'browser_route',
+    arguments: { url: '**/api/users', status: 404 },
+  });
+  await client.callTool({
+    name: 'browser_route',
+    arguments: { url: '**/*.png', abort: 'failed' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_route_list',
+  })).toHaveResponse({
+    result: `- **/api/users => [404]
+- **/*.png => abort "failed"`,
+  });
+
+  expect(await client.callTool({
+    name: 'browser_unroute',
+    arguments: { url: '**/api/users' },
+  })).toHaveResponse({
+    result: 'Removed 1 route.',
+    code: `await page.context().unroute('**/api/users');`,
+    routes: '- **/*.png => abort "failed"',
+  });
+
+  expect(await client.callTool({
+    name: 'browser_unroute',
+    arguments: { url: '**/api/users' },
+  })).toHaveResponse({
+    error: 'Error: No route found for "**/api/users".',
+    isError: true,
+  });
+
+  expect(await client.callTool({
+    name: 'browser_unroute',
+  })).toHaveResponse({
+    result: 'Removed 1 route.',
+    routes: undefined,
+  });
+
+  expect(await client.callTool({
+    name: 'browser_route_list',
+  })).toHaveResponse({
+    result: 'No active routes.',
+  });
+});
+
+test('browser_route survives browser context restart', async ({ client, server }) => {
+  server.setContent('/page', 'original', 'text/html');
+
+  await client.callTool({
+    name: 'browser_route',
+    arguments: { url: '**/page', body: 'mocked', contentType: 'text/html' },
+  });
+  await client.callTool({
+    name: 'browser_close',
+  });
+
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX + '/page' },
+  })).toHaveResponse({
+    snapshot: expect.stringContaining('mocked'),
+  });
+});
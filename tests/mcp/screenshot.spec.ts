@@ -71,6 +71,7 @@ test('browser_take_screenshot (element)', async ({ startClient, server }, testIn
         type: 'image',
       },
     ],
+    structuredContent: expect.any(Object),
   });
 });
 
@@ -126,6 +127,7 @@ for (const type of ['png', 'jpeg']) {
           type: 'image',
         },
       ],
+      structuredContent: expect.any(Object),
     });
 
     const files = [...fs.readdirSync(outputDir)].filter(f => f.endsWith(`.${type}`));
@@ -167,6 +169,7 @@ test('browser_take_screenshot (default type should be png)', async ({ startClien
         type: 'image',
       },
     ],
+    structuredContent: expect.any(Object),
   });
 
   const files = [...fs.readdirSync(outputDir)].filter(f => f.endsWith('.png'));
@@ -207,6 +210,7 @@ test('browser_take_screenshot (filename is empty string)', async ({ startClient,
         type: 'image',
       },
     ],
+    structuredContent: expect.any(Object),
   });
 
   const files = [...fs.readdirSync(outputDir)].filter(f => f.endsWith('.png'));
@@ -248,6 +252,7 @@ test('browser_take_screenshot (filename: "output.png")', async ({ startClient, s
         type: 'image',
       },
     ],
+    structuredContent: expect.any(Object),
   });
 
   const files = [...fs.readdirSync(outputDir)].filter(f => f.endsWith('.png'));
@@ -286,6 +291,7 @@ test('browser_take_screenshot (imageResponses=omit)', async ({ startClient, serv
         type: 'text',
       },
     ],
+    structuredContent: expect.any(Object),
   });
 });
 
@@ -315,6 +321,7 @@ test('browser_take_screenshot (fullPage: true)', async ({ startClient, server },
         type: 'image',
       },
     ],
+    structuredContent: expect.any(Object),
   });
 });
 
@@ -409,5 +416,6 @@ test('browser_take_screenshot (viewport without snapshot)', async ({ startClient
         type: 'image',
       },
     ],
+    structuredContent: expect.any(Object),
   });
 });
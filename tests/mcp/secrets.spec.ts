@@ -15,8 +15,9 @@
  */
 
 import fs from 'node:fs';
+import path from 'node:path';
 
-import { test, expect } from './fixtures';
+import { test, expect, parseResponse } from './fixtures';
 
 test('browser_type', async ({ startClient, server }) => {
   const secretsFile = test.info().outputPath('secrets.env');
@@ -126,3 +127,123 @@ await page.getByRole('textbox', { name: 'Password' }).fill(process.env['X-PASSWO
     snapshot: expect.stringContaining(`- textbox \"Password\" [active] [ref=e6]: <secret>X-PASSWORD</secret>`),
   });
 });
+
+test('secrets are redacted from evaluate results, network and code', async ({ startClient, server }) => {
+  const secretsFile = test.info().outputPath('secrets.env');
+  await fs.promises.writeFile(secretsFile, 'X-TOKEN=token123');
+
+  const { client } = await startClient({
+    args: ['--secrets', secretsFile],
+  });
+
+  server.setContent('/', `<title>Secrets</title>`, 'text/html');
+  server.setContent('/api', '{}', 'application/json');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: `() => fetch('/api?token=token123').then(() => 'token123')` },
+  })).toHaveResponse({
+    result: `"<secret>X-TOKEN</secret>"`,
+    code: expect.stringContaining(`/api?token=<secret>X-TOKEN</secret>`),
+  });
+
+  expect(await client.callTool({
+    name: 'browser_network_requests',
+  })).toHaveResponse({
+    result: expect.stringContaining(`[GET] ${server.PREFIX}/api?token=<secret>X-TOKEN</secret> => [200] OK`),
+  });
+});
+
+test('secrets are redacted from saved response bodies', async ({ startClient, server }) => {
+  const outputDir = test.info().outputPath('output');
+  const secretsFile = test.info().outputPath('secrets.env');
+  await fs.promises.writeFile(secretsFile, 'X-TOKEN=token123');
+
+  const { client } = await startClient({
+    args: ['--secrets', secretsFile, `--output-dir=${outputDir}`],
+  });
+
+  server.setContent('/', `<button onclick="fetch('/api')">Load</button>`, 'text/html');
+  server.setContent('/api', JSON.stringify({ token: 'token123' }), 'application/json');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Load button', ref: 'e2' },
+  });
+
+  const list = parseResponse(await client.callTool({
+    name: 'browser_network_requests',
+  }));
+  const index = +list.result.match(/(\d+)\. \[GET\] .*\/api/)[1];
+  const response = parseResponse(await client.callTool({
+    name: 'browser_network_request',
+    arguments: { index },
+  }));
+  expect(response.result).toContain(`{"token":"<secret>X-TOKEN</secret>"}`);
+  const bodyFile = (await fs.promises.readdir(outputDir)).find(file => file.startsWith('response-body-'));
+  expect(await fs.promises.readFile(path.join(outputDir, bodyFile!), 'utf-8')).toBe(`{"token":"<secret>X-TOKEN</secret>"}`);
+});
+
+test('browser_type resolves secret placeholders', async ({ startClient, server }) => {
+  const secretsFile = test.info().outputPath('secrets.env');
+  await fs.promises.writeFile(secretsFile, 'X-TOKEN=token123');
+
+  const { client } = await startClient({
+    args: ['--secrets', secretsFile],
+  });
+
+  server.setContent('/', `<input oninput="console.log('Value:', event.target.value.length)"></input>`, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_type',
+    arguments: {
+      element: 'textbox',
+      ref: 'e2',
+      text: 'Bearer <secret>X-TOKEN</secret>',
+      submit: true,
+    },
+  })).toHaveResponse({
+    code: `await page.getByRole('textbox').fill('Bearer ' + process.env['X-TOKEN']);
+await page.getByRole('textbox').press('Enter');`,
+    snapshot: expect.stringContaining(`: Bearer <secret>X-TOKEN</secret>`),
+  });
+
+  expect(await client.callTool({
+    name: 'browser_console_messages',
+  })).toHaveResponse({
+    result: expect.stringContaining(`[LOG] Value: 15`),
+  });
+});
+
+test('secrets are redacted from the session log', async ({ startClient, server }, testInfo) => {
+  const secretsFile = test.info().outputPath('secrets.env');
+  await fs.promises.writeFile(secretsFile, 'X-TOKEN=token123');
+
+  const { client, stderr } = await startClient({
+    args: ['--secrets', secretsFile, '--save-session', '--output-dir', testInfo.outputPath('output')],
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX + '/?token=token123' },
+  });
+
+  const output = stderr().split('\n').filter(line => line.startsWith('Session: '))[0];
+  const sessionFile = path.join(output.substring('Session: '.length), 'session.md');
+  await expect.poll(() => fs.promises.readFile(sessionFile, 'utf-8').catch(() => '')).toContain('<secret>X-TOKEN</secret>');
+  expect(await fs.promises.readFile(sessionFile, 'utf-8')).not.toContain('token123');
+});
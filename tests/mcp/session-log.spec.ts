@@ -84,6 +84,48 @@ test('session log should record tool calls', async ({ startClient, server, mcpBr
 `);
 });
 
+test('session log should record tool calls in jsonl', async ({ startClient, server }, testInfo) => {
+  const { client, stderr } = await startClient({
+    args: [
+      '--save-session',
+      '--output-dir', testInfo.outputPath('output'),
+    ],
+  });
+
+  server.setContent('/', `<title>Title</title><button>Submit</button>`, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Missing button', ref: 'e42' },
+  });
+
+  const output = stderr().split('\n').filter(line => line.startsWith('Session: '))[0];
+  const jsonlFile = path.join(output.substring('Session: '.length), 'session.jsonl');
+  await expect.poll(() => fs.promises.readFile(jsonlFile, 'utf8').then(text => text.trim().split('\n').length).catch(() => 0)).toBe(2);
+  const entries = (await fs.promises.readFile(jsonlFile, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+
+  expect(entries[0]).toEqual({
+    name: 'browser_navigate',
+    args: { url: server.PREFIX },
+    startTime: expect.any(Number),
+    duration: expect.any(Number),
+    url: `${server.PREFIX}/`,
+    sections: expect.arrayContaining([
+      { title: 'Snapshot', isError: false, content: [expect.objectContaining({ text: `- button "Submit" [ref=e2]` })] },
+    ]),
+  });
+  expect(entries[1]).toEqual(expect.objectContaining({
+    name: 'browser_click',
+    args: { element: 'Missing button', ref: 'e42' },
+    url: `${server.PREFIX}/`,
+    error: expect.stringContaining('Ref e42 not found'),
+  }));
+});
+
 async function readSessionLog(sessionFolder: string): Promise<string> {
   return await fs.promises.readFile(path.join(sessionFolder, 'session.md'), 'utf8').catch(() => '');
 }
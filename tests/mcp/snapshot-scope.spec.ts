@@ -0,0 +1,119 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from './fixtures';
+
+test.beforeEach(async ({ server }) => {
+  server.setContent('/', `
+    <h1>Fruits</h1>
+    <ul>
+      <li>Apple</li>
+      <li>Banana</li>
+      <li>Cherry</li>
+    </ul>
+  `, 'text/html');
+});
+
+test('browser_snapshot with ref', async ({ client, server }) => {
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_snapshot',
+    arguments: { ref: 'e3' },
+  })).toHaveResponse({
+    snapshot: `\`\`\`yaml
+- list [ref=e3]:
+  - listitem [ref=e4]: Apple
+  - listitem [ref=e5]: Banana
+  - listitem [ref=e6]: Cherry
+\`\`\``,
+  });
+});
+
+test('browser_snapshot with depth', async ({ client, server }) => {
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_snapshot',
+    arguments: { depth: 2 },
+  })).toHaveResponse({
+    snapshot: `\`\`\`yaml
+- generic [ref=e1]:
+  - heading "Fruits" [level=1] [ref=e2]
+  - list [ref=e3]:
+    - [+3 more listitems, ref=e3]
+\`\`\``,
+  });
+});
+
+test('browser_snapshot with maxNodes', async ({ client, server }) => {
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_snapshot',
+    arguments: { ref: 'e3', maxNodes: 2 },
+  })).toHaveResponse({
+    snapshot: `\`\`\`yaml
+- list [ref=e3]:
+  - listitem [ref=e4]: Apple
+  - [+2 more listitems, ref=e3]
+\`\`\``,
+  });
+});
+
+test('browser_snapshot with unknown ref', async ({ client, server }) => {
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_snapshot',
+    arguments: { ref: 'e100' },
+  })).toHaveResponse({
+    error: expect.stringContaining('Ref e100 not found in the current page snapshot.'),
+    isError: true,
+  });
+});
+
+test('browser_snapshot with depth passes the rest of the scope to iframes', async ({ client }) => {
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: `data:text/html,<h1>Hello</h1><iframe src="data:text/html,<button>World</button><main><p>Nested</p></main>"></iframe>` },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_snapshot',
+    arguments: { depth: 3 },
+  })).toHaveResponse({
+    snapshot: `\`\`\`yaml
+- generic [active] [ref=e1]:
+  - heading "Hello" [level=1] [ref=e2]
+  - iframe [ref=e3]:
+    - generic [active] [ref=f1e1]:
+      - [+2 more items, ref=f1e1]
+\`\`\``,
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { test, expect } from './fixtures';
+
+test('browser_storage_state_save and browser_storage_state_load', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  server.setContent('/', `<title>Storage</title>`, 'text/html');
+
+  const { client } = await startClient({
+    args: [`--output-dir=${outputDir}`, '--caps=storage'],
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: `() => { document.cookie = 'session=secret-token'; localStorage.setItem('user', 'John Doe'); }` },
+  });
+
+  const stateFile = path.join(outputDir, 'auth.json');
+  const saveResponse = await client.callTool({
+    name: 'browser_storage_state_save',
+    arguments: { filename: 'auth.json' },
+  });
+  expect(saveResponse).toHaveResponse({
+    result: `Storage state saved to ${stateFile}.`,
+    code: `await page.context().storageState({ path: '${stateFile}', indexedDB: true });`,
+  });
+  expect(JSON.stringify(saveResponse)).not.toContain('secret-token');
+
+  const state = JSON.parse(await fs.promises.readFile(stateFile, 'utf-8'));
+  expect(state.cookies).toEqual([expect.objectContaining({ name: 'session', value: 'secret-token' })]);
+  expect(state.origins).toEqual([expect.objectContaining({ origin: server.PREFIX, localStorage: [{ name: 'user', value: 'John Doe' }] })]);
+
+  await client.callTool({
+    name: 'browser_close',
+  });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_storage_state_load',
+    arguments: { filename: 'auth.json' },
+  })).toHaveResponse({
+    result: `Storage state loaded from ${stateFile}.`,
+    code: `await page.context().setStorageState('${stateFile}');`,
+  });
+
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: `() => document.cookie + ' ' + localStorage.getItem('user')` },
+  })).toHaveResponse({
+    result: `"session=secret-token John Doe"`,
+  });
+});
+
+test('browser_storage_state_load missing file', async ({ startClient }, testInfo) => {
+  const { client } = await startClient({
+    args: [`--output-dir=${testInfo.outputPath('output')}`, '--caps=storage'],
+  });
+
+  expect(await client.callTool({
+    name: 'browser_storage_state_load',
+    arguments: { filename: 'missing.json' },
+  })).toHaveResponse({
+    error: 'Error: Storage state file missing.json does not exist.',
+    isError: true,
+  });
+});
+
+test('browser_cookie_list and browser_cookie_clear', async ({ startClient, server }) => {
+  const { client } = await startClient({
+    args: ['--caps=storage'],
+  });
+
+  expect(await client.callTool({
+    name: 'browser_cookie_list',
+  })).toHaveResponse({
+    result: 'No cookies.',
+    code: `await page.context().cookies();`,
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: `() => { document.cookie = 'session=secret-token'; document.cookie = 'theme=dark'; }` },
+  });
+
+  const listResponse = await client.callTool({
+    name: 'browser_cookie_list',
+    arguments: { url: server.PREFIX },
+  });
+  expect(listResponse).toHaveResponse({
+    result: `- session (domain: localhost, path: /, expires: session, sameSite: Lax)
+- theme (domain: localhost, path: /, expires: session, sameSite: Lax)`,
+    code: `await page.context().cookies('${server.PREFIX}');`,
+  });
+  expect(JSON.stringify(listResponse)).not.toContain('secret-token');
+
+  expect(await client.callTool({
+    name: 'browser_cookie_clear',
+    arguments: { name: 'session' },
+  })).toHaveResponse({
+    result: 'Cookies cleared.',
+    code: `await page.context().clearCookies({ name: 'session' });`,
+  });
+
+  expect(await client.callTool({
+    name: 'browser_cookie_list',
+  })).toHaveResponse({
+    result: '- theme (domain: localhost, path: /, expires: session, sameSite: Lax)',
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from './fixtures';
+
+test('tools declare output schema', async ({ client }) => {
+  const { tools } = await client.listTools();
+  const click = tools.find(tool => tool.name === 'browser_click')!;
+  expect(click.outputSchema).toEqual(expect.objectContaining({
+    type: 'object',
+    properties: expect.objectContaining({
+      error: expect.anything(),
+      page: expect.anything(),
+      snapshot: expect.anything(),
+    }),
+  }));
+  expect(click.outputSchema!.required).toBeUndefined();
+  expect(click.outputSchema!.properties).not.toHaveProperty('consoleMessages');
+  expect(click.outputSchema!.properties).not.toHaveProperty('networkRequests');
+
+  // Failed calls only report the error, so tool specific fields are optional as well.
+  const consoleMessages = tools.find(tool => tool.name === 'browser_console_messages')!;
+  expect(consoleMessages.outputSchema!.properties).toEqual(expect.objectContaining({
+    consoleMessages: expect.anything(),
+  }));
+  expect(consoleMessages.outputSchema!.required).toBeUndefined();
+  expect(consoleMessages.outputSchema!.properties).not.toHaveProperty('networkRequests');
+
+  const networkRequests = tools.find(tool => tool.name === 'browser_network_requests')!;
+  expect(networkRequests.outputSchema!.properties).toEqual(expect.objectContaining({
+    networkRequests: expect.anything(),
+  }));
+});
+
+test('structured content of navigation', async ({ client, server }) => {
+  // Listing tools makes the client validate the results against the output schemas.
+  await client.listTools();
+  const response = await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  expect(response.structuredContent).toEqual({
+    code: [`await page.goto('${server.HELLO_WORLD}');`],
+    tabs: [{ index: 0, url: server.HELLO_WORLD, title: 'Title', current: true, context: 'default' }],
+    page: { url: server.HELLO_WORLD, title: 'Title' },
+    snapshot: `- generic [active] [ref=e1]: Hello, world!`,
+  });
+});
+
+test('structured content of console messages', async ({ client, server }) => {
+  server.setContent('/', `
+    <script>
+      console.log("Hello, world!");
+      console.error("Error");
+    </script>
+  `, 'text/html');
+  await client.listTools();
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  const response = await client.callTool({
+    name: 'browser_console_messages',
+  });
+  expect(response.structuredContent).toEqual(expect.objectContaining({
+    consoleMessages: [
+      { type: 'log', text: 'Hello, world!' },
+      { type: 'error', text: 'Error' },
+    ],
+  }));
+});
+
+test('structured content of network requests', async ({ client, server }) => {
+  server.setContent('/', `<button onclick="fetch('/json')">Fetch</button>`, 'text/html');
+  server.setContent('/json', JSON.stringify({ name: 'John' }), 'application/json');
+  await client.listTools();
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Fetch button', ref: 'e2' },
+  });
+  await expect.poll(async () => (await client.callTool({
+    name: 'browser_network_requests',
+  })).structuredContent).toEqual(expect.objectContaining({
+    networkRequests: [
+      { index: expect.any(Number), method: 'GET', url: `${server.PREFIX}/json`, resourceType: 'fetch', status: 200, statusText: 'OK' },
+    ],
+  }));
+});
+
+test('structured content of console events in other tools', async ({ client, server }) => {
+  server.setContent('/', `<button onclick="console.log('Clicked')">Button</button>`, 'text/html');
+  // Listing tools makes the client validate the results against the output schemas.
+  await client.listTools();
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  const response = await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Button', ref: 'e2' },
+  });
+  expect(response.isError).toBeFalsy();
+  expect(response).toHaveResponse({
+    events: expect.stringContaining('Clicked'),
+  });
+  expect(response.structuredContent).not.toHaveProperty('consoleMessages');
+});
+
+test('structured content of modal state', async ({ client, server }) => {
+  server.setContent('/', `<button onclick="alert('Alert')">Button</button>`, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  const response = await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Button', ref: 'e2' },
+  });
+  expect(response.structuredContent).toEqual(expect.objectContaining({
+    modalStates: [{ type: 'dialog', description: '"alert" dialog with message "Alert"', clearedBy: 'browser_handle_dialog' }],
+  }));
+});
+
+test('structured content of errors', async ({ client }) => {
+  // Listing tools makes the client validate the results against the output schemas.
+  await client.listTools();
+  const response = await client.callTool({
+    name: 'browser_tabs',
+    arguments: { action: 'select' },
+  });
+  expect(response.isError).toBe(true);
+  expect(response.structuredContent).toEqual({ error: 'Error: Tab index is required' });
+});
+
+test('structured content of errors in tools with specific output', async ({ client, server }) => {
+  // Listing tools makes the client validate the results against the output schemas.
+  await client.listTools();
+  server.setContent('/', `<button onclick="alert('Alert')">Button</button>`, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Button', ref: 'e2' },
+  });
+  const response = await client.callTool({
+    name: 'browser_console_messages',
+  });
+  expect(response.isError).toBe(true);
+  expect(response.structuredContent).toEqual(expect.objectContaining({
+    error: 'Error: Tool "browser_console_messages" does not handle the modal state.',
+  }));
+  expect(response.structuredContent).not.toHaveProperty('consoleMessages');
+});
@@ -0,0 +1,94 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from './fixtures';
+
+test('browser_tab_order', async ({ client, server }) => {
+  server.setContent('/', `
+    <button>First</button>
+    <input aria-label="Name">
+    <a href="#" style="position: absolute; left: -1000px; width: 0; height: 0; overflow: hidden">Skip</a>
+    <button tabindex="-1">Not tabbable</button>
+    <a href="/about">About</a>
+  `, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_tab_order',
+    arguments: {},
+  })).toHaveResponse({
+    result: expect.stringMatching(/^Focus order \(4 elements\):\n1\. button "First" \[ref=e2\]\n2\. textbox "Name" \[ref=e3\]\n3\. link "Skip".* - focusable but not visible\n4\. link "About" \[ref=e\d+\]\nFocus left the page\.$/),
+  });
+});
+
+test('browser_tab_order focus trap', async ({ client, server }) => {
+  server.setContent('/', `
+    <button>Outside</button>
+    <button id="first">First</button>
+    <button id="last">Last</button>
+    <script>
+      document.getElementById('last').addEventListener('keydown', event => {
+        if (event.key !== 'Tab')
+          return;
+        event.preventDefault();
+        document.getElementById('first').focus();
+      });
+    </script>
+  `, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_tab_order',
+    arguments: {},
+  })).toHaveResponse({
+    result: `Focus order (3 elements):
+1. button "Outside" [ref=e2]
+2. button "First" [ref=e3]
+3. button "Last" [ref=e4]
+Focus cycled back to element 2, elements 2-3 trap focus.`,
+  });
+});
+
+test('browser_tab_order limit', async ({ client, server }) => {
+  server.setContent('/', `<button>One</button><button>Two</button><button>Three</button>`, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_tab_order',
+    arguments: { limit: 2 },
+  })).toHaveResponse({
+    result: `Focus order (2 elements):
+1. button "One" [ref=e2]
+2. button "Two" [ref=e3]
+Stopped after reaching the limit of 2 Tab presses.`,
+  });
+
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: `() => document.activeElement === document.body` },
+  })).toHaveResponse({
+    result: 'true',
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { pathToFileURL } from 'url';
+import { test, expect, writeFiles } from './fixtures';
+
+test.use({ mcpServerType: 'test-mcp' });
+
+test('agent prompts', async ({ startClient }) => {
+  const { client } = await startClient();
+  const { prompts } = await client.listPrompts();
+  expect(prompts.map(prompt => prompt.name).sort()).toEqual([
+    'playwright-test-generator',
+    'playwright-test-healer',
+    'playwright-test-planner',
+  ]);
+
+  const { messages } = await client.getPrompt({ name: 'playwright-test-healer', arguments: { task: 'Fix the checkout tests' } });
+  expect(messages).toEqual([{
+    role: 'user',
+    content: { type: 'text', text: expect.stringMatching(/^You are the Playwright Test Healer[\s\S]*# Task\n\nFix the checkout tests$/) },
+  }]);
+
+  await expect(client.getPrompt({ name: 'unknown' })).rejects.toThrow('Prompt "unknown" not found.');
+});
+
+test('test plans are resources', async ({ startClient }, testInfo) => {
+  await writeFiles({
+    'playwright.config.ts': `
+      module.exports = {};
+    `,
+    'specs/checkout.plan.md': `# Checkout test plan`,
+  });
+
+  const { client } = await startClient();
+  const uri = pathToFileURL(testInfo.outputPath('specs', 'checkout.plan.md')).href;
+  const { resources } = await client.listResources();
+  expect(resources).toEqual([{ uri, name: 'specs/checkout.plan.md', title: 'Test plan', mimeType: 'text/markdown' }]);
+
+  expect(await client.readResource({ uri })).toEqual({
+    contents: [{ uri, mimeType: 'text/markdown', text: '# Checkout test plan' }],
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Copyright Microsoft Corporation. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import { test, expect } from './playwright-test-fixtures';
+
+const appFiles = {
+  'web/index.html': `<script src="app.js"></script><link rel="stylesheet" href="app.css">`,
+  'web/app.js': [
+    `function used() {`,
+    `  return 42;`,
+    `}`,
+    `function unused() {`,
+    `  return 0;`,
+    `}`,
+    `window.answer = used();`,
+  ].join('\n'),
+  'web/app.css': [
+    `body { color: red; }`,
+    `.missing { color: blue; }`,
+  ].join('\n'),
+  'a.spec.ts': `
+    import { test, expect } from '@playwright/test';
+    import { pathToFileURL } from 'url';
+    import path from 'path';
+    test('loads app', async ({ page }) => {
+      await page.goto(pathToFileURL(path.join(__dirname, 'web', 'index.html')).href);
+      await expect.poll(() => page.evaluate(() => (window as any).answer)).toBe(42);
+    });
+  `,
+};
+
+test('should validate coverage config', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.ts': `
+      module.exports = { coverage: { css: 'yes' } };
+    `,
+    'a.test.ts': `
+      import { test } from '@playwright/test';
+      test('pass', () => {});
+    `,
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain('config.coverage.css must be a boolean');
+});
+
+test('should not write coverage without browser tests', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.ts': `
+      module.exports = { coverage: {} };
+    `,
+    'a.test.ts': `
+      import { test } from '@playwright/test';
+      test('pass', () => {});
+    `,
+  });
+  expect(result.exitCode).toBe(0);
+  expect(result.passed).toBe(1);
+  expect(fs.existsSync(test.info().outputPath('coverage'))).toBe(false);
+});
+
+test('should write istanbul and lcov coverage of the pages', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    ...appFiles,
+    'playwright.config.ts': `
+      module.exports = { coverage: { exclude: /app\\.css/ }, use: { browserName: 'chromium' } };
+    `,
+  });
+  expect(result.exitCode).toBe(0);
+  expect(result.passed).toBe(1);
+
+  const appPath = test.info().outputPath('web', 'app.js');
+  const istanbul = JSON.parse(fs.readFileSync(test.info().outputPath('coverage', 'coverage-final.json'), 'utf8'));
+  expect(Object.keys(istanbul)).toEqual([appPath]);
+  const functions = Object.values(istanbul[appPath].fnMap).map((fn: any, index) => [fn.name, istanbul[appPath].f[index]]);
+  expect(functions).toEqual([['used', 1], ['unused', 0]]);
+
+  const lcov = fs.readFileSync(test.info().outputPath('coverage', 'lcov.info'), 'utf8');
+  expect(lcov).toContain(`SF:${appPath}`);
+  expect(lcov).toContain('FNDA:1,used');
+  expect(lcov).toContain('FNDA:0,unused');
+  expect(lcov).toContain('DA:2,1');
+  expect(lcov).toContain('DA:5,0');
+  expect(lcov).not.toContain('app.css');
+});
+
+test('should map coverage through source maps', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.ts': `
+      module.exports = { coverage: { css: false }, use: { browserName: 'chromium' } };
+    `,
+    'web/index.html': `<script src="dist/app.js"></script>`,
+    'web/src/app.ts': `\nwindow.answer = 42;\n`,
+    'web/dist/app.js': `window.answer=42;\n//# sourceMappingURL=app.js.map`,
+    'web/dist/app.js.map': JSON.stringify({ version: 3, sources: ['../src/app.ts'], names: [], mappings: 'AACA' }),
+    'a.spec.ts': appFiles['a.spec.ts'],
+  });
+  expect(result.exitCode).toBe(0);
+
+  const lcov = fs.readFileSync(test.info().outputPath('coverage', 'lcov.info'), 'utf8');
+  expect(lcov).toContain(`SF:${test.info().outputPath('web', 'src', 'app.ts')}`);
+  expect(lcov).toContain('DA:2,1');
+  expect(lcov).not.toContain('app.js');
+});
+
+test('should map served scripts relative to the config dir', async ({ runInlineTest, server }) => {
+  server.setContent('/index.html', `<script src="/src/app.js"></script>`, 'text/html');
+  server.setContent('/src/app.js', appFiles['web/app.js'], 'application/javascript');
+  const result = await runInlineTest({
+    'playwright.config.ts': `
+      module.exports = { testDir: './tests', coverage: { css: false }, use: { browserName: 'chromium' } };
+    `,
+    'src/app.js': appFiles['web/app.js'],
+    'tests/a.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('loads app', async ({ page }) => {
+        await page.goto('${server.PREFIX}/index.html');
+        await expect.poll(() => page.evaluate(() => (window as any).answer)).toBe(42);
+      });
+    `,
+  });
+  expect(result.exitCode).toBe(0);
+
+  const appPath = test.info().outputPath('src', 'app.js');
+  const istanbul = JSON.parse(fs.readFileSync(test.info().outputPath('coverage', 'coverage-final.json'), 'utf8'));
+  expect(Object.keys(istanbul)).toEqual([appPath]);
+  const lcov = fs.readFileSync(test.info().outputPath('coverage', 'lcov.info'), 'utf8');
+  expect(lcov).toContain(`SF:${appPath}`);
+  expect(lcov).toContain('FNDA:1,used');
+});
+
+test('should merge coverage of the shards', async ({ runInlineTest, mergeReports }) => {
+  const reportDir = test.info().outputPath('blob-report');
+  const files = {
+    ...appFiles,
+    'playwright.config.ts': `
+      module.exports = {
+        coverage: {},
+        reporter: [['blob', { outputDir: '${reportDir.replace(/\\/g, '/')}' }]],
+        use: { browserName: 'chromium' },
+      };
+    `,
+    'b.spec.ts': appFiles['a.spec.ts'],
+  };
+  await runInlineTest(files, { shard: `1/2` }, { PWTEST_BLOB_DO_NOT_REMOVE: '1' });
+  await runInlineTest(files, { shard: `2/2` }, { PWTEST_BLOB_DO_NOT_REMOVE: '1' });
+  fs.rmSync(test.info().outputPath('coverage'), { recursive: true });
+
+  const { exitCode } = await mergeReports(reportDir, {}, { additionalArgs: ['--config', 'playwright.config.ts'] });
+  expect(exitCode).toBe(0);
+  const lcov = fs.readFileSync(test.info().outputPath('coverage', 'lcov.info'), 'utf8');
+  expect(lcov).toContain('FNDA:2,used');
+  expect(lcov).toContain(`SF:${test.info().outputPath('web', 'app.css')}`);
+});
@@ -16,6 +16,7 @@
 
 import { test as baseTest, expect, playwrightCtConfigText } from './playwright-test-fixtures';
 import { execSync } from 'node:child_process';
+import fs from 'fs';
 
 const test = baseTest.extend<{ git(command: string): void }>({
   git: async ({}, use, testInfo) => {
@@ -427,3 +428,81 @@ test('exits successfully if there are no changes', async ({ runInlineTest, git,
 
   expect(result.exitCode).toBe(0);
 });
+
+test('should run tests that executed the changed files according to test impact', async ({ runInlineTest, git, writeFiles }) => {
+  await writeFiles({
+    'playwright.config.ts': `
+      module.exports = { testImpact: { file: 'test-impact.json' } };
+    `,
+    'web/src/app.js': `export const app = 1;`,
+    'web/src/other.js': `export const other = 1;`,
+    'a.spec.ts': `
+      import { test } from '@playwright/test';
+      test('uses app', ({}, testInfo) => { console.log('%%' + testInfo.testId); });
+    `,
+    'b.spec.ts': `
+      import { test } from '@playwright/test';
+      test('uses other', ({}, testInfo) => { console.log('%%' + testInfo.testId); });
+    `,
+  });
+  const [appTestId] = (await runInlineTest({}, { grep: 'uses app' })).outputLines;
+  const [otherTestId] = (await runInlineTest({}, { grep: 'uses other' })).outputLines;
+
+  await writeFiles({
+    // Sources are relative to the config dir, so "src/app.js" does not match "web/src/app.js".
+    'test-impact.json': JSON.stringify({ 'web/src/app.js': [appTestId], 'web/src/other.js': [otherTestId], 'src/app.js': [otherTestId] }),
+  });
+  git(`add .`);
+  git(`commit -m init`);
+
+  await writeFiles({
+    'web/src/app.js': `export const app = 2;`,
+  });
+  const result = await runInlineTest({}, { 'only-changed': true });
+  expect(result.exitCode).toBe(0);
+  expect(result.passed).toBe(1);
+  expect(result.output).toContain('a.spec.ts');
+  expect(result.output).not.toContain('b.spec.ts');
+});
+
+test('should record test impact from the browser coverage', async ({ runInlineTest, git, writeFiles }) => {
+  await writeFiles({
+    'playwright.config.ts': `
+      module.exports = { testImpact: { file: 'test-impact.json' }, use: { browserName: 'chromium' } };
+    `,
+    'web/index.html': `<script src="app.js"></script>`,
+    'web/app.js': `window.answer = 42;`,
+    'web/unused.js': `window.unused = 42;`,
+    'a.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      import { pathToFileURL } from 'url';
+      import path from 'path';
+      test('loads app', async ({ page }) => {
+        await page.goto(pathToFileURL(path.join(__dirname, 'web', 'index.html')).href);
+        await expect.poll(() => page.evaluate(() => (window as any).answer)).toBe(42);
+      });
+    `,
+    'b.spec.ts': `
+      import { test } from '@playwright/test';
+      test('does not use the browser', () => {});
+    `,
+  });
+
+  const result = await runInlineTest({});
+  expect(result.exitCode).toBe(0);
+  expect(result.passed).toBe(2);
+  const index = JSON.parse(fs.readFileSync(test.info().outputPath('test-impact.json'), 'utf8'));
+  expect(index['web/app.js']).toHaveLength(1);
+  expect(index['web/unused.js']).toBeUndefined();
+
+  git(`add .`);
+  git(`commit -m init`);
+  await writeFiles({
+    'web/app.js': `window.answer = 42; // changed`,
+  });
+  const changedResult = await runInlineTest({}, { 'only-changed': true });
+  expect(changedResult.exitCode).toBe(0);
+  expect(changedResult.passed).toBe(1);
+  expect(changedResult.output).toContain('a.spec.ts');
+  expect(changedResult.output).not.toContain('b.spec.ts');
+});
@@ -0,0 +1,163 @@
+/**
+ * Copyright Microsoft Corporation. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import { test, expect } from './playwright-test-fixtures';
+
+test('should not fail the run because of quarantined tests', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.ts': `
+      module.exports = { quarantine: { file: 'quarantine.json' } };
+    `,
+    'quarantine.json': JSON.stringify(['a.test.ts › suite › fails']),
+    'a.test.ts': `
+      import { test, expect } from '@playwright/test';
+      test.describe('suite', () => {
+        test('fails', async ({}, testInfo) => {
+          expect(testInfo.annotations).toEqual([{ type: 'quarantine' }]);
+          expect(1).toBe(2);
+        });
+      });
+      test('passes', async () => {});
+    `,
+  });
+  expect(result.exitCode).toBe(0);
+  expect(result.passed).toBe(1);
+  expect(result.failed).toBe(0);
+  expect(result.output).toContain('1 quarantined');
+  expect(result.output).toContain('› suite › fails');
+  expect(result.output).toContain('Expected: 2');
+  expect(result.report.suites[0].suites[0].specs[0].tests[0].annotations).toEqual([{ type: 'quarantine' }]);
+});
+
+test('should fail the run because of tests that are not quarantined', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.ts': `
+      module.exports = { quarantine: { file: 'quarantine.json' } };
+    `,
+    'quarantine.json': JSON.stringify(['a.test.ts › fails']),
+    'a.test.ts': `
+      import { test, expect } from '@playwright/test';
+      test('fails', async () => {
+        expect(1).toBe(2);
+      });
+      test('also fails', async () => {
+        expect(1).toBe(2);
+      });
+    `,
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.failed).toBe(1);
+  expect(result.output).toContain('1 quarantined');
+});
+
+test('should not fail on quarantined flaky tests with failOnFlakyTests', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.ts': `
+      module.exports = { quarantine: { file: 'quarantine.json' }, failOnFlakyTests: true, retries: 1 };
+    `,
+    'quarantine.json': JSON.stringify(['a.test.ts › flake']),
+    'a.test.ts': `
+      import { test, expect } from '@playwright/test';
+      test('flake', async ({}, testInfo) => {
+        expect(testInfo.retry).toBe(1);
+      });
+    `,
+  });
+  expect(result.exitCode).toBe(0);
+  expect(result.output).toContain('1 quarantined');
+});
+
+test('should automatically quarantine flaky tests', async ({ runInlineTest }) => {
+  const workspace = {
+    'playwright.config.ts': `
+      module.exports = {
+        retries: 1,
+        quarantine: { file: 'quarantine.json', autoQuarantine: { flakyRuns: 2, runs: 2 } },
+      };
+    `,
+    'a.test.ts': `
+      import { test, expect } from '@playwright/test';
+      test('flake', async ({}, testInfo) => {
+        expect(testInfo.retry).toBe(process.env.PW_FLAKY ? 1 : 0);
+      });
+      test('passes', async () => {});
+    `,
+  };
+  const quarantineFile = test.info().outputPath('quarantine.json');
+  const readReport = () => JSON.parse(fs.readFileSync(test.info().outputPath('test-results', '.quarantine-report.json'), 'utf8'));
+
+  await test.step('first flaky run', async () => {
+    const result = await runInlineTest(workspace, {}, { PW_FLAKY: '1' });
+    expect(result.exitCode).toBe(0);
+    expect(result.flaky).toBe(1);
+    expect(fs.existsSync(quarantineFile)).toBe(false);
+  });
+
+  await test.step('second flaky run', async () => {
+    const result = await runInlineTest(workspace, {}, { PW_FLAKY: '1' });
+    expect(result.exitCode).toBe(0);
+    expect(JSON.parse(fs.readFileSync(quarantineFile, 'utf8'))).toEqual(['a.test.ts › flake']);
+    expect(readReport()).toEqual({ quarantined: ['a.test.ts › flake'], stable: [] });
+  });
+
+  await test.step('quarantined run', async () => {
+    const result = await runInlineTest(workspace, {}, { PW_FLAKY: '1' });
+    expect(result.exitCode).toBe(0);
+    expect(result.output).toContain('1 quarantined');
+    expect(readReport()).toEqual({ quarantined: [], stable: [] });
+  });
+
+  await test.step('stable runs', async () => {
+    await runInlineTest(workspace, {});
+    const result = await runInlineTest(workspace, {});
+    expect(result.exitCode).toBe(0);
+    expect(result.passed).toBe(2);
+    expect(readReport()).toEqual({ quarantined: [], stable: ['a.test.ts › flake'] });
+    expect(result.output).toContain('1 stable in quarantine, can be un-quarantined');
+    expect(result.output).toContain('    a.test.ts › flake');
+    expect(JSON.parse(fs.readFileSync(quarantineFile, 'utf8'))).toEqual(['a.test.ts › flake']);
+  });
+});
+
+test('should validate quarantine config', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.ts': `
+      module.exports = { quarantine: { file: 'quarantine.json', autoQuarantine: { flakyRuns: 3, runs: 2 } } };
+    `,
+    'a.test.ts': `
+      import { test } from '@playwright/test';
+      test('pass', async () => {});
+    `,
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain(`config.quarantine.autoQuarantine.runs must be a positive number, not less than config.quarantine.autoQuarantine.flakyRuns`);
+});
+
+test('should report invalid quarantine file', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.ts': `
+      module.exports = { quarantine: { file: 'quarantine.json' } };
+    `,
+    'quarantine.json': `{ "tests": [] }`,
+    'a.test.ts': `
+      import { test } from '@playwright/test';
+      test('pass', async () => {});
+    `,
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain(`must contain an array of test ids or titles`);
+});
@@ -3307,6 +3307,46 @@ for (const useIntermediateMergeReport of [true, false] as const) {
       });
     });
 
+    test.describe('trends', () => {
+      test('should show test trends across runs', async ({ runInlineTest, showReport, page }) => {
+        const files = {
+          'playwright.config.ts': `
+          module.exports = {
+            runHistory: true,
+            projects: [{ name: 'foo' }],
+          };
+        `,
+          'a.test.js': `
+            import { test, expect } from '@playwright/test';
+            test('passes', async () => {});
+            test('fails sometimes', async () => {
+              expect(process.env.PW_FAIL).toBeFalsy();
+            });
+          `,
+        };
+        await runInlineTest(files, { reporter: 'dot,html' }, { PLAYWRIGHT_HTML_OPEN: 'never' });
+        await showReport();
+        await expect(page.getByRole('link', { name: 'Trends' })).toHaveCount(0);
+
+        await runInlineTest(files, { reporter: 'dot,html' }, { PLAYWRIGHT_HTML_OPEN: 'never', PW_FAIL: '1' });
+        await page.reload();
+        await expect(page.getByRole('link', { name: 'Trends' })).toHaveAttribute('aria-selected', 'false');
+        await page.getByRole('link', { name: 'Trends' }).click();
+        await expect(page.getByRole('link', { name: 'Trends' })).toHaveAttribute('aria-selected', 'true');
+
+        await expect(page.getByRole('button', { name: 'Test Trends, last 2 runs' })).toBeVisible();
+        const trends = page.getByTestId('test-trend');
+        // Tests that passed in all the runs are not embedded.
+        await expect(trends).toHaveCount(1);
+        await expect(trends.nth(0)).toContainText('a.test.js › fails sometimes');
+        await expect(trends.nth(0)).toContainText('50%');
+        await expect(trends.nth(0).getByRole('img', { name: 'Duration trend' })).toBeVisible();
+
+        await trends.nth(0).getByRole('link', { name: 'a.test.js › fails sometimes' }).click();
+        await expect(page).toHaveURL(/testId/);
+      });
+    });
+
 
     test('shard chart', async ({ runInlineTest, writeFiles, showReport, page }) => {
       test.skip(!useIntermediateMergeReport);
@@ -0,0 +1,127 @@
+/**
+ * Copyright Microsoft Corporation. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import { test, expect, stripAnsi } from './playwright-test-fixtures';
+
+const workspace = {
+  'playwright.config.ts': `
+    module.exports = { runHistory: true, projects: [{ name: 'foo' }] };
+  `,
+  'a.test.ts': `
+    import { test, expect } from '@playwright/test';
+    test('passes', async () => {});
+    test('fails sometimes', async () => {
+      expect(process.env.PW_FAIL).toBeFalsy();
+    });
+    test('is flaky', async ({}, testInfo) => {
+      expect(testInfo.retry).toBe(1);
+    });
+    test.skip('skipped', async () => {});
+  `,
+};
+
+function readRunHistory(file: string) {
+  return fs.readFileSync(file, 'utf8').split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
+
+test('should record run history', async ({ runInlineTest }) => {
+  await runInlineTest(workspace, { retries: 1 });
+  const result = await runInlineTest(workspace, { retries: 1 }, { PW_FAIL: '1' });
+  expect(result.exitCode).toBe(1);
+
+  const runs = readRunHistory(test.info().outputPath('test-results', '.run-history.jsonl'));
+  expect(runs).toHaveLength(2);
+  expect(runs[1].startTime).toBeGreaterThan(runs[0].startTime);
+  expect(runs.map(run => run.status)).toEqual(['passed', 'failed']);
+
+  const tests = runs.map(run => Object.fromEntries(run.tests.map(test => [test.title, test])));
+  expect(tests[0]['a.test.ts › passes']).toEqual({ id: expect.any(String), title: 'a.test.ts › passes', project: 'foo', outcome: 'expected', duration: expect.any(Number), retries: 0 });
+  expect(tests[0]['a.test.ts › fails sometimes'].outcome).toBe('expected');
+  expect(tests[0]['a.test.ts › is flaky']).toEqual(expect.objectContaining({ outcome: 'flaky', retries: 1 }));
+  expect(tests[0]['a.test.ts › skipped'].outcome).toBe('skipped');
+  expect(tests[1]['a.test.ts › fails sometimes']).toEqual(expect.objectContaining({ outcome: 'unexpected', retries: 1, errorHash: expect.any(String) }));
+});
+
+test('should not record run history by default', async ({ runInlineTest, runCLICommand }) => {
+  const files = {
+    ...workspace,
+    'playwright.config.ts': `
+      module.exports = { projects: [{ name: 'foo' }] };
+    `,
+  };
+  await runInlineTest(files, { retries: 1 });
+  expect(fs.existsSync(test.info().outputPath('test-results', '.run-history.jsonl'))).toBe(false);
+
+  const result = await runCLICommand(files, 'history');
+  expect(result.exitCode).toBe(0);
+  expect(result.stdout).toContain('Run history is not recorded, enable it with "runHistory: true" in the config.');
+});
+
+test('should record run history once when merging blob reports', async ({ runInlineTest, mergeReports, useIntermediateMergeReport }) => {
+  test.skip(useIntermediateMergeReport, 'reports are already merged by runInlineTest');
+  await runInlineTest(workspace, { retries: 1, reporter: 'blob' });
+  expect(fs.existsSync(test.info().outputPath('test-results', '.run-history.jsonl'))).toBe(false);
+
+  const { exitCode } = await mergeReports(test.info().outputPath('blob-report'), undefined, { additionalArgs: ['--config', 'playwright.config.ts'] });
+  expect(exitCode).toBe(0);
+  const runs = readRunHistory(test.info().outputPath('test-results', '.run-history.jsonl'));
+  expect(runs).toHaveLength(1);
+  expect(runs[0].tests.map(test => test.title)).toContain('a.test.ts › passes');
+});
+
+test('should keep run history when listing tests', async ({ runInlineTest }) => {
+  await runInlineTest(workspace);
+  await runInlineTest(workspace, { list: true });
+  const runs = readRunHistory(test.info().outputPath('test-results', '.run-history.jsonl'));
+  expect(runs).toHaveLength(1);
+});
+
+test('should show failing and flaky tests in history', async ({ runInlineTest, runCLICommand }) => {
+  await runInlineTest(workspace, { retries: 1 });
+  await runInlineTest(workspace, { retries: 1 }, { PW_FAIL: '1' });
+
+  const result = await runCLICommand(workspace, 'history');
+  expect(result.exitCode).toBe(0);
+  const output = stripAnsi(result.stdout);
+  expect(output).toContain('2 runs recorded between');
+  expect(output).toContain('50%  [foo] › a.test.ts › fails sometimes');
+  expect(output).toContain('runs ✓✘');
+  expect(output).toContain('100%  [foo] › a.test.ts › is flaky');
+  expect(output).toContain('runs ±±');
+  expect(output).not.toContain('a.test.ts › passes');
+  expect(output).not.toContain('a.test.ts › skipped');
+});
+
+test('should filter history and print json', async ({ runInlineTest, runCLICommand }) => {
+  await runInlineTest(workspace, { retries: 1 });
+  await runInlineTest(workspace, { retries: 1 }, { PW_FAIL: '1' });
+
+  const result = await runCLICommand(workspace, 'history', ['pass', '--all', '--json']);
+  expect(result.exitCode).toBe(0);
+  const trends = JSON.parse(result.stdout);
+  expect(trends.runs).toBe(2);
+  expect(trends.tests.map(test => [test.title, test.passRate])).toEqual([
+    ['a.test.ts › passes', 1],
+  ]);
+  expect(trends.tests[0].runs.map(run => run.outcome)).toEqual(['expected', 'expected']);
+});
+
+test('should report when there is no history', async ({ runCLICommand }) => {
+  const result = await runCLICommand(workspace, 'history');
+  expect(result.exitCode).toBe(0);
+  expect(result.stdout).toContain('No test runs recorded yet.');
+});
@@ -357,3 +357,61 @@ test('should respect custom shard weights', async ({ runInlineTest }) => {
     ]);
   });
 });
+
+test('should shard by recorded test durations', async ({ runInlineTest }) => {
+  const workspace = {
+    'playwright.config.js': `
+      module.exports = { shardingStrategy: 'duration', fullyParallel: true };
+    `,
+    'a.spec.ts': `
+      import { test } from '@playwright/test';
+      test('slow', async () => {
+        await new Promise(f => setTimeout(f, 2000));
+        console.log('\\n%%slow-done');
+      });
+      for (let i = 1; i <= 5; i++) {
+        test('fast' + i, async () => {
+          console.log('\\n%%fast' + i + '-done');
+        });
+      }
+    `,
+  };
+
+  await test.step('without recorded durations', async () => {
+    const result = await runInlineTest(workspace, { shard: '1/2', workers: 1 });
+    expect(result.exitCode).toBe(0);
+    expect(result.outputLines).toEqual(['slow-done', 'fast1-done', 'fast2-done']);
+  });
+
+  await test.step('record durations', async () => {
+    const result = await runInlineTest(workspace, { workers: 1 });
+    expect(result.exitCode).toBe(0);
+    expect(result.passed).toBe(6);
+  });
+
+  await test.step('shard 1', async () => {
+    const result = await runInlineTest(workspace, { shard: '1/2', workers: 1 });
+    expect(result.exitCode).toBe(0);
+    expect(result.outputLines).toEqual(['slow-done']);
+  });
+
+  await test.step('shard 2', async () => {
+    const result = await runInlineTest(workspace, { shard: '2/2', workers: 1 });
+    expect(result.exitCode).toBe(0);
+    expect(result.outputLines).toEqual(['fast1-done', 'fast2-done', 'fast3-done', 'fast4-done', 'fast5-done']);
+  });
+});
+
+test('should validate sharding strategy', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.js': `
+      module.exports = { shardingStrategy: 'files' };
+    `,
+    'a.spec.ts': `
+      import { test } from '@playwright/test';
+      test('pass', async () => {});
+    `,
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain(`config.shardingStrategy must be one of "count" or "duration"`);
+});